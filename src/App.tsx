@@ -11,6 +11,7 @@ import Dashboard from "./pages/Dashboard";
 import Upload from "./pages/Upload";
 import MeetingDetail from "./pages/MeetingDetail";
 import Settings from "./pages/Settings";
+import ExtractionMemory from "./pages/ExtractionMemory";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -31,6 +32,7 @@ const App = () => (
               <Route path="/upload" element={<Upload />} />
               <Route path="/meeting/:id" element={<MeetingDetail />} />
               <Route path="/settings" element={<Settings />} />
+              <Route path="/settings/memory" element={<ExtractionMemory />} />
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
               <Route path="*" element={<NotFound />} />
             </Routes>
@@ -20,35 +20,61 @@ import {
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { Calendar } from '@/components/ui/calendar';
 import { Button } from '@/components/ui/button';
+import type { Json } from '@/integrations/supabase/types';
 import { cn } from '@/lib/utils';
+import { parseOwnerCandidates, type OwnerCandidate } from '@/lib/people';
+import { readExtraValues } from '@/lib/meetingTemplates';
+import { formatTimestamp } from '@/lib/transcript/time';
 import { format } from 'date-fns';
-import { Calendar as CalendarIcon, AlertTriangle, ExternalLink } from 'lucide-react';
+import { Calendar as CalendarIcon, AlertTriangle, Check, ExternalLink, Quote, Trash2, UserRoundSearch } from 'lucide-react';
 
 interface ActionItem {
   id: string;
   action_item: string;
   owner: string | null;
   owner_email: string | null;
+  /** Who an ambiguous owner may be; empty once resolved. */
+  owner_candidates: Json;
   deadline: string | null;
+  deadline_phrase: string | null;
+  /** Extra fields from the meeting's template, by label. */
+  extra: Json;
+  /** The text as extracted in the meeting's language, when the item was translated. */
+  original_action_item: string | null;
+  original_notes: string | null;
   priority: 'Low' | 'Medium' | 'High';
   status: 'Open' | 'In Progress' | 'Done';
   confidence: number;
   notes: string | null;
   jira_issue_key: string | null;
+  source_quote: string | null;
+  source_timestamp: number | null;
 }
 
 interface ActionItemsTableProps {
   items: ActionItem[];
   onUpdateItem: (id: string, updates: Partial<ActionItem>) => Promise<void>;
+  /** Marks a flagged item as correct, so extraction learns from it. */
+  onConfirmItem?: (item: ActionItem) => Promise<void>;
+  /** Removes a false positive. */
+  onDeleteItem?: (item: ActionItem) => Promise<void>;
   selectedItems: string[];
   onSelectionChange: (items: string[]) => void;
+  /** Shows the transcript passage an item was extracted from. */
+  onShowSource?: (item: ActionItem) => void;
+  /** The item whose source passage is currently highlighted. */
+  highlightedItemId?: string | null;
 }
 
 export function ActionItemsTable({
   items,
   onUpdateItem,
+  onConfirmItem,
+  onDeleteItem,
   selectedItems,
   onSelectionChange,
+  onShowSource,
+  highlightedItemId,
 }: ActionItemsTableProps) {
   const [editingCell, setEditingCell] = useState<{ id: string; field: string } | null>(null);
 
@@ -75,6 +101,9 @@ export function ActionItemsTable({
       updates.deadline = value.toISOString();
     } else if (field === 'deadline' && value === null) {
       updates.deadline = null;
+    } else if (field === 'owner') {
+      // Typing an owner settles who it is
+      updates = { owner: value as string, owner_candidates: [] };
     } else {
       updates = { [field]: value };
     }
@@ -83,6 +112,9 @@ export function ActionItemsTable({
     setEditingCell(null);
   };
 
+  const handlePickOwner = (id: string, candidate: OwnerCandidate) =>
+    onUpdateItem(id, { owner: candidate.name, owner_email: candidate.email, owner_candidates: [] });
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'High':
@@ -142,11 +174,23 @@ export function ActionItemsTable({
             <TableHead className="w-28">Status</TableHead>
             <TableHead className="w-20">Confidence</TableHead>
             <TableHead className="w-20">Jira</TableHead>
+            {(onConfirmItem || onDeleteItem) && (
+              <TableHead className="w-20">
+                <span className="sr-only">Review</span>
+              </TableHead>
+            )}
           </TableRow>
         </TableHeader>
         <TableBody>
           {items.map((item) => (
-            <TableRow key={item.id} className={cn(item.confidence < 0.7 && 'bg-warning/5')}>
+            <TableRow
+              key={item.id}
+              id={`action-item-${item.id}`}
+              className={cn(
+                item.confidence < 0.7 && 'bg-warning/5',
+                item.id === highlightedItemId && 'bg-warning/10 ring-1 ring-inset ring-warning'
+              )}
+            >
               <TableCell>
                 <Checkbox
                   checked={selectedItems.includes(item.id)}
@@ -179,8 +223,37 @@ export function ActionItemsTable({
                     {item.notes && (
                       <p className="mt-1 text-xs text-muted-foreground">{item.notes}</p>
                     )}
+                    {item.original_action_item && (
+                      <p
+                        className="mt-1 text-xs italic text-muted-foreground"
+                        title={item.original_notes ?? undefined}
+                      >
+                        Original: {item.original_action_item}
+                      </p>
+                    )}
+                    {readExtraValues(item.extra).length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {readExtraValues(item.extra).map(([label, value]) => (
+                          <Badge key={label} variant="secondary" className="font-normal">
+                            {label}: {value}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 )}
+                {onShowSource && (item.source_quote || item.source_timestamp !== null) && (
+                  <button
+                    type="button"
+                    className="mt-1 inline-flex items-center gap-1 px-2 text-xs text-primary hover:underline"
+                    onClick={() => onShowSource(item)}
+                    title={item.source_quote ?? undefined}
+                  >
+                    <Quote className="h-3 w-3" />
+                    Show in transcript
+                    {item.source_timestamp !== null && ` (${formatTimestamp(item.source_timestamp)})`}
+                  </button>
+                )}
               </TableCell>
 
               {/* Owner */}
@@ -212,6 +285,34 @@ export function ActionItemsTable({
                     )}
                   </div>
                 )}
+                {parseOwnerCandidates(item.owner_candidates).length > 0 && (
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <button type="button" className="mt-1 px-2">
+                        <Badge variant="outline" className="gap-1 border-warning/30 bg-warning/10 text-warning">
+                          <UserRoundSearch className="h-3 w-3" />
+                          Ambiguous
+                        </Badge>
+                      </button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-64 p-2" align="start">
+                      <p className="px-2 pb-2 text-xs text-muted-foreground">
+                        "{item.owner}" could be any of these people. Who is it?
+                      </p>
+                      {parseOwnerCandidates(item.owner_candidates).map((candidate) => (
+                        <button
+                          key={candidate.personId ?? candidate.name}
+                          type="button"
+                          className="w-full rounded px-2 py-1.5 text-left text-sm hover:bg-muted"
+                          onClick={() => handlePickOwner(item.id, candidate)}
+                        >
+                          <p className="font-medium">{candidate.name}</p>
+                          {candidate.email && <p className="text-xs text-muted-foreground">{candidate.email}</p>}
+                        </button>
+                      ))}
+                    </PopoverContent>
+                  </Popover>
+                )}
               </TableCell>
 
               {/* Deadline */}
@@ -240,6 +341,11 @@ export function ActionItemsTable({
                     />
                   </PopoverContent>
                 </Popover>
+                {item.deadline_phrase && (
+                  <p className="px-2 text-xs text-muted-foreground" title="The words this deadline was read from">
+                    “{item.deadline_phrase}”
+                  </p>
+                )}
               </TableCell>
 
               {/* Priority */}
@@ -308,6 +414,36 @@ export function ActionItemsTable({
                   <span className="text-muted-foreground">—</span>
                 )}
               </TableCell>
+
+              {/* Review */}
+              {(onConfirmItem || onDeleteItem) && (
+                <TableCell>
+                  <div className="flex gap-1">
+                    {onConfirmItem && item.confidence < 0.7 && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => onConfirmItem(item)}
+                        title="Confirm this is a real action item"
+                      >
+                        <Check className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onDeleteItem && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => onDeleteItem(item)}
+                        title="Delete: not an action item"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              )}
             </TableRow>
           ))}
         </TableBody>
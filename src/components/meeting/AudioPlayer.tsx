@@ -0,0 +1,117 @@
+import { forwardRef, useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Skeleton } from '@/components/ui/skeleton';
+import { supabase } from '@/integrations/supabase/client';
+
+// Signed URLs expire quickly; an expired URL is re-signed when playback hits an error.
+const SIGNED_URL_TTL_SECONDS = 10 * 60;
+const PLAYBACK_RATES = ['1', '1.5', '2'];
+
+export interface AudioPlayerHandle {
+  seek: (seconds: number) => void;
+}
+
+interface AudioPlayerProps {
+  /** Object path in the private meeting-audio bucket. */
+  audioPath: string;
+  onTimeUpdate?: (seconds: number) => void;
+}
+
+export const AudioPlayer = forwardRef<AudioPlayerHandle, AudioPlayerProps>(
+  ({ audioPath, onTimeUpdate }, ref) => {
+    const audioRef = useRef<HTMLAudioElement>(null);
+    const resumeAtRef = useRef<number | null>(null);
+    const [signedUrl, setSignedUrl] = useState<string | null>(null);
+    const [playbackRate, setPlaybackRate] = useState('1');
+    const [loadError, setLoadError] = useState(false);
+
+    const signUrl = useCallback(async () => {
+      const { data, error } = await supabase.storage
+        .from('meeting-audio')
+        .createSignedUrl(audioPath, SIGNED_URL_TTL_SECONDS);
+
+      if (error || !data) {
+        console.error('Error signing audio URL:', error);
+        setLoadError(true);
+        return;
+      }
+      setLoadError(false);
+      setSignedUrl(data.signedUrl);
+    }, [audioPath]);
+
+    useEffect(() => {
+      void signUrl();
+    }, [signUrl]);
+
+    useEffect(() => {
+      if (audioRef.current) audioRef.current.playbackRate = Number(playbackRate);
+    }, [playbackRate, signedUrl]);
+
+    useImperativeHandle(ref, () => ({
+      seek: (seconds: number) => {
+        const audio = audioRef.current;
+        if (!audio) return;
+        audio.currentTime = seconds;
+        void audio.play().catch(() => undefined);
+      },
+    }));
+
+    const handleError = () => {
+      // Most likely the signed URL expired; re-sign and pick up where playback stopped
+      if (resumeAtRef.current !== null) {
+        setLoadError(true);
+        return;
+      }
+      resumeAtRef.current = audioRef.current?.currentTime ?? 0;
+      void signUrl();
+    };
+
+    const handleLoadedMetadata = () => {
+      const audio = audioRef.current;
+      if (!audio) return;
+      audio.playbackRate = Number(playbackRate);
+      if (resumeAtRef.current !== null) {
+        audio.currentTime = resumeAtRef.current;
+        resumeAtRef.current = null;
+      }
+    };
+
+    if (loadError) {
+      return <p className="text-sm text-muted-foreground">The recording could not be loaded.</p>;
+    }
+
+    if (!signedUrl) {
+      return <Skeleton className="h-12 w-full" />;
+    }
+
+    return (
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+        <audio
+          ref={audioRef}
+          src={signedUrl}
+          controls
+          preload="metadata"
+          className="w-full"
+          onTimeUpdate={(e) => onTimeUpdate?.(e.currentTarget.currentTime)}
+          onLoadedMetadata={handleLoadedMetadata}
+          onError={handleError}
+        />
+        <ToggleGroup
+          type="single"
+          size="sm"
+          variant="outline"
+          value={playbackRate}
+          onValueChange={(value) => value && setPlaybackRate(value)}
+          aria-label="Playback speed"
+        >
+          {PLAYBACK_RATES.map((rate) => (
+            <ToggleGroupItem key={rate} value={rate} aria-label={`${rate}x speed`}>
+              {rate}x
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+    );
+  }
+);
+AudioPlayer.displayName = 'AudioPlayer';
@@ -7,8 +7,9 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useToast } from '@/hooks/use-toast';
-import { Download, Send, FileJson, FileSpreadsheet, Loader2 } from 'lucide-react';
+import { Download, Send, FileJson, FileSpreadsheet, FileText, Loader2, NotebookText } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
+import { formatMeetingNotes, INSIGHT_SECTIONS, insightsOfKind, type MeetingInsight } from '@/lib/meetingInsights';
 
 interface ActionItem {
   id: string;
@@ -28,9 +29,26 @@ interface ExportPanelProps {
   selectedItems: string[];
   meetingTitle: string;
   meetingId: string;
+  meetingDate: string;
+  transcript?: string | null;
+  /** Decisions, risks and open questions, exported alongside the action items. */
+  insights?: MeetingInsight[];
+  /** The meeting summary, which leads the exported meeting notes. */
+  summary?: string | null;
+  keyPoints?: string[];
 }
 
-export function ExportPanel({ actionItems, selectedItems, meetingTitle, meetingId }: ExportPanelProps) {
+export function ExportPanel({
+  actionItems,
+  selectedItems,
+  meetingTitle,
+  meetingId,
+  meetingDate,
+  transcript,
+  insights = [],
+  summary = null,
+  keyPoints = [],
+}: ExportPanelProps) {
   const { toast } = useToast();
   const [isExportingToJira, setIsExportingToJira] = useState(false);
 
@@ -76,7 +94,14 @@ export function ExportPanel({ actionItems, selectedItems, meetingTitle, meetingI
       notes: item.notes,
     }));
 
-    const json = JSON.stringify(exportData, null, 2);
+    const insightData = Object.fromEntries(
+      INSIGHT_SECTIONS.map(({ kind, exportKey }) => [
+        exportKey,
+        insightsOfKind(insights, kind).map((insight) => ({ text: insight.text, owner: insight.owner })),
+      ])
+    );
+
+    const json = JSON.stringify({ actionItems: exportData, ...insightData }, null, 2);
     const blob = new Blob([json], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -91,6 +116,46 @@ export function ExportPanel({ actionItems, selectedItems, meetingTitle, meetingI
     });
   };
 
+  const exportMeetingNotes = () => {
+    const notes = formatMeetingNotes({
+      title: meetingTitle,
+      meetingDate,
+      actionItems: itemsToExport,
+      insights,
+      summary,
+      keyPoints,
+    });
+    const blob = new Blob([notes], { type: 'text/markdown;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${meetingTitle.replace(/\s+/g, '_')}_notes.md`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: 'Exported!',
+      description: 'Meeting notes exported as Markdown.',
+    });
+  };
+
+  const exportTranscript = () => {
+    if (!transcript) return;
+
+    const blob = new Blob([transcript], { type: 'text/plain;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${meetingTitle.replace(/\s+/g, '_')}_transcript.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: 'Exported!',
+      description: 'Transcript exported as text.',
+    });
+  };
+
   const exportToJira = async () => {
     setIsExportingToJira(true);
 
@@ -142,21 +207,31 @@ export function ExportPanel({ actionItems, selectedItems, meetingTitle, meetingI
 
       <DropdownMenu>
         <DropdownMenuTrigger asChild>
-          <Button variant="outline" disabled={itemsToExport.length === 0}>
+          <Button variant="outline" disabled={itemsToExport.length === 0 && insights.length === 0 && !summary && !transcript}>
             <Download className="mr-2 h-4 w-4" />
             Export
             {selectedItems.length > 0 && ` (${selectedItems.length})`}
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent align="end">
-          <DropdownMenuItem onClick={exportAsCSV}>
+          <DropdownMenuItem onClick={exportAsCSV} disabled={itemsToExport.length === 0}>
             <FileSpreadsheet className="mr-2 h-4 w-4" />
             Export as CSV
           </DropdownMenuItem>
-          <DropdownMenuItem onClick={exportAsJSON}>
+          <DropdownMenuItem onClick={exportAsJSON} disabled={itemsToExport.length === 0 && insights.length === 0}>
             <FileJson className="mr-2 h-4 w-4" />
             Export as JSON
           </DropdownMenuItem>
+          <DropdownMenuItem onClick={exportMeetingNotes} disabled={itemsToExport.length === 0 && insights.length === 0 && !summary}>
+            <NotebookText className="mr-2 h-4 w-4" />
+            Export meeting notes
+          </DropdownMenuItem>
+          {transcript && (
+            <DropdownMenuItem onClick={exportTranscript}>
+              <FileText className="mr-2 h-4 w-4" />
+              Export transcript
+            </DropdownMenuItem>
+          )}
         </DropdownMenuContent>
       </DropdownMenu>
     </div>
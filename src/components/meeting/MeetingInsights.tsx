@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { cn } from '@/lib/utils';
+import { INSIGHT_SECTIONS, insightsOfKind, type InsightKind, type MeetingInsight } from '@/lib/meetingInsights';
+import { CheckCircle2, HelpCircle, ListPlus, Loader2, ShieldAlert } from 'lucide-react';
+
+interface MeetingInsightsProps {
+  insights: MeetingInsight[];
+  /** Turns an open question into an action item. */
+  onConvertQuestion: (insight: MeetingInsight) => Promise<void>;
+}
+
+const SECTION_ICONS: Record<InsightKind, typeof CheckCircle2> = {
+  decision: CheckCircle2,
+  risk: ShieldAlert,
+  question: HelpCircle,
+};
+
+const SECTION_ICON_COLORS: Record<InsightKind, string> = {
+  decision: 'text-success',
+  risk: 'text-destructive',
+  question: 'text-primary',
+};
+
+export function MeetingInsights({ insights, onConvertQuestion }: MeetingInsightsProps) {
+  const [convertingId, setConvertingId] = useState<string | null>(null);
+
+  const handleConvert = async (insight: MeetingInsight) => {
+    setConvertingId(insight.id);
+    try {
+      await onConvertQuestion(insight);
+    } finally {
+      setConvertingId(null);
+    }
+  };
+
+  const sections = INSIGHT_SECTIONS.map((section) => ({
+    ...section,
+    items: insightsOfKind(insights, section.kind),
+  })).filter((section) => section.items.length > 0);
+
+  if (sections.length === 0) return null;
+
+  return (
+    <div className="mt-6 grid gap-6 lg:grid-cols-3">
+      {sections.map(({ kind, title, items }) => {
+        const Icon = SECTION_ICONS[kind];
+        return (
+          <Card key={kind}>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Icon className={cn('h-5 w-5', SECTION_ICON_COLORS[kind])} />
+                {title}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-3">
+                {items.map((insight) => (
+                  <li key={insight.id} className="space-y-1 text-sm">
+                    <p title={insight.source_quote ?? undefined}>{insight.text}</p>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {insight.owner && <span className="text-xs text-muted-foreground">{insight.owner}</span>}
+                      {kind === 'question' && (insight.action_item_id ? (
+                        <Badge variant="outline">Action item created</Badge>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={() => handleConvert(insight)}
+                          disabled={convertingId === insight.id}
+                        >
+                          {convertingId === insight.id ? (
+                            <Loader2 className="mr-1 h-3 w-3 animate-spin" />
+                          ) : (
+                            <ListPlus className="mr-1 h-3 w-3" />
+                          )}
+                          Make action item
+                        </Button>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+}
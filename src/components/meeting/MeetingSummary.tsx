@@ -0,0 +1,152 @@
+import { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { formatDistanceToNow } from 'date-fns';
+import { Loader2, Pencil, RefreshCw, Sparkles } from 'lucide-react';
+
+interface MeetingSummaryProps {
+  summary: string | null;
+  keyPoints: string[];
+  generatedAt: string | null;
+  /** Saves an edited summary; rejects if it could not be saved. */
+  onSave: (summary: string, keyPoints: string[]) => Promise<void>;
+  /** Generates a new summary from the transcript; absent when there is no transcript. */
+  onRegenerate?: () => Promise<void>;
+}
+
+export function MeetingSummary({ summary, keyPoints, generatedAt, onSave, onRegenerate }: MeetingSummaryProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftSummary, setDraftSummary] = useState('');
+  const [draftKeyPoints, setDraftKeyPoints] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRegenerating, setIsRegenerating] = useState(false);
+
+  const startEditing = () => {
+    setDraftSummary(summary ?? '');
+    setDraftKeyPoints(keyPoints.join('\n'));
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      // One key point per line
+      await onSave(
+        draftSummary.trim(),
+        draftKeyPoints.split('\n').map((point) => point.trim()).filter(Boolean)
+      );
+      setIsEditing(false);
+    } catch {
+      // The failure has been reported; stay in edit mode so the draft isn't lost
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRegenerate = async () => {
+    if (!onRegenerate) return;
+
+    setIsRegenerating(true);
+    try {
+      await onRegenerate();
+    } finally {
+      setIsRegenerating(false);
+    }
+  };
+
+  if (!summary && !isEditing && !onRegenerate) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5 text-primary" />
+            Summary
+          </CardTitle>
+          {generatedAt && !isEditing && (
+            <CardDescription>
+              Generated {formatDistanceToNow(new Date(generatedAt), { addSuffix: true })}
+            </CardDescription>
+          )}
+        </div>
+        {!isEditing && (
+          <div className="flex gap-2">
+            {summary && (
+              <Button variant="ghost" size="sm" onClick={startEditing} disabled={isRegenerating}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+            )}
+            {onRegenerate && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleRegenerate}
+                disabled={isRegenerating}
+                title={summary ? 'Replaces the current summary, including any edits' : undefined}
+              >
+                {isRegenerating ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                )}
+                {summary ? 'Regenerate' : 'Generate Summary'}
+              </Button>
+            )}
+          </div>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isEditing ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="meeting-summary">Summary</Label>
+              <Textarea
+                id="meeting-summary"
+                value={draftSummary}
+                onChange={(e) => setDraftSummary(e.target.value)}
+                rows={4}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="meeting-key-points">Key points (one per line)</Label>
+              <Textarea
+                id="meeting-key-points"
+                value={draftKeyPoints}
+                onChange={(e) => setDraftKeyPoints(e.target.value)}
+                rows={6}
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsEditing(false)} disabled={isSaving}>
+                Cancel
+              </Button>
+              <Button onClick={handleSave} disabled={isSaving || !draftSummary.trim()}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : summary ? (
+          <div className="space-y-4">
+            <p className="whitespace-pre-line text-sm leading-relaxed">{summary}</p>
+            {keyPoints.length > 0 && (
+              <ul className="list-disc space-y-1 pl-5 text-sm">
+                {keyPoints.map((point, index) => (
+                  <li key={index}>{point}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {isRegenerating ? 'Summarizing the transcript…' : 'This meeting has not been summarized yet.'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import {
+  canResumeJob,
+  formatStepDuration,
+  isJobFinished,
+  isJobStale,
+  STALE_AFTER_MS,
+  STEP_LABELS,
+  stepDurationSeconds,
+  type ProcessingJob,
+  type ProcessingStep,
+  type ProcessingStepName,
+} from '@/lib/processingJobs';
+import { CheckCircle2, Circle, Loader2, MinusCircle, RotateCcw, XCircle } from 'lucide-react';
+
+interface ProcessingTimelineProps {
+  job: ProcessingJob;
+  steps: ProcessingStep[];
+  onResume: () => void;
+  isResuming: boolean;
+}
+
+const StepIcon = ({ status }: { status: string }) => {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle2 className="h-4 w-4 text-success" />;
+    case 'running':
+      return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-destructive" />;
+    case 'skipped':
+      return <MinusCircle className="h-4 w-4 text-muted-foreground" />;
+    default:
+      return <Circle className="h-4 w-4 text-muted-foreground" />;
+  }
+};
+
+const stepDetails = (step: ProcessingStep) => {
+  if (step.status === 'skipped') return 'Skipped';
+  if (step.status === 'running') return step.attempts > 1 ? `Attempt ${step.attempts}...` : 'Running...';
+
+  const seconds = step.status === 'pending' ? null : stepDurationSeconds(step);
+  return [
+    seconds !== null && formatStepDuration(seconds),
+    step.attempts > 1 && `${step.attempts} attempts`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+};
+
+export function ProcessingTimeline({ job, steps, onResume, isResuming }: ProcessingTimelineProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  // Re-render once an unfinished job would count as stalled, so Resume shows up without a reload
+  useEffect(() => {
+    if (isJobFinished(job)) return;
+    const staleAt = new Date(job.updated_at).getTime() + STALE_AFTER_MS;
+    const timeout = setTimeout(() => setNow(new Date()), Math.max(0, staleAt - Date.now()) + 1000);
+    return () => clearTimeout(timeout);
+  }, [job]);
+
+  const failed = job.status === 'failed';
+  const stale = isJobStale(job, now);
+
+  return (
+    <div className={cn('mt-4 rounded-lg border p-4', (failed || stale) && 'border-destructive/50')}>
+      <div className="mb-3 flex items-center justify-between gap-3">
+        <div>
+          <p className="font-medium">
+            {failed ? 'Processing stopped' : stale ? 'Processing stalled' : 'Processing this meeting'}
+          </p>
+          <p className="text-sm text-muted-foreground">
+            {failed
+              ? 'Resume to retry from the step that failed; finished steps are kept.'
+              : stale
+                ? 'Nothing has moved for a while. Resume to carry on from where it got to; finished steps are kept.'
+                : 'This carries on if you leave the page.'}
+          </p>
+        </div>
+        {canResumeJob(job, now) && (
+          <Button size="sm" variant="outline" onClick={onResume} disabled={isResuming}>
+            {isResuming ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCcw className="mr-2 h-4 w-4" />}
+            Resume
+          </Button>
+        )}
+      </div>
+
+      <ol className="space-y-2">
+        {steps.map((step) => (
+          <li key={step.id} className="flex items-start gap-3 text-sm">
+            <span className="mt-0.5">
+              <StepIcon status={step.status} />
+            </span>
+            <div className="min-w-0 flex-1">
+              <div className="flex flex-wrap items-baseline gap-x-2">
+                <span className={cn(step.status === 'skipped' && 'text-muted-foreground')}>
+                  {STEP_LABELS[step.step as ProcessingStepName] ?? step.step}
+                </span>
+                <span className="text-xs text-muted-foreground">{stepDetails(step)}</span>
+              </div>
+              {step.status === 'failed' && step.error && <p className="text-xs text-destructive">{step.error}</p>}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  planReextraction,
+  type ExistingActionItem,
+  type ExtractedField,
+  type ExtractedValues,
+  type ItemChange,
+  type ReextractionPlan,
+} from '@/lib/reextraction';
+import type { InsightValues } from '@/lib/meetingInsights';
+import type { ExtractionPreview, Extractor } from '@/lib/meetingPipeline';
+import { format } from 'date-fns';
+import { Loader2 } from 'lucide-react';
+
+export interface ReextractSelection {
+  added: ExtractedValues[];
+  changed: ItemChange[];
+  vanished: ExistingActionItem[];
+  /** Decisions, risks and questions from the new run; they replace the current ones. */
+  insights: InsightValues[];
+  extractedWith: Extractor;
+  language: string | null;
+}
+
+interface ReextractDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  items: ExistingActionItem[];
+  /** Runs extraction without saving and returns what it found. */
+  loadPreview: () => Promise<ExtractionPreview>;
+  onApply: (selection: ReextractSelection) => Promise<void>;
+}
+
+const FIELD_LABELS: Partial<Record<ExtractedField, string>> = {
+  action_item: 'Action item',
+  owner: 'Owner',
+  owner_email: 'Email',
+  deadline: 'Deadline',
+  priority: 'Priority',
+  notes: 'Notes',
+};
+
+const formatValue = (field: ExtractedField, value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field === 'deadline') return format(new Date(value as string), 'MMM d, yyyy');
+  return String(value);
+};
+
+export function ReextractDialog({ open, onOpenChange, items, loadPreview, onApply }: ReextractDialogProps) {
+  const [plan, setPlan] = useState<ReextractionPlan | null>(null);
+  const [insights, setInsights] = useState<InsightValues[]>([]);
+  const [extractedWith, setExtractedWith] = useState<Extractor>('ai');
+  const [fallbackReason, setFallbackReason] = useState<string | null>(null);
+  const [language, setLanguage] = useState<string | null>(null);
+  const [translationError, setTranslationError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isApplying, setIsApplying] = useState(false);
+  // Read when the dialog opens, so edits and new callbacks from the page don't extract again
+  const latestRef = useRef({ items, loadPreview });
+  latestRef.current = { items, loadPreview };
+
+  // Extract afresh each time the dialog opens, against the items as they are now
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    setPlan(null);
+    setError(null);
+    latestRef.current
+      .loadPreview()
+      .then((preview) => {
+        if (cancelled) return;
+        const next = planReextraction(latestRef.current.items, preview.actionItems);
+        setPlan(next);
+        setInsights(preview.insights);
+        setExtractedWith(preview.extractedWith);
+        setFallbackReason(preview.fallbackReason);
+        setLanguage(preview.language);
+        setTranslationError(preview.translationError);
+        // Keep items that vanished unless the reviewer chooses to remove them
+        setSelected(new Set([
+          ...next.added.map((_, index) => `added-${index}`),
+          ...next.changed.map((change) => `changed-${change.item.id}`),
+        ]));
+      })
+      .catch((loadError) => {
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Extraction failed.');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open]);
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleApply = async () => {
+    if (!plan) return;
+
+    setIsApplying(true);
+    try {
+      await onApply({
+        added: plan.added.filter((_, index) => selected.has(`added-${index}`)),
+        changed: plan.changed.filter((change) => selected.has(`changed-${change.item.id}`)),
+        vanished: plan.vanished.filter((item) => selected.has(`vanished-${item.id}`)),
+        insights,
+        extractedWith,
+        language,
+      });
+      onOpenChange(false);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const hasChanges = plan && plan.added.length + plan.changed.length + plan.vanished.length > 0;
+  const canApply = Boolean(plan) && (selected.size > 0 || insights.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isApplying && onOpenChange(next)}>
+      <DialogContent className="max-h-[85vh] max-w-2xl overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Re-extract Action Items</DialogTitle>
+          <DialogDescription>
+            Review what a fresh extraction would change. Fields you edited by hand are never overwritten.
+          </DialogDescription>
+        </DialogHeader>
+
+        {fallbackReason && (
+          <p className="rounded-lg border border-warning/50 bg-warning/10 p-3 text-sm">
+            {fallbackReason} This preview comes from the offline rules, which find fewer items than the AI, so
+            check anything they would remove.
+          </p>
+        )}
+
+        {translationError && (
+          <p className="rounded-lg border border-warning/50 bg-warning/10 p-3 text-sm">
+            These items were not translated and are shown in the meeting's language: {translationError}
+          </p>
+        )}
+
+        {error ? (
+          <p className="text-sm text-destructive">{error}</p>
+        ) : !plan ? (
+          <div className="space-y-3">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : !hasChanges ? (
+          <p className="text-sm text-muted-foreground">
+            The new extraction matches the current action items.
+            {insights.length > 0 && ` Its ${insights.length} decisions, risks and open questions will replace the current ones.`}
+          </p>
+        ) : (
+          <div className="space-y-6">
+            {plan.added.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">New ({plan.added.length})</h3>
+                {plan.added.map((item, index) => (
+                  <label key={index} className="flex items-start gap-3 rounded-lg border p-3 text-sm">
+                    <Checkbox
+                      checked={selected.has(`added-${index}`)}
+                      onCheckedChange={() => toggle(`added-${index}`)}
+                    />
+                    <div>
+                      <p className="font-medium">{item.action_item}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {formatValue('owner', item.owner)} · {formatValue('deadline', item.deadline)} · {item.priority}
+                      </p>
+                    </div>
+                  </label>
+                ))}
+              </section>
+            )}
+
+            {plan.changed.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">Changed ({plan.changed.length})</h3>
+                {plan.changed.map((change) => (
+                  <label key={change.item.id} className="flex items-start gap-3 rounded-lg border p-3 text-sm">
+                    <Checkbox
+                      checked={selected.has(`changed-${change.item.id}`)}
+                      onCheckedChange={() => toggle(`changed-${change.item.id}`)}
+                    />
+                    <div className="min-w-0 space-y-1">
+                      <p className="font-medium">{change.item.action_item}</p>
+                      {(Object.keys(change.updates) as ExtractedField[])
+                        .filter((field) => FIELD_LABELS[field])
+                        .map((field) => (
+                          <p key={field} className="text-xs">
+                            <span className="text-muted-foreground">{FIELD_LABELS[field]}: </span>
+                            <span className="line-through">{formatValue(field, change.item[field])}</span>
+                            {' → '}
+                            <span className="font-medium">{formatValue(field, change.updates[field])}</span>
+                          </p>
+                        ))}
+                      {change.keptEdits.map((field) => (
+                        <p key={field} className="flex items-center gap-2 text-xs text-muted-foreground">
+                          <Badge variant="outline">Kept your edit</Badge>
+                          {FIELD_LABELS[field]}: {formatValue(field, change.item[field])}
+                        </p>
+                      ))}
+                    </div>
+                  </label>
+                ))}
+              </section>
+            )}
+
+            {plan.vanished.length > 0 && (
+              <section className="space-y-2">
+                <h3 className="text-sm font-semibold">No longer found ({plan.vanished.length})</h3>
+                <p className="text-xs text-muted-foreground">
+                  These items are kept unless you select them for removal.
+                </p>
+                {plan.vanished.map((item) => (
+                  <label key={item.id} className="flex items-start gap-3 rounded-lg border p-3 text-sm">
+                    <Checkbox
+                      checked={selected.has(`vanished-${item.id}`)}
+                      onCheckedChange={() => toggle(`vanished-${item.id}`)}
+                    />
+                    <div>
+                      <p className="font-medium">{item.action_item}</p>
+                      {item.edited_fields.length > 0 && (
+                        <p className="text-xs text-muted-foreground">Edited by hand</p>
+                      )}
+                    </div>
+                  </label>
+                ))}
+              </section>
+            )}
+
+            {plan.unchangedCount > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {plan.unchangedCount} item{plan.unchangedCount === 1 ? '' : 's'} unchanged.
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground">
+              Decisions, risks and open questions are replaced with the {insights.length} found now; questions
+              already turned into action items are kept.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isApplying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={!canApply || isApplying}>
+            {isApplying && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Apply Changes
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
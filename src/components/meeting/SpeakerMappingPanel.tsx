@@ -0,0 +1,102 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import type { Attendee } from '@/lib/meetingMetadata';
+import type { DetectedSpeaker, SpeakerMap } from '@/lib/speakerMap';
+import { Loader2, UserCheck } from 'lucide-react';
+
+interface SpeakerMappingPanelProps {
+  speakers: DetectedSpeaker[];
+  speakerMap: SpeakerMap;
+  /** People to suggest, typically the meeting's attendees. */
+  people: Attendee[];
+  onSave: (map: SpeakerMap) => Promise<void>;
+}
+
+export function SpeakerMappingPanel({ speakers, speakerMap, people, onSave }: SpeakerMappingPanelProps) {
+  const [draft, setDraft] = useState<Record<string, Attendee>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    setDraft(
+      Object.fromEntries(
+        speakers.map((speaker) => [speaker.label, speakerMap[speaker.label] ?? { name: '', email: null }])
+      )
+    );
+  }, [speakers, speakerMap]);
+
+  const updateDraft = (label: string, updates: Partial<Attendee>) => {
+    setDraft((prev) => {
+      const next = { ...prev[label], ...updates };
+      // Picking a known person by name also fills in their email
+      const match = updates.name !== undefined && people.find((person) => person.name === updates.name);
+      if (match && !next.email) next.email = match.email;
+      return { ...prev, [label]: next };
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const map: SpeakerMap = {};
+      Object.entries(draft).forEach(([label, person]) => {
+        if (person.name.trim()) map[label] = { name: person.name.trim(), email: person.email?.trim() || null };
+      });
+      await onSave(map);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <datalist id="speaker-people">
+        {people.map((person) => (
+          <option key={person.name} value={person.name} />
+        ))}
+      </datalist>
+
+      {speakers.map((speaker) => (
+        <div key={speaker.label} className="space-y-2 rounded-lg border p-3">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline">{speaker.label}</Badge>
+            <span className="text-xs text-muted-foreground">
+              {speaker.turnCount} turn{speaker.turnCount === 1 ? '' : 's'}
+            </span>
+          </div>
+          {speaker.samples.map((sample, index) => (
+            <p key={index} className="line-clamp-2 text-sm italic text-muted-foreground">
+              “{sample}”
+            </p>
+          ))}
+          <div className="grid gap-2 sm:grid-cols-2">
+            <Input
+              list="speaker-people"
+              placeholder="Name"
+              value={draft[speaker.label]?.name ?? ''}
+              onChange={(e) => updateDraft(speaker.label, { name: e.target.value })}
+              aria-label={`Name for ${speaker.label}`}
+            />
+            <Input
+              type="email"
+              placeholder="Email (optional)"
+              value={draft[speaker.label]?.email ?? ''}
+              onChange={(e) => updateDraft(speaker.label, { email: e.target.value || null })}
+              aria-label={`Email for ${speaker.label}`}
+            />
+          </div>
+        </div>
+      ))}
+
+      <Button onClick={handleSave} disabled={isSaving}>
+        {isSaving ? (
+          <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+        ) : (
+          <UserCheck className="mr-2 h-4 w-4" />
+        )}
+        Apply Speaker Names
+      </Button>
+    </div>
+  );
+}
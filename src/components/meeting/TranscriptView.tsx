@@ -0,0 +1,138 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { groupTurns, type TranscriptSegment } from '@/lib/transcript/segments';
+import { formatTimestamp } from '@/lib/transcript/time';
+import { cn } from '@/lib/utils';
+import { CornerLeftUp } from 'lucide-react';
+
+interface TranscriptViewProps {
+  segments: TranscriptSegment[];
+  /** Playback position in seconds; the segment being spoken is highlighted. */
+  activeTime?: number | null;
+  /** Called with a segment's start time when a timestamped line is clicked. */
+  onSeek?: (seconds: number) => void;
+  /** Index of the segment an action item cites; it is highlighted and scrolled into view. */
+  citedIndex?: number | null;
+  /** Called from the link shown next to the cited passage, to go back to its action item. */
+  onCitationBack?: () => void;
+  className?: string;
+}
+
+const SPEAKER_COLORS = [
+  'text-primary',
+  'text-success',
+  'text-warning',
+  'text-destructive',
+  'text-muted-foreground',
+];
+
+// Scrolls an element within the transcript box, without scrolling the whole page
+const revealInContainer = (container: HTMLElement, element: HTMLElement) => {
+  // The container is positioned, so offsetTop is measured from its top edge
+  const top = element.offsetTop;
+  if (top < container.scrollTop || top > container.scrollTop + container.clientHeight - element.offsetHeight) {
+    container.scrollTo({ top: top - container.clientHeight / 3, behavior: 'smooth' });
+  }
+};
+
+export function TranscriptView({
+  segments,
+  activeTime,
+  onSeek,
+  citedIndex,
+  onCitationBack,
+  className,
+}: TranscriptViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const activeRef = useRef<HTMLSpanElement>(null);
+  const citedRef = useRef<HTMLSpanElement>(null);
+
+  const turns = useMemo(() => groupTurns(segments), [segments]);
+  // Give each speaker a stable color in order of first appearance
+  const speakerColors = useMemo(() => {
+    const speakers = [...new Set(segments.map((segment) => segment.speaker ?? ''))];
+    return new Map(speakers.map((speaker, index) => [speaker, SPEAKER_COLORS[index % SPEAKER_COLORS.length]]));
+  }, [segments]);
+
+  const activeSegment = useMemo(() => {
+    if (activeTime === null || activeTime === undefined) return null;
+    let active: TranscriptSegment | null = null;
+    for (const segment of segments) {
+      if (segment.start === null) continue;
+      if (segment.start > activeTime) break;
+      active = segment;
+    }
+    return active;
+  }, [segments, activeTime]);
+
+  const citedSegment = citedIndex !== null && citedIndex !== undefined ? segments[citedIndex] ?? null : null;
+
+  // Keep the line being played visible
+  useEffect(() => {
+    if (containerRef.current && activeRef.current) revealInContainer(containerRef.current, activeRef.current);
+  }, [activeSegment]);
+
+  useEffect(() => {
+    if (containerRef.current && citedRef.current) revealInContainer(containerRef.current, citedRef.current);
+  }, [citedSegment]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('relative max-h-96 space-y-4 overflow-auto rounded-lg bg-muted p-4 text-sm', className)}
+    >
+      {turns.map((turn, index) => (
+        <div key={index} className="space-y-1">
+          <div className="flex items-baseline gap-2">
+            {turn.speaker && (
+              <span className={cn('font-semibold', speakerColors.get(turn.speaker))}>{turn.speaker}</span>
+            )}
+            {turn.start !== null && (
+              <button
+                type="button"
+                className="font-mono text-xs text-muted-foreground hover:text-foreground disabled:pointer-events-none"
+                onClick={() => onSeek?.(turn.start!)}
+                disabled={!onSeek}
+              >
+                {formatTimestamp(turn.start)}
+              </button>
+            )}
+          </div>
+          <p className="whitespace-pre-wrap leading-relaxed">
+            {turn.segments.map((segment, segmentIndex) => {
+              const isActive = segment === activeSegment;
+              const isCited = segment === citedSegment;
+              const canSeek = Boolean(onSeek) && segment.start !== null;
+              return (
+                <span key={segmentIndex}>
+                  {segmentIndex > 0 && ' '}
+                  <span
+                    ref={isCited ? citedRef : isActive ? activeRef : undefined}
+                    className={cn(
+                      'rounded-sm transition-colors',
+                      isActive && 'bg-primary/20',
+                      isCited && 'bg-warning/30 ring-1 ring-warning',
+                      canSeek && 'cursor-pointer hover:bg-primary/10'
+                    )}
+                    onClick={canSeek ? () => onSeek!(segment.start!) : undefined}
+                  >
+                    {segment.text}
+                  </span>
+                  {isCited && onCitationBack && (
+                    <button
+                      type="button"
+                      className="ml-1 inline-flex items-center gap-0.5 rounded-sm px-1 align-baseline text-xs font-medium text-warning hover:bg-warning/20"
+                      onClick={onCitationBack}
+                    >
+                      <CornerLeftUp className="h-3 w-3" />
+                      Action item
+                    </button>
+                  )}
+                </span>
+              );
+            })}
+          </p>
+        </div>
+      ))}
+    </div>
+  );
+}
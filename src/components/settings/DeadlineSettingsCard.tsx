@@ -0,0 +1,174 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  isValidTimeZone,
+  parseHolidayList,
+  readDeadlinePreferences,
+  withDeadlinePreferences,
+} from '@/lib/deadlinePreferences';
+import { updatePreferences } from '@/lib/preferences';
+import { CalendarClock, Loader2 } from 'lucide-react';
+
+interface DeadlineSettingsCardProps {
+  userId: string;
+}
+
+const browserTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export function DeadlineSettingsCard({ userId }: DeadlineSettingsCardProps) {
+  const { toast } = useToast();
+  const [timeZone, setTimeZone] = useState('');
+  const [holidays, setHolidays] = useState('');
+  const [sprintStart, setSprintStart] = useState('');
+  const [sprintWeeks, setSprintWeeks] = useState('2');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from('profiles')
+      .select('preferences')
+      .eq('id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading preferences:', error);
+        const deadlines = readDeadlinePreferences(data?.preferences ?? null);
+        setTimeZone(deadlines.timeZone ?? '');
+        setHolidays(deadlines.holidays.join('\n'));
+        setSprintStart(deadlines.sprint?.start ?? '');
+        setSprintWeeks(String(deadlines.sprint ? deadlines.sprint.lengthDays / 7 : 2));
+        setIsLoading(false);
+      });
+  }, [userId]);
+
+  const handleSave = async () => {
+    const trimmedTimeZone = timeZone.trim();
+    if (trimmedTimeZone && !isValidTimeZone(trimmedTimeZone)) {
+      toast({
+        variant: 'destructive',
+        title: 'Unknown timezone',
+        description: `"${trimmedTimeZone}" is not a timezone name such as Europe/Berlin.`,
+      });
+      return;
+    }
+
+    const { holidays: holidayDates, invalid } = parseHolidayList(holidays);
+    if (invalid.length > 0) {
+      toast({
+        variant: 'destructive',
+        title: 'Invalid holidays',
+        description: `Use YYYY-MM-DD dates: ${invalid.join(', ')}`,
+      });
+      return;
+    }
+
+    const weeks = Number(sprintWeeks);
+    const deadlines = {
+      timeZone: trimmedTimeZone || null,
+      holidays: holidayDates,
+      sprint: sprintStart ? { start: sprintStart, lengthDays: (weeks > 0 ? Math.round(weeks) : 2) * 7 } : null,
+    };
+
+    setIsSaving(true);
+    try {
+      await updatePreferences(userId, (preferences) => withDeadlinePreferences(preferences, deadlines));
+      toast({
+        title: 'Deadline settings saved',
+        description: 'New extractions will resolve deadlines with these settings.',
+      });
+    } catch (error) {
+      console.error('Error saving deadline settings:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to save deadline settings.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <CalendarClock className="h-5 w-5 text-primary" />
+          Deadlines
+        </CardTitle>
+        <CardDescription>
+          How phrases like "next Friday", "in 3 business days" or "end of sprint" become dates.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="grid gap-2">
+              <Label htmlFor="deadline-timezone">Timezone</Label>
+              <Input
+                id="deadline-timezone"
+                placeholder={browserTimeZone}
+                value={timeZone}
+                onChange={(e) => setTimeZone(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Leave blank to use this browser's timezone ({browserTimeZone}).
+              </p>
+            </div>
+
+            <div className="grid gap-2">
+              <Label htmlFor="deadline-holidays">Holidays</Label>
+              <Textarea
+                id="deadline-holidays"
+                placeholder={'2026-12-25\n2026-12-26'}
+                value={holidays}
+                onChange={(e) => setHolidays(e.target.value)}
+                rows={4}
+              />
+              <p className="text-xs text-muted-foreground">
+                One date per line. Business-day deadlines skip these as well as weekends.
+              </p>
+            </div>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="sprint-start">Start of any sprint</Label>
+                <Input
+                  id="sprint-start"
+                  type="date"
+                  value={sprintStart}
+                  onChange={(e) => setSprintStart(e.target.value)}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="sprint-length">Sprint length (weeks)</Label>
+                <Input
+                  id="sprint-length"
+                  type="number"
+                  min={1}
+                  value={sprintWeeks}
+                  onChange={(e) => setSprintWeeks(e.target.value)}
+                  disabled={!sprintStart}
+                />
+              </div>
+            </div>
+
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Deadline Settings
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
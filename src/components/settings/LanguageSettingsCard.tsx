@@ -0,0 +1,88 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { TranslateToSelect } from '@/components/upload/TranslateToSelect';
+import { useToast } from '@/hooks/use-toast';
+import { readTranslateTo, withTranslateTo } from '@/lib/languages';
+import { updatePreferences } from '@/lib/preferences';
+import { Languages, Loader2 } from 'lucide-react';
+
+interface LanguageSettingsCardProps {
+  userId: string;
+}
+
+export function LanguageSettingsCard({ userId }: LanguageSettingsCardProps) {
+  const { toast } = useToast();
+  const [translateTo, setTranslateTo] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from('profiles')
+      .select('preferences')
+      .eq('id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading preferences:', error);
+        setTranslateTo(readTranslateTo(data?.preferences ?? null));
+        setIsLoading(false);
+      });
+  }, [userId]);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await updatePreferences(userId, (preferences) => withTranslateTo(preferences, translateTo));
+      toast({
+        title: 'Language settings saved',
+        description: 'New uploads will use this language for action items.',
+      });
+    } catch (error) {
+      console.error('Error saving language settings:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to save language settings.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Languages className="h-5 w-5 text-primary" />
+          Language
+        </CardTitle>
+        <CardDescription>
+          Action items are extracted in the language the meeting was held in. Choose a language to
+          translate them into; the original wording is kept alongside.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <TranslateToSelect
+              id="preferred-language"
+              label="Action item language"
+              value={translateTo}
+              onChange={setTranslateTo}
+            />
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Language Settings
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import {
+  BUILT_IN_TEMPLATES,
+  formatExtraFieldList,
+  newTemplateId,
+  parseExtraFieldList,
+  readCustomTemplates,
+  withCustomTemplates,
+  type CustomTemplate,
+} from '@/lib/meetingTemplates';
+import { updatePreferences } from '@/lib/preferences';
+import { LayoutTemplate, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+
+interface MeetingTemplatesCardProps {
+  userId: string;
+}
+
+const emptyDraft = { name: '', description: '', instructions: '', priorityRules: '', extraFields: '' };
+
+export function MeetingTemplatesCard({ userId }: MeetingTemplatesCardProps) {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<CustomTemplate[]>([]);
+  const [draft, setDraft] = useState(emptyDraft);
+  // The template being edited: its id, 'new' for a new one, or null when the form is closed
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from('profiles')
+      .select('preferences')
+      .eq('id', userId)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading preferences:', error);
+        setTemplates(readCustomTemplates(data?.preferences ?? null));
+        setIsLoading(false);
+      });
+  }, [userId]);
+
+  const startEditing = (template: CustomTemplate | null) => {
+    setEditingId(template?.id ?? 'new');
+    setDraft(
+      template
+        ? {
+            name: template.name,
+            description: template.description,
+            instructions: template.instructions,
+            priorityRules: template.priorityRules,
+            extraFields: formatExtraFieldList(template.extraFields),
+          }
+        : emptyDraft
+    );
+  };
+
+  const saveTemplates = async (next: CustomTemplate[]) => {
+    setIsSaving(true);
+    try {
+      // Written over the stored list, so templates saved from another tab aren't dropped
+      const saved = await updatePreferences(userId, (preferences) => {
+        const stored = readCustomTemplates(preferences).filter(
+          (template) => !templates.some((known) => known.id === template.id)
+        );
+        return withCustomTemplates(preferences, [...stored, ...next]);
+      });
+      setTemplates(readCustomTemplates(saved));
+      return true;
+    } catch (error) {
+      console.error('Error saving templates:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to save meeting templates.',
+      });
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSave = async () => {
+    const template: CustomTemplate = {
+      id: editingId && editingId !== 'new' ? editingId : newTemplateId(),
+      name: draft.name.trim(),
+      description: draft.description.trim(),
+      instructions: draft.instructions.trim(),
+      priorityRules: draft.priorityRules.trim(),
+      extraFields: parseExtraFieldList(draft.extraFields),
+    };
+
+    const next = templates.some((existing) => existing.id === template.id)
+      ? templates.map((existing) => (existing.id === template.id ? template : existing))
+      : [...templates, template];
+
+    if (await saveTemplates(next)) {
+      setEditingId(null);
+      toast({
+        title: 'Template saved',
+        description: `"${template.name}" can be chosen when uploading a meeting.`,
+      });
+    }
+  };
+
+  const handleDelete = async (template: CustomTemplate) => {
+    if (await saveTemplates(templates.filter((existing) => existing.id !== template.id))) {
+      if (editingId === template.id) setEditingId(null);
+    }
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <LayoutTemplate className="h-5 w-5 text-primary" />
+          Meeting Templates
+        </CardTitle>
+        <CardDescription>
+          Templates tell extraction what matters in a kind of meeting. Built in:{' '}
+          {BUILT_IN_TEMPLATES.map((template) => template.name).join(', ')}. Add your own below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {templates.length > 0 && (
+              <ul className="divide-y rounded-md border">
+                {templates.map((template) => (
+                  <li key={template.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="font-medium">{template.name}</p>
+                      {template.description && (
+                        <p className="text-xs text-muted-foreground">{template.description}</p>
+                      )}
+                      {template.extraFields.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {template.extraFields.map((field) => (
+                            <Badge key={field.label} variant="secondary">
+                              {field.label}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => startEditing(template)}
+                        disabled={isSaving}
+                        aria-label={`Edit ${template.name}`}
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => handleDelete(template)}
+                        disabled={isSaving}
+                        aria-label={`Delete ${template.name}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {editingId ? (
+              <div className="space-y-4 rounded-md border p-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="grid gap-2">
+                    <Label htmlFor="template-name">Name</Label>
+                    <Input
+                      id="template-name"
+                      placeholder="Board meeting"
+                      value={draft.name}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    />
+                  </div>
+                  <div className="grid gap-2">
+                    <Label htmlFor="template-description">Description</Label>
+                    <Input
+                      id="template-description"
+                      placeholder="Resolutions and follow-ups for the board"
+                      value={draft.description}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="template-instructions">Instructions</Label>
+                  <Textarea
+                    id="template-instructions"
+                    placeholder="Extract every resolution as a decision, and follow-ups the board asks management for as action items."
+                    value={draft.instructions}
+                    onChange={(e) => setDraft({ ...draft, instructions: e.target.value })}
+                    rows={4}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="template-priority">Priority rules</Label>
+                  <Textarea
+                    id="template-priority"
+                    placeholder="Anything requested by the chair is High."
+                    value={draft.priorityRules}
+                    onChange={(e) => setDraft({ ...draft, priorityRules: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+                <div className="grid gap-2">
+                  <Label htmlFor="template-fields">Extra fields</Label>
+                  <Textarea
+                    id="template-fields"
+                    placeholder={'Board member: who on the board asked for it\nDue by meeting: the board meeting it is due for'}
+                    value={draft.extraFields}
+                    onChange={(e) => setDraft({ ...draft, extraFields: e.target.value })}
+                    rows={3}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    One per line as "Label: what to fill in". They appear with each action item.
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Save Template
+                  </Button>
+                  <Button variant="outline" onClick={() => setEditingId(null)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <Button variant="outline" onClick={() => startEditing(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                New Template
+              </Button>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
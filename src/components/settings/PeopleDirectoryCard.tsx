@@ -0,0 +1,206 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { parseAliasList, type Person } from '@/lib/people';
+import { Loader2, Pencil, Trash2, Users } from 'lucide-react';
+
+interface PeopleDirectoryCardProps {
+  userId: string;
+}
+
+const emptyDraft = { name: '', email: '', aliases: '', team: '' };
+
+export function PeopleDirectoryCard({ userId }: PeopleDirectoryCardProps) {
+  const { toast } = useToast();
+  const [people, setPeople] = useState<Person[]>([]);
+  const [draft, setDraft] = useState(emptyDraft);
+  // The person being edited; null while adding someone new
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    supabase
+      .from('people')
+      .select('*')
+      .eq('user_id', userId)
+      .order('name')
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading people:', error);
+        setPeople(data ?? []);
+        setIsLoading(false);
+      });
+  }, [userId]);
+
+  const startEditing = (person: Person) => {
+    setEditingId(person.id);
+    setDraft({
+      name: person.name,
+      email: person.email ?? '',
+      aliases: person.aliases.join(', '),
+      team: person.team ?? '',
+    });
+  };
+
+  const resetForm = () => {
+    setEditingId(null);
+    setDraft(emptyDraft);
+  };
+
+  const handleSave = async () => {
+    const values = {
+      name: draft.name.trim(),
+      email: draft.email.trim() || null,
+      aliases: parseAliasList(draft.aliases),
+      team: draft.team.trim() || null,
+    };
+
+    setIsSaving(true);
+    try {
+      const { data, error } = editingId
+        ? await supabase.from('people').update(values).eq('id', editingId).select().single()
+        : await supabase.from('people').insert({ ...values, user_id: userId }).select().single();
+      if (error) throw error;
+
+      setPeople((prev) =>
+        [...prev.filter((person) => person.id !== data.id), data].sort((a, b) => a.name.localeCompare(b.name))
+      );
+      resetForm();
+    } catch (error) {
+      console.error('Error saving person:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to save this person.',
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (person: Person) => {
+    const { error } = await supabase.from('people').delete().eq('id', person.id);
+    if (error) {
+      console.error('Error deleting person:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: `Failed to remove ${person.name}.`,
+      });
+      return;
+    }
+
+    setPeople((prev) => prev.filter((existing) => existing.id !== person.id));
+    if (editingId === person.id) resetForm();
+  };
+
+  return (
+    <Card className="mt-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Users className="h-5 w-5 text-primary" />
+          People
+        </CardTitle>
+        <CardDescription>
+          Extracted owners are matched against these people, including by nickname or initials, and
+          get their email filled in. Owners that could be more than one person are flagged for you.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {people.length > 0 ? (
+              <ul className="divide-y rounded-md border">
+                {people.map((person) => (
+                  <li key={person.id} className="flex items-center justify-between gap-4 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="flex items-center gap-2 font-medium">
+                        {person.name}
+                        {person.team && <Badge variant="secondary">{person.team}</Badge>}
+                      </p>
+                      {person.email && <p className="text-xs text-muted-foreground">{person.email}</p>}
+                      {person.aliases.length > 0 && (
+                        <p className="text-xs text-muted-foreground">Also: {person.aliases.join(', ')}</p>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Button variant="ghost" size="icon" onClick={() => startEditing(person)} aria-label={`Edit ${person.name}`}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(person)} aria-label={`Remove ${person.name}`}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-sm text-muted-foreground">No people yet.</p>
+            )}
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="grid gap-2">
+                <Label htmlFor="person-name">Name</Label>
+                <Input
+                  id="person-name"
+                  placeholder="John Doe"
+                  value={draft.name}
+                  onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="person-email">Email</Label>
+                <Input
+                  id="person-email"
+                  type="email"
+                  placeholder="john@company.com"
+                  value={draft.email}
+                  onChange={(e) => setDraft({ ...draft, email: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="person-aliases">Aliases</Label>
+                <Input
+                  id="person-aliases"
+                  placeholder="JD, Johnny"
+                  value={draft.aliases}
+                  onChange={(e) => setDraft({ ...draft, aliases: e.target.value })}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="person-team">Team</Label>
+                <Input
+                  id="person-team"
+                  placeholder="Infra"
+                  value={draft.team}
+                  onChange={(e) => setDraft({ ...draft, team: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={handleSave} disabled={isSaving || !draft.name.trim()}>
+                {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                {editingId ? 'Save Person' : 'Add Person'}
+              </Button>
+              {editingId && (
+                <Button variant="outline" onClick={resetForm} disabled={isSaving}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,6 +6,8 @@ import { cn } from '@/lib/utils';
 
 interface FileDropzoneProps {
   onFileSelect: (file: File) => void;
+  /** When set, dropping several files at once hands them all to this callback. */
+  onFilesSelect?: (files: File[]) => void;
   isProcessing?: boolean;
   acceptedFileTypes?: string[];
 }
@@ -14,27 +16,33 @@ const ACCEPTED_FILES = {
   'text/plain': ['.txt'],
   'application/msword': ['.doc'],
   'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
+  'text/vtt': ['.vtt'],
+  'application/x-subrip': ['.srt'],
   'audio/mpeg': ['.mp3'],
   'audio/wav': ['.wav'],
   'audio/x-m4a': ['.m4a'],
   'audio/mp4': ['.m4a'],
 };
 
-export function FileDropzone({ onFileSelect, isProcessing = false }: FileDropzoneProps) {
+export function FileDropzone({ onFileSelect, onFilesSelect, isProcessing = false }: FileDropzoneProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const allowMultiple = Boolean(onFilesSelect);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
-    if (acceptedFiles.length > 0) {
+    if (acceptedFiles.length > 1 && onFilesSelect) {
+      setSelectedFile(null);
+      onFilesSelect(acceptedFiles);
+    } else if (acceptedFiles.length > 0) {
       const file = acceptedFiles[0];
       setSelectedFile(file);
       onFileSelect(file);
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, onFilesSelect]);
 
   const { getRootProps, getInputProps, isDragActive, fileRejections } = useDropzone({
     onDrop,
     accept: ACCEPTED_FILES,
-    maxFiles: 1,
+    maxFiles: allowMultiple ? 0 : 1,
     maxSize: 104857600, // 100MB
     disabled: isProcessing,
   });
@@ -75,7 +83,9 @@ export function FileDropzone({ onFileSelect, isProcessing = false }: FileDropzon
           <>
             <Upload className="mb-4 h-12 w-12 text-muted-foreground" />
             <p className="mb-2 font-medium">
-              {isDragActive ? 'Drop your file here' : 'Drag & drop your file here'}
+              {isDragActive
+                ? `Drop your ${allowMultiple ? 'files' : 'file'} here`
+                : `Drag & drop your ${allowMultiple ? 'files' : 'file'} here`}
             </p>
             <p className="mb-4 text-sm text-muted-foreground">
               or click to browse
@@ -84,11 +94,15 @@ export function FileDropzone({ onFileSelect, isProcessing = false }: FileDropzon
               <span className="rounded bg-muted px-2 py-1">.txt</span>
               <span className="rounded bg-muted px-2 py-1">.doc</span>
               <span className="rounded bg-muted px-2 py-1">.docx</span>
+              <span className="rounded bg-muted px-2 py-1">.vtt</span>
+              <span className="rounded bg-muted px-2 py-1">.srt</span>
               <span className="rounded bg-muted px-2 py-1">.mp3</span>
               <span className="rounded bg-muted px-2 py-1">.wav</span>
               <span className="rounded bg-muted px-2 py-1">.m4a</span>
             </div>
-            <p className="mt-2 text-xs text-muted-foreground">Max file size: 100MB</p>
+            <p className="mt-2 text-xs text-muted-foreground">
+              Max file size: 100MB{allowMultiple && ' • Drop several files to queue them'}
+            </p>
           </>
         )}
       </div>
@@ -117,7 +131,7 @@ export function FileDropzone({ onFileSelect, isProcessing = false }: FileDropzon
         <p className="text-sm text-destructive">
           {fileRejections[0].errors[0].code === 'file-too-large'
             ? 'File is too large. Maximum size is 100MB.'
-            : 'Invalid file type. Please upload a text or audio file.'}
+            : 'Invalid file type. Please upload a transcript, caption or audio file.'}
         </p>
       )}
     </div>
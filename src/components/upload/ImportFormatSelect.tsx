@@ -0,0 +1,43 @@
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { getImporters, type TranscriptImporter } from '@/lib/transcript/importers';
+
+export const AUTO_DETECT_FORMAT = 'auto';
+
+interface ImportFormatSelectProps {
+  detectedImporter: TranscriptImporter;
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function ImportFormatSelect({ detectedImporter, value, onChange, disabled }: ImportFormatSelectProps) {
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor="transcript-format">Transcript format</Label>
+        <Badge variant="secondary">Detected: {detectedImporter.label}</Badge>
+      </div>
+      <Select value={value} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger id="transcript-format">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={AUTO_DETECT_FORMAT}>Auto-detect ({detectedImporter.label})</SelectItem>
+          {getImporters().map((importer) => (
+            <SelectItem key={importer.id} value={importer.id}>
+              {importer.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
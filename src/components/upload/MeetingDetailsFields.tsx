@@ -0,0 +1,104 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import type { Attendee } from '@/lib/meetingMetadata';
+import { Plus, X } from 'lucide-react';
+
+interface MeetingDetailsFieldsProps {
+  /** Meeting start as a datetime-local input value. */
+  meetingDate: string;
+  durationMinutes: number | null;
+  attendees: Attendee[];
+  onMeetingDateChange: (value: string) => void;
+  onDurationChange: (value: number | null) => void;
+  onAttendeesChange: (attendees: Attendee[]) => void;
+  disabled?: boolean;
+}
+
+export function MeetingDetailsFields({
+  meetingDate,
+  durationMinutes,
+  attendees,
+  onMeetingDateChange,
+  onDurationChange,
+  onAttendeesChange,
+  disabled,
+}: MeetingDetailsFieldsProps) {
+  const updateAttendee = (index: number, updates: Partial<Attendee>) => {
+    onAttendeesChange(attendees.map((attendee, i) => (i === index ? { ...attendee, ...updates } : attendee)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 sm:grid-cols-[1fr_auto]">
+        <div className="space-y-2">
+          <Label htmlFor="meeting-date">Meeting Start</Label>
+          <Input
+            id="meeting-date"
+            type="datetime-local"
+            value={meetingDate}
+            onChange={(e) => onMeetingDateChange(e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="meeting-duration">Duration (minutes)</Label>
+          <Input
+            id="meeting-duration"
+            type="number"
+            min={1}
+            placeholder="30"
+            value={durationMinutes ?? ''}
+            onChange={(e) => onDurationChange(e.target.value ? Number(e.target.value) : null)}
+            disabled={disabled}
+            className="sm:w-40"
+          />
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Attendees</Label>
+        {attendees.map((attendee, index) => (
+          <div key={index} className="flex gap-2">
+            <Input
+              placeholder="Name"
+              value={attendee.name}
+              onChange={(e) => updateAttendee(index, { name: e.target.value })}
+              disabled={disabled}
+              aria-label="Attendee name"
+            />
+            <Input
+              type="email"
+              placeholder="Email (optional)"
+              value={attendee.email ?? ''}
+              onChange={(e) => updateAttendee(index, { email: e.target.value || null })}
+              disabled={disabled}
+              aria-label="Attendee email"
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => onAttendeesChange(attendees.filter((_, i) => i !== index))}
+              disabled={disabled}
+              aria-label="Remove attendee"
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onAttendeesChange([...attendees, { name: '', email: null }])}
+          disabled={disabled}
+        >
+          <Plus className="mr-2 h-4 w-4" />
+          Add Attendee
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          Attendees are suggested as owners when action items are extracted
+        </p>
+      </div>
+    </div>
+  );
+}
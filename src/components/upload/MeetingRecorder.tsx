@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { useMediaRecorder } from '@/hooks/useMediaRecorder';
+import {
+  deleteRecording,
+  listRecordings,
+  loadRecordingFile,
+  type StoredRecording,
+} from '@/lib/recordingStore';
+import { formatTimestamp } from '@/lib/transcript/time';
+import { Mic, Pause, Play, Square, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+
+interface MeetingRecorderProps {
+  onRecordingComplete: (file: File, recordingId: string) => void;
+  disabled?: boolean;
+}
+
+export function MeetingRecorder({ onRecordingComplete, disabled }: MeetingRecorderProps) {
+  const { toast } = useToast();
+  const { state, elapsedSeconds, level, start, pause, resume, stop } = useMediaRecorder();
+  const [recoverable, setRecoverable] = useState<StoredRecording | null>(null);
+
+  // Offer recordings left behind by a closed or crashed tab.
+  useEffect(() => {
+    if (typeof indexedDB === 'undefined') return;
+    listRecordings()
+      .then((recordings) => setRecoverable(recordings[0] ?? null))
+      .catch((error) => console.error('Error listing saved recordings:', error));
+  }, []);
+
+  const handleStart = async () => {
+    try {
+      await start();
+    } catch (error) {
+      console.error('Recording error:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not start recording',
+        description: error instanceof Error ? error.message : 'Microphone access was denied.',
+      });
+    }
+  };
+
+  const handleStop = async () => {
+    const result = await stop();
+    if (result) {
+      onRecordingComplete(result.file, result.recording.id);
+    }
+  };
+
+  const handleRecover = async () => {
+    if (!recoverable) return;
+    const file = await loadRecordingFile(recoverable);
+    onRecordingComplete(file, recoverable.id);
+    setRecoverable(null);
+  };
+
+  const handleDiscard = async () => {
+    if (!recoverable) return;
+    await deleteRecording(recoverable.id);
+    setRecoverable(null);
+  };
+
+  const isActive = state === 'recording' || state === 'paused';
+
+  return (
+    <div className="space-y-3 rounded-lg border p-4">
+      {recoverable && !isActive && (
+        <div className="flex flex-wrap items-center gap-2 rounded-lg border border-warning/50 bg-warning/10 p-3 text-sm">
+          <span className="flex-1">
+            Unsaved recording from {format(new Date(recoverable.startedAt), 'MMM d, h:mm a')} (
+            {formatTimestamp(recoverable.durationSeconds)})
+          </span>
+          <Button size="sm" variant="outline" onClick={handleRecover} disabled={disabled}>
+            <RotateCcw className="mr-2 h-4 w-4" />
+            Recover
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleDiscard} disabled={disabled}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Discard
+          </Button>
+        </div>
+      )}
+
+      <div className="flex items-center gap-3">
+        <div className="flex-1">
+          <p className="font-medium">Record a meeting</p>
+          <p className="text-sm text-muted-foreground">
+            {state === 'recording' && 'Recording from your microphone…'}
+            {state === 'paused' && 'Paused'}
+            {state === 'stopping' && 'Saving recording…'}
+            {state === 'idle' && 'Capture audio directly in the browser'}
+          </p>
+        </div>
+        <span className="font-mono text-sm tabular-nums">{formatTimestamp(elapsedSeconds)}</span>
+      </div>
+
+      {isActive && <Progress value={level * 100} className="h-2" aria-label="Input level" />}
+
+      <div className="flex gap-2">
+        {state === 'idle' && (
+          <Button onClick={handleStart} disabled={disabled} variant="outline" className="flex-1">
+            <Mic className="mr-2 h-4 w-4" />
+            Start Recording
+          </Button>
+        )}
+        {state === 'recording' && (
+          <Button onClick={pause} variant="outline" className="flex-1">
+            <Pause className="mr-2 h-4 w-4" />
+            Pause
+          </Button>
+        )}
+        {state === 'paused' && (
+          <Button onClick={resume} variant="outline" className="flex-1">
+            <Play className="mr-2 h-4 w-4" />
+            Resume
+          </Button>
+        )}
+        {isActive && (
+          <Button onClick={handleStop} variant="destructive" className="flex-1">
+            <Square className="mr-2 h-4 w-4" />
+            Stop
+          </Button>
+        )}
+        {state === 'stopping' && (
+          <Button disabled variant="outline" className="flex-1">
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            Saving…
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
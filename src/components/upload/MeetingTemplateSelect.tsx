@@ -0,0 +1,39 @@
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { TemplateOption } from '@/lib/meetingTemplates';
+
+interface MeetingTemplateSelectProps {
+  templates: TemplateOption[];
+  value: string;
+  onChange: (value: string) => void;
+  disabled?: boolean;
+}
+
+export function MeetingTemplateSelect({ templates, value, onChange, disabled }: MeetingTemplateSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="meeting-template">Meeting type</Label>
+      <Select value={value} onValueChange={onChange} disabled={disabled}>
+        <SelectTrigger id="meeting-template">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {templates.map((template) => (
+            <SelectItem key={template.id} value={template.id}>
+              {template.name}
+              {template.description && (
+                <span className="ml-2 text-muted-foreground">— {template.description}</span>
+              )}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
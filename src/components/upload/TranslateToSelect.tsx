@@ -0,0 +1,45 @@
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { LANGUAGES } from '@/lib/languages';
+
+// Select items can't have an empty value, so "no translation" gets its own
+const KEEP_LANGUAGE = 'original';
+
+interface TranslateToSelectProps {
+  id: string;
+  label: string;
+  value: string | null;
+  onChange: (value: string | null) => void;
+  disabled?: boolean;
+}
+
+export function TranslateToSelect({ id, label, value, onChange, disabled }: TranslateToSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select
+        value={value ?? KEEP_LANGUAGE}
+        onValueChange={(next) => onChange(next === KEEP_LANGUAGE ? null : next)}
+        disabled={disabled}
+      >
+        <SelectTrigger id={id}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={KEEP_LANGUAGE}>The meeting's language</SelectItem>
+          {LANGUAGES.map((language) => (
+            <SelectItem key={language.code} value={language.code}>
+              {language.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
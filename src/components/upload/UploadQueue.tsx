@@ -0,0 +1,142 @@
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { isActiveStatus, type QueueItem, type QueueItemStatus } from '@/hooks/useUploadQueue';
+import { AudioLines, FileText, Loader2, RotateCcw, X, ExternalLink, Zap } from 'lucide-react';
+
+interface UploadQueueProps {
+  items: QueueItem[];
+  onUpdateItem: (id: string, updates: Partial<QueueItem>) => void;
+  onRemoveItem: (id: string) => void;
+  onRetry: (id: string) => void;
+  onStart: () => void;
+}
+
+const STATUS_LABELS: Record<QueueItemStatus, string> = {
+  pending: 'Ready',
+  queued: 'Queued',
+  uploading: 'Uploading',
+  transcribing: 'Transcribing',
+  extracting: 'Extracting',
+  summarizing: 'Summarizing',
+  done: 'Done',
+  failed: 'Failed',
+};
+
+const getStatusColor = (status: QueueItemStatus) => {
+  switch (status) {
+    case 'done':
+      return 'bg-success/10 text-success border-success/30';
+    case 'failed':
+      return 'bg-destructive/10 text-destructive border-destructive/30';
+    case 'uploading':
+    case 'transcribing':
+    case 'extracting':
+    case 'summarizing':
+      return 'bg-primary/10 text-primary border-primary/30';
+    default:
+      return 'bg-muted text-muted-foreground';
+  }
+};
+
+export function UploadQueue({ items, onUpdateItem, onRemoveItem, onRetry, onStart }: UploadQueueProps) {
+  const pendingCount = items.filter((item) => item.status === 'pending').length;
+  const doneCount = items.filter((item) => item.status === 'done').length;
+  const failedCount = items.filter((item) => item.status === 'failed').length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Upload Queue</CardTitle>
+        <CardDescription>
+          {doneCount} of {items.length} meetings processed
+          {failedCount > 0 && ` • ${failedCount} failed`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {items.map((item) => {
+          // A saved meeting keeps its title and date; retrying it resumes its processing
+          const isEditable = item.status === 'pending' || (item.status === 'failed' && !item.meetingId);
+          const canRetry = item.status === 'failed' || (item.status === 'done' && Boolean(item.error && item.jobId));
+          const isAudio = item.file.type.startsWith('audio/');
+
+          return (
+            <div key={item.id} className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center gap-3">
+                {isAudio ? (
+                  <AudioLines className="h-6 w-6 shrink-0 text-primary" />
+                ) : (
+                  <FileText className="h-6 w-6 shrink-0 text-primary" />
+                )}
+                <p className="min-w-0 flex-1 truncate text-sm text-muted-foreground">{item.file.name}</p>
+                <Badge variant="outline" className={cn('gap-1', getStatusColor(item.status))}>
+                  {isActiveStatus(item.status) && <Loader2 className="h-3 w-3 animate-spin" />}
+                  {STATUS_LABELS[item.status]}
+                  {item.status === 'transcribing' && item.progress && ` ${item.progress.done}/${item.progress.total}`}
+                </Badge>
+                {canRetry && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => onRetry(item.id)}
+                    aria-label={item.jobId ? 'Resume' : 'Retry'}
+                  >
+                    <RotateCcw className="h-4 w-4" />
+                  </Button>
+                )}
+                {item.status === 'done' && item.meetingId && (
+                  <Button variant="ghost" size="icon" asChild>
+                    <Link to={`/meeting/${item.meetingId}`} aria-label="View meeting">
+                      <ExternalLink className="h-4 w-4" />
+                    </Link>
+                  </Button>
+                )}
+                {(isEditable || item.status === 'done') && (
+                  <Button variant="ghost" size="icon" onClick={() => onRemoveItem(item.id)} aria-label="Remove">
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+
+              <div className="grid gap-2 sm:grid-cols-[1fr_auto]">
+                <Input
+                  value={item.title}
+                  placeholder="Meeting title"
+                  onChange={(e) => onUpdateItem(item.id, { title: e.target.value })}
+                  disabled={!isEditable}
+                  aria-label="Meeting title"
+                />
+                <Input
+                  type="datetime-local"
+                  value={item.meetingDate}
+                  onChange={(e) => onUpdateItem(item.id, { meetingDate: e.target.value })}
+                  disabled={!isEditable}
+                  aria-label="Meeting date"
+                />
+              </div>
+
+              {item.status === 'failed' && item.error && (
+                <p className="text-sm text-destructive">{item.error}</p>
+              )}
+              {item.status === 'done' && (item.error ? (
+                <p className="text-sm text-destructive">{item.error} Resume it here or from the meeting page.</p>
+              ) : (
+                <p className="text-sm text-muted-foreground">
+                  Extracted {item.actionItemCount ?? 0} action items
+                </p>
+              ))}
+            </div>
+          );
+        })}
+
+        <Button onClick={onStart} disabled={pendingCount === 0} className="w-full" size="lg">
+          <Zap className="mr-2 h-4 w-4" />
+          Process {pendingCount} meeting{pendingCount === 1 ? '' : 's'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,147 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { appendChunk, createRecording, loadRecordingFile, type StoredRecording } from '@/lib/recordingStore';
+
+export type RecorderState = 'idle' | 'recording' | 'paused' | 'stopping';
+
+// Each chunk is written to IndexedDB as it arrives, so at most this much audio is lost on a crash.
+const CHUNK_INTERVAL_MS = 5000;
+// Speech-quality Opus keeps an hour-long meeting well under the transcription size limit.
+const AUDIO_BITS_PER_SECOND = 32000;
+const PREFERRED_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4'];
+
+const pickMimeType = () =>
+  PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+
+/**
+ * Records the microphone with pause/resume, exposing elapsed time and an input level
+ * between 0 and 1. Chunks are persisted locally while recording; `stop` resolves with the
+ * stored recording and the assembled audio file.
+ */
+export function useMediaRecorder() {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsedSeconds, setElapsedSeconds] = useState(0);
+  const [level, setLevel] = useState(0);
+
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const recordingRef = useRef<StoredRecording | null>(null);
+  const chunkIndexRef = useRef(0);
+  const pendingWritesRef = useRef<Promise<void>[]>([]);
+  const elapsedRef = useRef(0);
+  const frameRef = useRef<number | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  const releaseResources = useCallback(() => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    if (timerRef.current !== null) window.clearInterval(timerRef.current);
+    frameRef.current = null;
+    timerRef.current = null;
+    streamRef.current?.getTracks().forEach((track) => track.stop());
+    streamRef.current = null;
+    void audioContextRef.current?.close();
+    audioContextRef.current = null;
+    setLevel(0);
+  }, []);
+
+  useEffect(() => releaseResources, [releaseResources]);
+
+  const startTimer = () => {
+    timerRef.current = window.setInterval(() => {
+      elapsedRef.current += 1;
+      setElapsedSeconds(elapsedRef.current);
+    }, 1000);
+  };
+
+  const stopTimer = () => {
+    if (timerRef.current !== null) window.clearInterval(timerRef.current);
+    timerRef.current = null;
+  };
+
+  const start = useCallback(async () => {
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    const mimeType = pickMimeType();
+    const recorder = new MediaRecorder(stream, {
+      ...(mimeType ? { mimeType } : {}),
+      audioBitsPerSecond: AUDIO_BITS_PER_SECOND,
+    });
+
+    const recording: StoredRecording = {
+      id: crypto.randomUUID(),
+      startedAt: new Date().toISOString(),
+      mimeType: recorder.mimeType || mimeType || 'audio/webm',
+      durationSeconds: 0,
+    };
+    await createRecording(recording);
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size === 0) return;
+      const write = appendChunk(recording.id, chunkIndexRef.current++, event.data, elapsedRef.current);
+      pendingWritesRef.current.push(write);
+    };
+
+    // Drive the level meter from the RMS of the microphone signal.
+    const audioContext = new AudioContext();
+    const analyser = audioContext.createAnalyser();
+    analyser.fftSize = 1024;
+    audioContext.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    const updateLevel = () => {
+      analyser.getFloatTimeDomainData(samples);
+      const rms = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      setLevel(Math.min(1, rms * 4));
+      frameRef.current = requestAnimationFrame(updateLevel);
+    };
+    updateLevel();
+
+    streamRef.current = stream;
+    audioContextRef.current = audioContext;
+    recorderRef.current = recorder;
+    recordingRef.current = recording;
+    chunkIndexRef.current = 0;
+    pendingWritesRef.current = [];
+    elapsedRef.current = 0;
+    setElapsedSeconds(0);
+
+    recorder.start(CHUNK_INTERVAL_MS);
+    startTimer();
+    setState('recording');
+  }, []);
+
+  const pause = useCallback(() => {
+    recorderRef.current?.pause();
+    stopTimer();
+    setState('paused');
+  }, []);
+
+  const resume = useCallback(() => {
+    recorderRef.current?.resume();
+    startTimer();
+    setState('recording');
+  }, []);
+
+  const stop = useCallback(async () => {
+    const recorder = recorderRef.current;
+    const recording = recordingRef.current;
+    if (!recorder || !recording) return null;
+
+    setState('stopping');
+    stopTimer();
+    const stopped = new Promise<void>((resolve) => {
+      recorder.onstop = () => resolve();
+    });
+    recorder.stop();
+    await stopped;
+    await Promise.all(pendingWritesRef.current);
+    releaseResources();
+
+    recorderRef.current = null;
+    recordingRef.current = null;
+    setState('idle');
+
+    const stored = { ...recording, durationSeconds: elapsedRef.current };
+    return { recording: stored, file: await loadRecordingFile(stored) };
+  }, [releaseResources]);
+
+  return { state, elapsedSeconds, level, start, pause, resume, stop };
+}
@@ -0,0 +1,166 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  processMeeting,
+  resumeProcessing,
+  isAudioFile,
+  type MeetingInput,
+  type ProcessingStage,
+  type StageProgress,
+} from '@/lib/meetingPipeline';
+import {
+  fromDateTimeLocal,
+  readMeetingMetadata,
+  toDateTimeLocal,
+  type Attendee,
+} from '@/lib/meetingMetadata';
+import { readTranscriptFile } from '@/lib/transcript/files';
+
+/** The Upload page's extraction settings, applied to each meeting when the queue is started. */
+export type QueueSettings = Pick<MeetingInput, 'extractor' | 'template' | 'translateTo' | 'importFormat'>;
+
+export type QueueItemStatus = 'pending' | 'queued' | ProcessingStage | 'done' | 'failed';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  title: string;
+  /** Meeting start as a datetime-local input value. */
+  meetingDate: string;
+  durationMinutes: number | null;
+  attendees: Attendee[];
+  settings: QueueSettings;
+  status: QueueItemStatus;
+  /** Segment progress while a long recording is transcribed in parts. */
+  progress: StageProgress | null;
+  error: string | null;
+  meetingId: string | null;
+  /** Set once the meeting is saved; a retry resumes this job instead of saving the meeting again. */
+  jobId: string | null;
+  actionItemCount: number | null;
+}
+
+const MAX_CONCURRENT_MEETINGS = 3;
+const ACTIVE_STATUSES: QueueItemStatus[] = ['uploading', 'transcribing', 'extracting', 'summarizing'];
+
+export const isActiveStatus = (status: QueueItemStatus) => ACTIVE_STATUSES.includes(status);
+
+/**
+ * Holds a list of meeting files and processes the queued ones through the meeting pipeline,
+ * at most `concurrency` at a time.
+ */
+export function useUploadQueue(userId: string | undefined, concurrency = MAX_CONCURRENT_MEETINGS) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const startedIds = useRef(new Set<string>());
+
+  const updateItem = useCallback((id: string, updates: Partial<QueueItem>) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...updates } : item)));
+  }, []);
+
+  const addFiles = useCallback((files: File[]) => {
+    const newItems = files.map((file) => ({
+      id: crypto.randomUUID(),
+      file,
+      title: file.name.replace(/\.[^/.]+$/, ''),
+      meetingDate: toDateTimeLocal(new Date(file.lastModified)),
+      durationMinutes: null,
+      attendees: [],
+      settings: {},
+      status: 'pending' as const,
+      progress: null,
+      error: null,
+      meetingId: null,
+      jobId: null,
+      actionItemCount: null,
+    }));
+    setItems((prev) => [...prev, ...newItems]);
+
+    // Fill in the meeting start, duration and attendees once each file has been inspected
+    newItems.forEach((item) => {
+      const content = isAudioFile(item.file) ? Promise.resolve(null) : readTranscriptFile(item.file);
+      content
+        .then((text) => readMeetingMetadata(item.file, text))
+        .then((metadata) => {
+          setItems((prev) =>
+            prev.map((existing) =>
+              existing.id === item.id && existing.status === 'pending'
+                ? {
+                    ...existing,
+                    meetingDate: metadata.startedAt ? toDateTimeLocal(metadata.startedAt) : existing.meetingDate,
+                    durationMinutes: metadata.durationMinutes,
+                    attendees: metadata.attendees,
+                  }
+                : existing
+            )
+          );
+        })
+        .catch((error) => console.error('Error reading meeting metadata:', error));
+    });
+  }, []);
+
+  const removeItem = useCallback((id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  }, []);
+
+  const startAll = useCallback((settings: QueueSettings) => {
+    setItems((prev) =>
+      prev.map((item) => (item.status === 'pending' ? { ...item, settings, status: 'queued' } : item))
+    );
+  }, []);
+
+  /** Runs a failed item again, or resumes the processing of one whose meeting was saved. */
+  const retry = useCallback((id: string) => {
+    startedIds.current.delete(id);
+    updateItem(id, { status: 'queued', error: null });
+  }, [updateItem]);
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const activeCount = items.filter((item) => isActiveStatus(item.status)).length;
+    const nextItems = items
+      .filter((item) => item.status === 'queued' && !startedIds.current.has(item.id))
+      .slice(0, Math.max(0, concurrency - activeCount));
+
+    nextItems.forEach((item) => {
+      startedIds.current.add(item.id);
+      updateItem(item.id, { status: isAudioFile(item.file) && !item.jobId ? 'uploading' : 'extracting' });
+
+      const onStage = (stage: ProcessingStage, progress?: StageProgress) =>
+        updateItem(item.id, { status: stage, progress: progress ?? null });
+      const run = item.meetingId && item.jobId
+        ? resumeProcessing(item.meetingId, item.jobId, onStage)
+        : processMeeting(
+            {
+              userId,
+              title: item.title,
+              meetingDate: fromDateTimeLocal(item.meetingDate),
+              durationMinutes: item.durationMinutes,
+              attendees: item.attendees,
+              file: item.file,
+              ...item.settings,
+            },
+            onStage
+          );
+
+      run
+        .then((result) => {
+          updateItem(item.id, {
+            status: 'done',
+            meetingId: result.meetingId,
+            jobId: result.jobId,
+            actionItemCount: result.actionItemCount,
+            error: result.processingError,
+          });
+        })
+        .catch((error) => {
+          console.error('Queue processing error:', error);
+          updateItem(item.id, {
+            status: 'failed',
+            error: error instanceof Error ? error.message : 'An error occurred while processing.',
+          });
+        });
+    });
+  }, [items, userId, concurrency, updateItem]);
+
+  return { items, addFiles, updateItem, removeItem, startAll, retry };
+}
@@ -20,13 +20,24 @@ export type Database = {
           confidence: number | null
           created_at: string
           deadline: string | null
+          deadline_phrase: string | null
+          edited_fields: string[]
+          extra: Json
           id: string
           jira_issue_key: string | null
           meeting_id: string
           notes: string | null
+          original_action_item: string | null
+          original_notes: string | null
           owner: string | null
+          owner_candidates: Json
           owner_email: string | null
           priority: Database["public"]["Enums"]["action_priority"] | null
+          source_chunks: number[]
+          source_end: number | null
+          source_quote: string | null
+          source_start: number | null
+          source_timestamp: number | null
           status: Database["public"]["Enums"]["action_status"] | null
           updated_at: string
           user_id: string
@@ -36,13 +47,24 @@ export type Database = {
           confidence?: number | null
           created_at?: string
           deadline?: string | null
+          deadline_phrase?: string | null
+          edited_fields?: string[]
+          extra?: Json
           id?: string
           jira_issue_key?: string | null
           meeting_id: string
           notes?: string | null
+          original_action_item?: string | null
+          original_notes?: string | null
           owner?: string | null
+          owner_candidates?: Json
           owner_email?: string | null
           priority?: Database["public"]["Enums"]["action_priority"] | null
+          source_chunks?: number[]
+          source_end?: number | null
+          source_quote?: string | null
+          source_start?: number | null
+          source_timestamp?: number | null
           status?: Database["public"]["Enums"]["action_status"] | null
           updated_at?: string
           user_id: string
@@ -52,13 +74,24 @@ export type Database = {
           confidence?: number | null
           created_at?: string
           deadline?: string | null
+          deadline_phrase?: string | null
+          edited_fields?: string[]
+          extra?: Json
           id?: string
           jira_issue_key?: string | null
           meeting_id?: string
           notes?: string | null
+          original_action_item?: string | null
+          original_notes?: string | null
           owner?: string | null
+          owner_candidates?: Json
           owner_email?: string | null
           priority?: Database["public"]["Enums"]["action_priority"] | null
+          source_chunks?: number[]
+          source_end?: number | null
+          source_quote?: string | null
+          source_start?: number | null
+          source_timestamp?: number | null
           status?: Database["public"]["Enums"]["action_status"] | null
           updated_at?: string
           user_id?: string
@@ -124,6 +157,117 @@ export type Database = {
           },
         ]
       }
+      extraction_feedback: {
+        Row: {
+          action_item_id: string | null
+          corrected: Json | null
+          created_at: string
+          excerpt: string
+          id: string
+          kind: string
+          meeting_id: string | null
+          original: Json
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          action_item_id?: string | null
+          corrected?: Json | null
+          created_at?: string
+          excerpt: string
+          id?: string
+          kind: string
+          meeting_id?: string | null
+          original: Json
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          action_item_id?: string | null
+          corrected?: Json | null
+          created_at?: string
+          excerpt?: string
+          id?: string
+          kind?: string
+          meeting_id?: string | null
+          original?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "extraction_feedback_action_item_id_fkey"
+            columns: ["action_item_id"]
+            isOneToOne: true
+            referencedRelation: "action_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extraction_feedback_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "extraction_feedback_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      idempotency_keys: {
+        Row: {
+          created_at: string
+          endpoint: string
+          expires_at: string
+          id: string
+          key: string
+          request_hash: string
+          response_body: Json | null
+          response_status: number | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          endpoint: string
+          expires_at?: string
+          id?: string
+          key: string
+          request_hash: string
+          response_body?: Json | null
+          response_status?: number | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          endpoint?: string
+          expires_at?: string
+          id?: string
+          key?: string
+          request_hash?: string
+          response_body?: Json | null
+          response_status?: number | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "idempotency_keys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       integrations: {
         Row: {
           access_token: string | null
@@ -168,37 +312,158 @@ export type Database = {
           },
         ]
       }
+      meeting_insights: {
+        Row: {
+          action_item_id: string | null
+          created_at: string
+          id: string
+          kind: string
+          meeting_id: string
+          owner: string | null
+          position: number
+          source_chunks: number[]
+          source_end: number | null
+          source_quote: string | null
+          source_start: number | null
+          source_timestamp: number | null
+          text: string
+          user_id: string
+        }
+        Insert: {
+          action_item_id?: string | null
+          created_at?: string
+          id?: string
+          kind: string
+          meeting_id: string
+          owner?: string | null
+          position?: number
+          source_chunks?: number[]
+          source_end?: number | null
+          source_quote?: string | null
+          source_start?: number | null
+          source_timestamp?: number | null
+          text: string
+          user_id: string
+        }
+        Update: {
+          action_item_id?: string | null
+          created_at?: string
+          id?: string
+          kind?: string
+          meeting_id?: string
+          owner?: string | null
+          position?: number
+          source_chunks?: number[]
+          source_end?: number | null
+          source_quote?: string | null
+          source_start?: number | null
+          source_timestamp?: number | null
+          text?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "meeting_insights_action_item_id_fkey"
+            columns: ["action_item_id"]
+            isOneToOne: false
+            referencedRelation: "action_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_insights_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "meeting_insights_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       meetings: {
         Row: {
+          attendees: Json
+          audio_path: string | null
           audio_url: string | null
           created_at: string
+          duration_minutes: number | null
+          extracted_with: string | null
+          extraction_error: string | null
+          extraction_status: string
+          extractor: string
           id: string
+          language: string | null
           meeting_date: string
           processed_at: string | null
+          speaker_map: Json
+          summary: string | null
+          summary_generated_at: string | null
+          summary_key_points: string[]
+          template: string
           title: string
           transcript: string | null
+          transcription_segments_done: number | null
+          transcription_segments_total: number | null
+          translate_to: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          attendees?: Json
+          audio_path?: string | null
           audio_url?: string | null
           created_at?: string
+          duration_minutes?: number | null
+          extracted_with?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
+          extractor?: string
           id?: string
+          language?: string | null
           meeting_date?: string
           processed_at?: string | null
+          speaker_map?: Json
+          summary?: string | null
+          summary_generated_at?: string | null
+          summary_key_points?: string[]
+          template?: string
           title: string
           transcript?: string | null
+          transcription_segments_done?: number | null
+          transcription_segments_total?: number | null
+          translate_to?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          attendees?: Json
+          audio_path?: string | null
           audio_url?: string | null
           created_at?: string
+          duration_minutes?: number | null
+          extracted_with?: string | null
+          extraction_error?: string | null
+          extraction_status?: string
+          extractor?: string
           id?: string
+          language?: string | null
           meeting_date?: string
           processed_at?: string | null
+          speaker_map?: Json
+          summary?: string | null
+          summary_generated_at?: string | null
+          summary_key_points?: string[]
+          template?: string
           title?: string
           transcript?: string | null
+          transcription_segments_done?: number | null
+          transcription_segments_total?: number | null
+          translate_to?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -212,6 +477,164 @@ export type Database = {
           },
         ]
       }
+      people: {
+        Row: {
+          aliases: string[]
+          created_at: string
+          email: string | null
+          id: string
+          name: string
+          team: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          aliases?: string[]
+          created_at?: string
+          email?: string | null
+          id?: string
+          name: string
+          team?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          aliases?: string[]
+          created_at?: string
+          email?: string | null
+          id?: string
+          name?: string
+          team?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "people_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_jobs: {
+        Row: {
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          meeting_id: string
+          started_at: string | null
+          status: string
+          time_zone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          meeting_id: string
+          started_at?: string | null
+          status?: string
+          time_zone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          meeting_id?: string
+          started_at?: string | null
+          status?: string
+          time_zone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_jobs_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "processing_jobs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      processing_steps: {
+        Row: {
+          attempts: number
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          job_id: string
+          position: number
+          result: Json
+          started_at: string | null
+          status: string
+          step: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          job_id: string
+          position: number
+          result?: Json
+          started_at?: string | null
+          status?: string
+          step: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          job_id?: string
+          position?: number
+          result?: Json
+          started_at?: string | null
+          status?: string
+          step?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "processing_steps_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "processing_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "processing_steps_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -277,12 +700,63 @@ export type Database = {
           },
         ]
       }
+      transcript_segments: {
+        Row: {
+          created_at: string
+          end_seconds: number | null
+          id: string
+          meeting_id: string
+          position: number
+          speaker: string | null
+          start_seconds: number | null
+          text: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          end_seconds?: number | null
+          id?: string
+          meeting_id: string
+          position: number
+          speaker?: string | null
+          start_seconds?: number | null
+          text: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          end_seconds?: number | null
+          id?: string
+          meeting_id?: string
+          position?: number
+          speaker?: string | null
+          start_seconds?: number | null
+          text?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "transcript_segments_meeting_id_fkey"
+            columns: ["meeting_id"]
+            isOneToOne: false
+            referencedRelation: "meetings"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "transcript_segments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      delete_expired_idempotency_keys: { Args: never; Returns: number }
     }
     Enums: {
       action_priority: "Low" | "Medium" | "High"
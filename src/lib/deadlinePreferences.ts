@@ -0,0 +1,69 @@
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * How deadline phrases are resolved for a user, kept under `deadlines` in their profile
+ * preferences. extract-actions reads the same shape.
+ */
+export interface DeadlinePreferences {
+  /** IANA timezone; null means the browser's. */
+  timeZone: string | null;
+  /** Non-working days besides weekends, YYYY-MM-DD. */
+  holidays: string[];
+  sprint: { start: string; lengthDays: number } | null;
+}
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const asRecord = (value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+export const readDeadlinePreferences = (preferences: Json | null): DeadlinePreferences => {
+  const { timeZone, holidays, sprint } = asRecord(asRecord(preferences).deadlines);
+  const { start, lengthDays } = asRecord(sprint);
+
+  return {
+    timeZone: typeof timeZone === 'string' && isValidTimeZone(timeZone) ? timeZone : null,
+    holidays: Array.isArray(holidays)
+      ? holidays.filter((date): date is string => typeof date === 'string' && ISO_DATE.test(date))
+      : [],
+    sprint:
+      typeof start === 'string' && ISO_DATE.test(start)
+        ? { start, lengthDays: typeof lengthDays === 'number' && lengthDays > 0 ? lengthDays : 14 }
+        : null,
+  };
+};
+
+/** Returns the preferences with the deadline settings replaced, leaving other keys alone. */
+export const withDeadlinePreferences = (preferences: Json | null, deadlines: DeadlinePreferences): Json => ({
+  ...asRecord(preferences),
+  deadlines: {
+    timeZone: deadlines.timeZone,
+    holidays: [...deadlines.holidays].sort(),
+    sprint: deadlines.sprint && { start: deadlines.sprint.start, lengthDays: deadlines.sprint.lengthDays },
+  },
+}) as Json;
+
+/** Splits a list of dates typed one per line (or comma separated) into valid and invalid entries. */
+export const parseHolidayList = (text: string) => {
+  const entries = text
+    .split(/[\n,]/)
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  const isDate = (entry: string) =>
+    ISO_DATE.test(entry) && !Number.isNaN(new Date(`${entry}T00:00:00Z`).getTime()) &&
+    new Date(`${entry}T00:00:00Z`).toISOString().startsWith(entry);
+
+  return {
+    holidays: [...new Set(entries.filter(isDate))],
+    invalid: entries.filter((entry) => !isDate(entry)),
+  };
+};
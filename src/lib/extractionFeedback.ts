@@ -0,0 +1,52 @@
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type ExtractionFeedback = Tables<'extraction_feedback'>;
+export type FeedbackKind = 'edit' | 'delete' | 'confirm';
+
+/** The parts of an action item a correction teaches; extract-actions shows them to the model. */
+export const FEEDBACK_FIELDS = ['action_item', 'owner', 'owner_email', 'deadline_phrase', 'priority'] as const;
+
+type FeedbackField = (typeof FEEDBACK_FIELDS)[number];
+export type FeedbackValues = Record<FeedbackField, string | null>;
+
+interface FeedbackSource extends Partial<Record<FeedbackField, string | null>> {
+  source_quote: string | null;
+  source_start: number | null;
+  source_end: number | null;
+}
+
+// Longest excerpt stored; the prompt only has room for a few lines per example
+const MAX_EXCERPT_LENGTH = 600;
+
+export const feedbackValues = (item: Partial<Record<FeedbackField, string | null>>): FeedbackValues =>
+  Object.fromEntries(FEEDBACK_FIELDS.map((field) => [field, item[field] ?? null])) as FeedbackValues;
+
+export const touchesFeedbackFields = (updates: object) =>
+  Object.keys(updates).some((field) => (FEEDBACK_FIELDS as readonly string[]).includes(field));
+
+/**
+ * The transcript lines an item was extracted from, speaker labels included, so an example shows
+ * who said what. Falls back to the quoted passage when the item has no offsets.
+ */
+export const feedbackExcerpt = (transcript: string | null, item: FeedbackSource) => {
+  if (transcript && item.source_start !== null && item.source_end !== null && item.source_end <= transcript.length) {
+    const start = transcript.lastIndexOf('\n', item.source_start - 1) + 1;
+    const lineEnd = transcript.indexOf('\n', item.source_end);
+    const excerpt = transcript.slice(start, lineEnd === -1 ? transcript.length : lineEnd).trim();
+    if (excerpt.length <= MAX_EXCERPT_LENGTH) return excerpt;
+  }
+  return item.source_quote?.trim().slice(0, MAX_EXCERPT_LENGTH) || null;
+};
+
+/** An item confirmed after being edited is still a correction, and a deletion outranks both. */
+export const nextFeedbackKind = (previous: string | null, next: FeedbackKind): FeedbackKind =>
+  next === 'confirm' && previous === 'edit' ? 'edit' : next;
+
+export const FEEDBACK_KIND_LABELS: Record<FeedbackKind, string> = {
+  edit: 'Corrected',
+  delete: 'Not an action item',
+  confirm: 'Confirmed',
+};
+
+export const readFeedbackValues = (value: Json | null): Partial<FeedbackValues> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Partial<FeedbackValues>) : {};
@@ -0,0 +1,14 @@
+// Shares the edge functions' hashing, so a key is built from the same canonical JSON the server
+// hashes request bodies with
+import { hashRequest } from '../../supabase/functions/_shared/idempotency';
+
+/**
+ * The Idempotency-Key for one logical request: the same operation on the same input gets the same
+ * key, so a double-click or a retry is recognised as a repeat. `revision` is the state the request
+ * acts on, e.g. the summary being regenerated, so asking again once it has changed is a new request.
+ */
+export async function idempotencyKey(operation: string, body: Record<string, unknown>, revision: unknown = null) {
+  const hash = await hashRequest({ operation, body, revision });
+  const target = body.meetingId ?? body.jobId;
+  return [operation, typeof target === 'string' ? target : null, hash].filter(Boolean).join(':');
+}
@@ -0,0 +1,34 @@
+import type { Json } from '@/integrations/supabase/types';
+
+/** Languages meetings are detected in and items can be translated into; extract-actions knows the same. */
+export const LANGUAGES = [
+  { code: 'en', name: 'English' },
+  { code: 'de', name: 'German' },
+  { code: 'fr', name: 'French' },
+  { code: 'es', name: 'Spanish' },
+  { code: 'it', name: 'Italian' },
+  { code: 'nl', name: 'Dutch' },
+  { code: 'pt', name: 'Portuguese' },
+];
+
+export const languageName = (code: string) => LANGUAGES.find((language) => language.code === code)?.name ?? code;
+
+const asRecord = (value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+/**
+ * The language action items are translated into by default, kept as `translateTo` in the
+ * profile preferences; null keeps items in the meeting's language.
+ */
+export const readTranslateTo = (preferences: Json | null): string | null => {
+  const { translateTo } = asRecord(preferences);
+  return typeof translateTo === 'string' && LANGUAGES.some((language) => language.code === translateTo)
+    ? translateTo
+    : null;
+};
+
+/** Returns the preferences with the default translation language replaced, leaving other keys alone. */
+export const withTranslateTo = (preferences: Json | null, translateTo: string | null): Json => ({
+  ...asRecord(preferences),
+  translateTo,
+}) as Json;
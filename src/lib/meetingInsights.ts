@@ -0,0 +1,74 @@
+import type { Tables } from '@/integrations/supabase/types';
+import { format } from 'date-fns';
+
+export type MeetingInsight = Tables<'meeting_insights'>;
+export type InsightKind = 'decision' | 'risk' | 'question';
+
+/** Insight fields that extraction fills in, as returned by a dry run of extract-actions. */
+export type InsightValues = Pick<
+  MeetingInsight,
+  'kind' | 'position' | 'text' | 'owner' | 'source_chunks' | 'source_quote' | 'source_start' | 'source_end' | 'source_timestamp'
+>;
+
+export const INSIGHT_SECTIONS: { kind: InsightKind; title: string; exportKey: string }[] = [
+  { kind: 'decision', title: 'Decisions', exportKey: 'decisions' },
+  { kind: 'risk', title: 'Risks & Blockers', exportKey: 'risks' },
+  { kind: 'question', title: 'Open Questions', exportKey: 'openQuestions' },
+];
+
+export const insightsOfKind = (insights: MeetingInsight[], kind: InsightKind) =>
+  insights.filter((insight) => insight.kind === kind).sort((a, b) => a.position - b.position);
+
+interface NotesActionItem {
+  action_item: string;
+  owner: string | null;
+  deadline: string | null;
+  priority: string | null;
+}
+
+/** Renders a meeting's outcomes as a Markdown document for sharing. */
+export const formatMeetingNotes = ({
+  title,
+  meetingDate,
+  actionItems,
+  insights,
+  summary = null,
+  keyPoints = [],
+}: {
+  title: string;
+  meetingDate: string;
+  actionItems: NotesActionItem[];
+  insights: MeetingInsight[];
+  summary?: string | null;
+  keyPoints?: string[];
+}) => {
+  const lines = [`# ${title}`, '', format(new Date(meetingDate), 'MMMM d, yyyy h:mm a')];
+
+  if (summary) {
+    lines.push('', '## Summary', '', summary);
+    if (keyPoints.length > 0) lines.push('', ...keyPoints.map((point) => `- ${point}`));
+  }
+
+  lines.push('', '## Action Items', '');
+  if (actionItems.length === 0) lines.push('_None_');
+  actionItems.forEach((item) => {
+    const details = [
+      item.owner,
+      item.deadline && `due ${format(new Date(item.deadline), 'MMM d, yyyy')}`,
+      item.priority && `${item.priority} priority`,
+    ].filter(Boolean);
+    lines.push(`- [ ] ${item.action_item}${details.length > 0 ? ` (${details.join(', ')})` : ''}`);
+  });
+
+  INSIGHT_SECTIONS.forEach(({ kind, title: sectionTitle }) => {
+    const section = insightsOfKind(insights, kind);
+    if (section.length === 0) return;
+
+    lines.push('', `## ${sectionTitle}`, '');
+    section.forEach((insight) => {
+      lines.push(`- ${insight.text}${insight.owner ? ` (${insight.owner})` : ''}`);
+    });
+  });
+
+  return `${lines.join('\n')}\n`;
+};
@@ -0,0 +1,129 @@
+import { format } from 'date-fns';
+import type { Json } from '@/integrations/supabase/types';
+import { importTranscript } from '@/lib/transcript/importers';
+
+export interface Attendee {
+  name: string;
+  email: string | null;
+}
+
+export interface MeetingMetadata {
+  startedAt: Date | null;
+  durationMinutes: number | null;
+  attendees: Attendee[];
+}
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// Matches dates in names such as "2024-03-05 14-30 Standup" or Zoom's "GMT20240305-143000".
+const FILENAME_DATE = /(\d{4})-?(\d{2})-?(\d{2})(?:[ T_-]+(\d{2})[:.-]?(\d{2}))?/;
+const ATTENDEES_HEADING = /^(?:attendees|participants|invited)\s*:?\s*(.*)$/i;
+
+export const toDateTimeLocal = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+/** Converts a datetime-local input value to an ISO timestamp, defaulting to now. */
+export const fromDateTimeLocal = (dateTimeLocal: string) => {
+  const date = new Date(dateTimeLocal);
+  return Number.isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+};
+
+/** Reads attendees stored on a meeting row, skipping malformed entries. */
+export const parseAttendees = (value: Json | null | undefined): Attendee[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry) => {
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) return [];
+    const name = typeof entry.name === 'string' ? entry.name.trim() : '';
+    const email = typeof entry.email === 'string' && entry.email.trim() ? entry.email.trim() : null;
+    return name || email ? [{ name: name || email!, email }] : [];
+  });
+};
+
+export const formatAttendee = (attendee: Attendee) =>
+  attendee.email ? `${attendee.name} <${attendee.email}>` : attendee.name;
+
+/** Parses the first date (and optional time) found in a file name as a local time. */
+export const parseFilenameDate = (fileName: string): Date | null => {
+  const match = FILENAME_DATE.exec(fileName);
+  if (!match) return null;
+
+  const [, year, month, day, hours = '0', minutes = '0'] = match;
+  const date = new Date(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes));
+  const valid =
+    date.getMonth() === Number(month) - 1 && Number(hours) < 24 && Number(minutes) < 60 && Number(year) > 1990;
+  return valid ? date : null;
+};
+
+/**
+ * Collects attendees from a transcript: an "Attendees:" list when the export has one, plus
+ * every speaker, with email addresses attached where they appear next to a name.
+ */
+export const extractAttendees = (content: string, speakers: string[]): Attendee[] => {
+  const attendees = new Map<string, Attendee>();
+  const add = (raw: string) => {
+    const email = raw.match(EMAIL_PATTERN)?.[0] ?? null;
+    const name = raw.replace(EMAIL_PATTERN, '').replace(/[<>()[\]]/g, '').trim() || email;
+    if (!name) return;
+    const key = name.toLowerCase();
+    const existing = attendees.get(key);
+    attendees.set(key, { name: existing?.name ?? name, email: existing?.email ?? email });
+  };
+
+  const lines = content.split(/\r?\n/).slice(0, 20);
+  const headingIndex = lines.findIndex((line) => ATTENDEES_HEADING.test(line.trim()));
+  if (headingIndex >= 0) {
+    // Google Meet puts the list on the line after the heading; other exports on the same line
+    const inline = ATTENDEES_HEADING.exec(lines[headingIndex].trim())![1];
+    (inline || lines[headingIndex + 1] || '').split(/[,;]/).forEach(add);
+  }
+
+  speakers.forEach(add);
+  return Array.from(attendees.values());
+};
+
+const readAudioDuration = (file: File) =>
+  new Promise<number | null>((resolve) => {
+    const url = URL.createObjectURL(file);
+    const audio = new Audio();
+    const finish = (seconds: number | null) => {
+      URL.revokeObjectURL(url);
+      resolve(seconds);
+    };
+    audio.preload = 'metadata';
+    // Browser recordings often report an infinite duration until fully decoded
+    audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) ? audio.duration : null);
+    audio.onerror = () => finish(null);
+    audio.src = url;
+  });
+
+/**
+ * Prefills meeting details from an uploaded file: the start time from the file name or its
+ * modification time, the duration from the audio or the last transcript timestamp, and the
+ * attendees from the transcript.
+ */
+export async function readMeetingMetadata(file: File, content?: string | null): Promise<MeetingMetadata> {
+  let durationSeconds: number | null = null;
+  let attendees: Attendee[] = [];
+
+  if (content) {
+    const { segments } = importTranscript(content);
+    const times = segments
+      .flatMap((segment) => [segment.start, segment.end])
+      .filter((time): time is number => time !== null);
+    durationSeconds = times.length > 0 ? Math.max(...times) : null;
+    attendees = extractAttendees(
+      content,
+      segments.flatMap((segment) => (segment.speaker ? [segment.speaker] : []))
+    );
+  } else if (file.type.startsWith('audio/')) {
+    durationSeconds = await readAudioDuration(file);
+  }
+
+  // A file is last modified when the meeting ends, so step back by its length
+  const modifiedStart = new Date(file.lastModified - (durationSeconds ?? 0) * 1000);
+
+  return {
+    startedAt: parseFilenameDate(file.name) ?? modifiedStart,
+    durationMinutes: durationSeconds ? Math.max(1, Math.round(durationSeconds / 60)) : null,
+    attendees,
+  };
+}
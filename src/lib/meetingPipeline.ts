@@ -0,0 +1,461 @@
+import { FunctionsFetchError, FunctionsHttpError, FunctionsRelayError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { idempotencyKey } from '@/lib/idempotency';
+import type { Attendee } from '@/lib/meetingMetadata';
+import type { InsightValues } from '@/lib/meetingInsights';
+import { DEFAULT_TEMPLATE_ID } from '@/lib/meetingTemplates';
+import {
+  createProcessingJob,
+  currentStep,
+  failProcessingJob,
+  fetchProcessingJob,
+  readStepResult,
+  updateProcessingStep,
+  waitForProcessingJob,
+  type ProcessingJob,
+  type ProcessingStepName,
+} from '@/lib/processingJobs';
+import { EXTRACTED_FIELDS, type ExtractedValues } from '@/lib/reextraction';
+import { readTranscriptFile } from '@/lib/transcript/files';
+import { importTranscript } from '@/lib/transcript/importers';
+import { formatTranscript, type TranscriptSegment } from '@/lib/transcript/segments';
+
+export type ProcessingStage = 'uploading' | 'transcribing' | 'extracting' | 'summarizing';
+
+/**
+ * How action items are extracted: by the AI provider, falling back to the offline rules when it
+ * is unavailable, or by the offline rules alone so the transcript is never sent to a model.
+ */
+export type Extractor = 'ai' | 'offline';
+
+/** Audio segments transcribed so far, for recordings that are transcribed in parts. */
+export interface StageProgress {
+  done: number;
+  total: number;
+}
+
+export interface MeetingInput {
+  userId: string;
+  title: string;
+  meetingDate: string;
+  durationMinutes?: number | null;
+  attendees?: Attendee[];
+  /** An audio or transcript file; takes precedence over `transcript`. */
+  file?: File | null;
+  /** Pasted transcript text, or already-read file content. */
+  transcript?: string;
+  /** Importer id to force instead of auto-detecting the transcript format. */
+  importFormat?: string | null;
+  extractor?: Extractor;
+  /** Meeting-type template id; see meetingTemplates. */
+  template?: string;
+  /** Language code to translate action items into; see languages. */
+  translateTo?: string | null;
+}
+
+export interface MeetingResult {
+  meetingId: string;
+  /** The meeting's processing job, to resume it by if it stopped. */
+  jobId: string;
+  actionItemCount: number;
+  /**
+   * Why processing stopped, e.g. transcription or extraction failed; the meeting itself was
+   * still saved and can be resumed from its page.
+   */
+  processingError: string | null;
+  /**
+   * Set when the job started but following it failed: it may still be running server-side, so
+   * `processingError` is about losing track of it rather than the job failing.
+   */
+  lostTrack: boolean;
+  /** Why the offline rules were used in place of the AI provider, if they were. */
+  fallbackReason: string | null;
+  /** Why the action items were left in the meeting's language instead of being translated. */
+  translationError: string | null;
+}
+
+export interface ExtractionInput {
+  meetingId: string;
+  transcript: string;
+  meetingDate: string;
+  attendees: Attendee[];
+  extractor?: Extractor;
+  template?: string;
+  translateTo?: string | null;
+}
+
+/** Reads the `{ error }` body an edge function returned with a non-2xx status. */
+const functionErrorMessage = async (error: unknown, fallback = 'Action item extraction failed.') => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (typeof body?.error === 'string') return body.error;
+  }
+  return error instanceof Error ? error.message : fallback;
+};
+
+// While a request with the same key is still running, ask again this often, until the key would
+// count as abandoned by the function
+const IN_PROGRESS_POLL_MS = 3000;
+const IN_PROGRESS_TIMEOUT_MS = 10 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Whether the function refused the request because an earlier one with its key hasn't finished. */
+const isStillInProgress = async (error: unknown) => {
+  if (!(error instanceof FunctionsHttpError) || error.context.status !== 409) return false;
+  const body = await error.context.clone().json().catch(() => null);
+  return body?.inProgress === true;
+};
+
+/**
+ * Invokes a processing function with an Idempotency-Key derived from the request, so repeats of
+ * it, whether a retry here, a double-click or the user trying again, get the first one's result
+ * instead of running it twice. A request that fails on the way is retried once, and one that
+ * finds an earlier request still running waits for its result.
+ */
+const invokeIdempotent = async (name: string, body: Record<string, unknown>, revision: unknown = null) => {
+  const headers = { 'Idempotency-Key': await idempotencyKey(name, body, revision) };
+  const deadline = Date.now() + IN_PROGRESS_TIMEOUT_MS;
+  let retriedLostRequest = false;
+
+  for (;;) {
+    const result = await supabase.functions.invoke(name, { body, headers });
+    if (!retriedLostRequest && (result.error instanceof FunctionsFetchError || result.error instanceof FunctionsRelayError)) {
+      retriedLostRequest = true;
+      continue;
+    }
+    if (Date.now() < deadline && (await isStillInProgress(result.error))) {
+      await sleep(IN_PROGRESS_POLL_MS);
+      continue;
+    }
+    return result;
+  }
+};
+
+// Deadline phrases are resolved in the user's timezone unless their preferences name another
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Extracts a meeting's action items. Failures are recorded on the meeting by extract-actions
+ * and returned here rather than thrown, since the meeting itself was saved.
+ */
+export async function extractActionItems(input: ExtractionInput) {
+  const { data, error } = await invokeIdempotent('extract-actions', { ...input, timeZone: browserTimeZone() });
+
+  if (error) {
+    return {
+      actionItemCount: 0,
+      error: await functionErrorMessage(error),
+      fallbackReason: null,
+      translationError: null,
+    };
+  }
+
+  await supabase
+    .from('meetings')
+    .update({ processed_at: new Date().toISOString() })
+    .eq('id', input.meetingId);
+
+  return {
+    actionItemCount: (data.actionItems?.length as number | undefined) || 0,
+    error: null,
+    fallbackReason: (data.fallbackReason as string | null | undefined) ?? null,
+    translationError: (data.translationError as string | null | undefined) ?? null,
+  };
+}
+
+/**
+ * Runs a processing job's remaining steps server-side. Resolves once they have started; follow
+ * the job to see them finish. `updatedAt` is the job's as it was seen, so asking twice to resume
+ * the same failure starts it once.
+ */
+export async function startProcessingJob(jobId: string, updatedAt: string) {
+  const { error } = await invokeIdempotent('process-meeting', { jobId }, updatedAt);
+  // Already being run, which is all that was asked
+  if (error instanceof FunctionsHttpError && error.context.status === 409) return;
+  if (error) throw new Error(await functionErrorMessage(error, 'Processing the meeting failed to start.'));
+}
+
+export interface GeneratedSummary {
+  summary: string;
+  keyPoints: string[];
+  generatedAt: string;
+}
+
+/**
+ * Generates and saves a summary of the meeting's stored transcript, replacing any earlier one.
+ * `replacing` is when the summary shown was generated, so repeats of one request to regenerate
+ * it only generate once.
+ */
+export async function summarizeMeeting(meetingId: string, replacing: string | null = null): Promise<GeneratedSummary> {
+  const { data, error } = await invokeIdempotent('summarize-meeting', { meetingId }, replacing);
+
+  if (error) throw new Error(await functionErrorMessage(error, 'Summarizing the meeting failed.'));
+
+  return data as GeneratedSummary;
+}
+
+export interface ExtractionPreview {
+  actionItems: ExtractedValues[];
+  insights: InsightValues[];
+  extractedWith: Extractor;
+  fallbackReason: string | null;
+  /** The language the meeting was detected to be in, if it could be told. */
+  language: string | null;
+  translationError: string | null;
+}
+
+/**
+ * Runs extraction again without saving anything, returning what it would create so it can be
+ * merged with the meeting's current action items.
+ */
+export async function previewExtraction(input: ExtractionInput): Promise<ExtractionPreview> {
+  const { data, error } = await supabase.functions.invoke('extract-actions', {
+    body: { ...input, timeZone: browserTimeZone(), dryRun: true },
+  });
+
+  if (error) throw new Error(await functionErrorMessage(error));
+
+  return {
+    actionItems: (data.actionItems as Record<string, unknown>[]).map(
+      (item) => Object.fromEntries(EXTRACTED_FIELDS.map((field) => [field, item[field] ?? null])) as ExtractedValues
+    ),
+    insights: (data.insights ?? []).map(
+      ({ meeting_id: _meetingId, user_id: _userId, ...insight }: InsightValues & Record<string, unknown>) => insight
+    ),
+    extractedWith: data.extractor ?? 'ai',
+    fallbackReason: data.fallbackReason ?? null,
+    language: data.language ?? null,
+    translationError: data.translationError ?? null,
+  };
+}
+
+const saveTranscriptSegments = async (meetingId: string, userId: string, segments: TranscriptSegment[]) => {
+  if (segments.length === 0) return;
+
+  const { error } = await supabase.from('transcript_segments').insert(
+    segments.map((segment, position) => ({
+      meeting_id: meetingId,
+      user_id: userId,
+      position,
+      speaker: segment.speaker,
+      start_seconds: segment.start,
+      end_seconds: segment.end,
+      text: segment.text,
+    }))
+  );
+
+  if (error) throw error;
+};
+
+export const isAudioFile = (file: File | null | undefined) => Boolean(file?.type.startsWith('audio/'));
+
+// transcribe-audio sends recordings up to this size in one go; larger ones are cut into segments,
+// which it can only do for WAV and MP3
+const MAX_UNSEGMENTED_AUDIO_BYTES = 25 * 1024 * 1024;
+const SEGMENTABLE_AUDIO_TYPE = /wav|mpeg|mp3/i;
+
+/** Why an audio file can't be transcribed, so it is turned away before it is uploaded. */
+export const audioFileError = (file: File) =>
+  isAudioFile(file) && file.size > MAX_UNSEGMENTED_AUDIO_BYTES && !SEGMENTABLE_AUDIO_TYPE.test(file.type)
+    ? `${file.name} is over 25MB, and recordings that long can only be transcribed as WAV or MP3. Convert it, or split it into shorter recordings.`
+    : null;
+
+const STEP_STAGES: Record<ProcessingStepName, ProcessingStage> = {
+  upload: 'uploading',
+  transcribe: 'transcribing',
+  extract: 'extracting',
+  summarize: 'summarizing',
+};
+
+type StageListener = (stage: ProcessingStage, progress?: StageProgress) => void;
+
+/**
+ * Starts a meeting's processing job and follows it until it finishes. `prepare` runs first, as
+ * part of starting it; a job that can't be started is marked failed so it can be resumed later.
+ */
+const runProcessingJob = async (
+  meetingId: string,
+  job: Pick<ProcessingJob, 'id' | 'updated_at'>,
+  onStage?: StageListener,
+  prepare?: () => Promise<void>
+): Promise<MeetingResult> => {
+  // Long recordings report the segments transcribed so far on the meeting
+  const progressChannel = supabase
+    .channel(`transcription-${meetingId}`)
+    .on(
+      'postgres_changes',
+      {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'meetings',
+        filter: `id=eq.${meetingId}`,
+      },
+      (payload) => {
+        const { transcription_segments_done: done, transcription_segments_total: total } =
+          payload.new as Tables<'meetings'>;
+        if (total && total > 1) onStage?.('transcribing', { done: done ?? 0, total });
+      }
+    )
+    .subscribe();
+
+  const stopped = (processingError: string, lostTrack: boolean): MeetingResult => ({
+    meetingId,
+    jobId: job.id,
+    actionItemCount: 0,
+    processingError,
+    lostTrack,
+    fallbackReason: null,
+    translationError: null,
+  });
+
+  try {
+    try {
+      await prepare?.();
+      await startProcessingJob(job.id, job.updated_at);
+    } catch (error) {
+      // Marked failed so the meeting page offers to resume it, instead of it waiting as queued forever
+      const message = error instanceof Error ? error.message : 'Processing the meeting failed to start.';
+      await failProcessingJob(job.id, message).catch((failError) =>
+        console.error('Error marking the processing job failed:', failError)
+      );
+      return stopped(message, false);
+    }
+
+    let finished: Awaited<ReturnType<typeof waitForProcessingJob>>;
+    try {
+      let lastStage: ProcessingStage | null = null;
+      finished = await waitForProcessingJob(job.id, ({ steps: current }) => {
+        const step = currentStep(current);
+        const stage = step ? STEP_STAGES[step.step as ProcessingStepName] : null;
+        if (stage && stage !== lastStage) {
+          lastStage = stage;
+          onStage?.(stage);
+        }
+      });
+    } catch (error) {
+      // The job is left as it is; it carries on server-side and its page shows how it ends
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return stopped(`Lost track of processing the meeting: ${message}. It may still be running.`, true);
+    }
+
+    const extraction = readStepResult(finished.steps.find((step) => step.step === 'extract'));
+    const failedStep = finished.steps.find((step) => step.status === 'failed');
+
+    return {
+      meetingId,
+      jobId: job.id,
+      actionItemCount: typeof extraction.actionItemCount === 'number' ? extraction.actionItemCount : 0,
+      // A missing summary can be generated later from the meeting page, so its failure isn't reported
+      processingError: failedStep && failedStep.step !== 'summarize' ? finished.job.error : null,
+      lostTrack: false,
+      fallbackReason: typeof extraction.fallbackReason === 'string' ? extraction.fallbackReason : null,
+      translationError: typeof extraction.translationError === 'string' ? extraction.translationError : null,
+    };
+  } finally {
+    supabase.removeChannel(progressChannel);
+  }
+};
+
+/**
+ * Runs one meeting through the pipeline: saves it with its text transcript, or uploads its audio,
+ * then has process-meeting transcribe, extract and summarize it server-side as a processing job.
+ * Closing the page doesn't stop the job; it is followed here until it finishes.
+ *
+ * Throws only when nothing was saved, so trying again can't leave a duplicate meeting; once the
+ * meeting is saved, failures are returned in `processingError` and the job can be resumed.
+ */
+export async function processMeeting(input: MeetingInput, onStage?: StageListener): Promise<MeetingResult> {
+  const { userId, file } = input;
+  const fileError = file ? audioFileError(file) : null;
+  if (fileError) throw new Error(fileError);
+
+  const attendees = (input.attendees ?? [])
+    .map(({ name, email }) => ({ name: name.trim() || email?.trim() || '', email: email?.trim() || null }))
+    .filter((attendee) => attendee.name);
+  const createMeeting = async (transcript: string | null) => {
+    const { data: meeting, error: meetingError } = await supabase
+      .from('meetings')
+      .insert({
+        user_id: userId,
+        title: input.title || 'Untitled Meeting',
+        transcript,
+        meeting_date: input.meetingDate,
+        duration_minutes: input.durationMinutes ?? null,
+        attendees,
+        extractor: input.extractor ?? 'ai',
+        template: input.template ?? DEFAULT_TEMPLATE_ID,
+        translate_to: input.translateTo ?? null,
+      })
+      .select()
+      .single();
+
+    if (meetingError) throw meetingError;
+    return meeting;
+  };
+
+  const hasAudio = Boolean(file && isAudioFile(file));
+  let segments: TranscriptSegment[] = [];
+  let transcriptText: string | null = null;
+
+  if (!hasAudio) {
+    // Normalize text transcripts into "[HH:MM:SS] Speaker: text" turns
+    const content = input.transcript ?? (file ? await readTranscriptFile(file) : '');
+    segments = importTranscript(content, input.importFormat).segments;
+    transcriptText = formatTranscript(segments);
+
+    if (!transcriptText?.trim()) {
+      throw new Error('Please provide a transcript or upload a file.');
+    }
+  }
+
+  const meeting = await createMeeting(transcriptText);
+  // Until the job is set up there is nothing to resume, so the meeting goes again on failure
+  const discardMeeting = async (error: unknown) => {
+    await supabase.from('meetings').delete().eq('id', meeting.id);
+    throw error;
+  };
+
+  const { job, steps } = await saveTranscriptSegments(meeting.id, userId, segments)
+    .then(() =>
+      createProcessingJob({
+        meetingId: meeting.id,
+        userId,
+        hasAudio,
+        offline: input.extractor === 'offline',
+      })
+    )
+    .catch(discardMeeting);
+
+  const uploadStep = hasAudio ? steps.find((step) => step.step === 'upload') : undefined;
+  if (hasAudio) {
+    // Only the browser has the file, so the upload step runs here
+    onStage?.('uploading');
+    await updateProcessingStep(uploadStep!.id, { status: 'running', attempts: 1, started_at: new Date().toISOString() })
+      .catch((error) => console.error('Error updating the upload step:', error));
+
+    const filePath = `${userId}/${Date.now()}-${file!.name}`;
+    const { error: uploadError } = await supabase.storage.from('meeting-audio').upload(filePath, file!);
+    // Nothing to resume without the file, so the meeting goes too
+    if (uploadError) return discardMeeting(uploadError);
+
+    const { error: pathError } = await supabase.from('meetings').update({ audio_path: filePath }).eq('id', meeting.id);
+    if (pathError) {
+      await supabase.storage.from('meeting-audio').remove([filePath]);
+      return discardMeeting(pathError);
+    }
+  }
+
+  return runProcessingJob(meeting.id, job, onStage, async () => {
+    if (uploadStep) {
+      await updateProcessingStep(uploadStep.id, { status: 'completed', finished_at: new Date().toISOString() });
+    }
+  });
+}
+
+/** Resumes a meeting's processing job from where it stopped and follows it until it finishes. */
+export async function resumeProcessing(meetingId: string, jobId: string, onStage?: StageListener) {
+  const { job } = await fetchProcessingJob(jobId);
+  return runProcessingJob(meetingId, job, onStage);
+}
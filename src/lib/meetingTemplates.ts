@@ -0,0 +1,97 @@
+import type { Json } from '@/integrations/supabase/types';
+
+/** An extra field a template asks extraction to fill on each action item. */
+export interface ExtraField {
+  label: string;
+  description: string;
+}
+
+/**
+ * A template the user wrote, kept under `templates` in their profile preferences. extract-actions
+ * reads the same shape; built-in templates' instructions live there too.
+ */
+export interface CustomTemplate {
+  id: string;
+  name: string;
+  description: string;
+  instructions: string;
+  priorityRules: string;
+  extraFields: ExtraField[];
+}
+
+export interface TemplateOption {
+  id: string;
+  name: string;
+  description: string;
+}
+
+export const DEFAULT_TEMPLATE_ID = 'general';
+
+export const BUILT_IN_TEMPLATES: TemplateOption[] = [
+  { id: DEFAULT_TEMPLATE_ID, name: 'General', description: 'Any meeting' },
+  { id: 'standup', name: 'Standup', description: 'Next steps and blockers, not status updates' },
+  { id: 'retro', name: 'Retrospective', description: 'Improvements the team agrees to try' },
+  { id: 'planning', name: 'Planning', description: 'Committed work with estimates and tickets' },
+  { id: 'one_on_one', name: '1:1', description: 'Follow-ups between a manager and a report' },
+  { id: 'customer_call', name: 'Customer call', description: 'Promises to and requests from the customer' },
+];
+
+const asRecord = (value: unknown) =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const text = (value: unknown) => (typeof value === 'string' ? value : '');
+
+export const readCustomTemplates = (preferences: Json | null): CustomTemplate[] => {
+  const templates = asRecord(preferences).templates;
+  if (!Array.isArray(templates)) return [];
+
+  return templates
+    .map(asRecord)
+    .filter((template) => text(template.id) && text(template.name))
+    .map((template) => ({
+      id: text(template.id),
+      name: text(template.name),
+      description: text(template.description),
+      instructions: text(template.instructions),
+      priorityRules: text(template.priorityRules),
+      extraFields: (Array.isArray(template.extraFields) ? template.extraFields : [])
+        .map(asRecord)
+        .filter((field) => text(field.label))
+        .map((field) => ({ label: text(field.label), description: text(field.description) })),
+    }));
+};
+
+/** Returns the preferences with the custom templates replaced, leaving other keys alone. */
+export const withCustomTemplates = (preferences: Json | null, templates: CustomTemplate[]): Json => ({
+  ...asRecord(preferences),
+  templates: templates.map((template) => ({ ...template, extraFields: template.extraFields.map((field) => ({ ...field })) })),
+}) as unknown as Json;
+
+/** Built-in templates followed by the user's own, for picking one. */
+export const templateOptions = (custom: CustomTemplate[]): TemplateOption[] => [
+  ...BUILT_IN_TEMPLATES,
+  ...custom.map(({ id, name, description }) => ({ id, name, description })),
+];
+
+export const newTemplateId = () => `custom-${crypto.randomUUID()}`;
+
+/** Reads extra fields typed one per line as "Label: what to fill in". */
+export const parseExtraFieldList = (value: string): ExtraField[] =>
+  value
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const separator = line.indexOf(':');
+      return separator === -1
+        ? { label: line, description: '' }
+        : { label: line.slice(0, separator).trim(), description: line.slice(separator + 1).trim() };
+    })
+    .filter((field) => field.label);
+
+export const formatExtraFieldList = (fields: ExtraField[]) =>
+  fields.map((field) => (field.description ? `${field.label}: ${field.description}` : field.label)).join('\n');
+
+/** An action item's extra fields as label/value pairs, in the order they were stored. */
+export const readExtraValues = (extra: Json | undefined): [string, string][] =>
+  Object.entries(asRecord(extra)).filter((entry): entry is [string, string] => typeof entry[1] === 'string');
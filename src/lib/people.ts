@@ -0,0 +1,37 @@
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+export type Person = Tables<'people'>;
+
+/** A directory entry an extracted owner may refer to, as stored in action_items.owner_candidates. */
+export interface OwnerCandidate {
+  personId: string | null;
+  name: string;
+  email: string | null;
+  score: number;
+}
+
+const isCandidate = (value: unknown): value is OwnerCandidate =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as OwnerCandidate).name === 'string' &&
+  typeof (value as OwnerCandidate).score === 'number';
+
+export const parseOwnerCandidates = (value: Json | undefined): OwnerCandidate[] =>
+  Array.isArray(value)
+    ? (value as unknown[]).filter(isCandidate).map((candidate) => ({
+        personId: typeof candidate.personId === 'string' ? candidate.personId : null,
+        name: candidate.name,
+        email: typeof candidate.email === 'string' ? candidate.email : null,
+        score: candidate.score,
+      }))
+    : [];
+
+/** Splits aliases typed comma separated into a list without blanks or repeats. */
+export const parseAliasList = (text: string) => [
+  ...new Set(
+    text
+      .split(',')
+      .map((alias) => alias.trim())
+      .filter(Boolean)
+  ),
+];
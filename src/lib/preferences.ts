@@ -0,0 +1,17 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+/**
+ * Rewrites the user's profile preferences from their current stored value, so settings saved
+ * from another card or tab in the meantime aren't overwritten with a stale copy.
+ */
+export async function updatePreferences(userId: string, update: (preferences: Json | null) => Json): Promise<Json> {
+  const { data, error } = await supabase.from('profiles').select('preferences').eq('id', userId).maybeSingle();
+  if (error) throw error;
+
+  const next = update(data?.preferences ?? null);
+  const { error: updateError } = await supabase.from('profiles').update({ preferences: next }).eq('id', userId);
+  if (updateError) throw updateError;
+
+  return next;
+}
@@ -0,0 +1,197 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ProcessingJob = Tables<'processing_jobs'>;
+export type ProcessingStep = Tables<'processing_steps'>;
+
+export type ProcessingStepName = 'upload' | 'transcribe' | 'extract' | 'summarize';
+export type ProcessingStepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+
+export const STEP_LABELS: Record<ProcessingStepName, string> = {
+  upload: 'Upload audio',
+  transcribe: 'Transcribe',
+  extract: 'Extract action items',
+  summarize: 'Summarize',
+};
+
+/**
+ * The steps a meeting goes through, in order. Text transcripts skip upload and transcription,
+ * and meetings kept away from the AI provider aren't summarized.
+ */
+export const planProcessingSteps = ({ hasAudio, offline }: { hasAudio: boolean; offline: boolean }) =>
+  ([
+    { step: 'upload', status: hasAudio ? 'pending' : 'skipped' },
+    { step: 'transcribe', status: hasAudio ? 'pending' : 'skipped' },
+    { step: 'extract', status: 'pending' },
+    { step: 'summarize', status: offline ? 'skipped' : 'pending' },
+  ] satisfies { step: ProcessingStepName; status: ProcessingStepStatus }[]).map((step, position) => ({
+    ...step,
+    position,
+  }));
+
+export const isJobFinished = (job: Pick<ProcessingJob, 'status'>) =>
+  job.status === 'completed' || job.status === 'failed';
+
+// Matches process-meeting: a job that hasn't moved for this long lost whatever was running it,
+// e.g. to the function time limit
+export const STALE_AFTER_MS = 10 * 60 * 1000;
+
+/** An unfinished job that stopped making progress, e.g. because the page that queued it closed. */
+export const isJobStale = (job: Pick<ProcessingJob, 'status' | 'updated_at'>, now = new Date()) =>
+  !isJobFinished(job) && now.getTime() - new Date(job.updated_at).getTime() > STALE_AFTER_MS;
+
+/** Whether the job can be resumed: it failed, or it stalled before finishing. */
+export const canResumeJob = (job: Pick<ProcessingJob, 'status' | 'updated_at'>, now = new Date()) =>
+  job.status === 'failed' || isJobStale(job, now);
+
+/** The step running now, or the first still to run. */
+export const currentStep = (steps: ProcessingStep[]) =>
+  steps.find((step) => step.status === 'running') ??
+  steps.find((step) => step.status === 'pending' || step.status === 'failed') ??
+  null;
+
+/** How long a step took, or has taken so far, in seconds. */
+export const stepDurationSeconds = (step: Pick<ProcessingStep, 'started_at' | 'finished_at'>, now = new Date()) => {
+  if (!step.started_at) return null;
+  const end = step.finished_at ? new Date(step.finished_at) : now;
+  return Math.max(0, Math.round((end.getTime() - new Date(step.started_at).getTime()) / 1000));
+};
+
+export const formatStepDuration = (seconds: number) =>
+  seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+
+/** A step's result as a plain object; steps that haven't finished have none. */
+export const readStepResult = (step: ProcessingStep | undefined): Record<string, unknown> =>
+  step?.result && typeof step.result === 'object' && !Array.isArray(step.result)
+    ? (step.result as Record<string, unknown>)
+    : {};
+
+export async function createProcessingJob({
+  meetingId,
+  userId,
+  hasAudio,
+  offline,
+}: {
+  meetingId: string;
+  userId: string;
+  hasAudio: boolean;
+  offline: boolean;
+}) {
+  const { data: job, error: jobError } = await supabase
+    .from('processing_jobs')
+    .insert({
+      meeting_id: meetingId,
+      user_id: userId,
+      // Deadline phrases are resolved in the uploader's timezone unless their preferences name another
+      time_zone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    })
+    .select()
+    .single();
+
+  if (jobError) throw jobError;
+
+  const { data: steps, error: stepsError } = await supabase
+    .from('processing_steps')
+    .insert(planProcessingSteps({ hasAudio, offline }).map((step) => ({ ...step, job_id: job.id, user_id: userId })))
+    .select()
+    .order('position', { ascending: true });
+
+  if (stepsError) throw stepsError;
+  return { job, steps };
+}
+
+export async function updateProcessingStep(id: string, update: Partial<ProcessingStep>) {
+  const { error } = await supabase.from('processing_steps').update(update).eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Marks a job and the step it had got to as failed, for a job that stopped before process-meeting
+ * took it over, so it can be resumed from that step.
+ */
+export async function failProcessingJob(jobId: string, error: string) {
+  const { data: steps, error: stepsError } = await supabase
+    .from('processing_steps')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('position', { ascending: true });
+
+  if (stepsError) throw stepsError;
+
+  const finishedAt = new Date().toISOString();
+  const step = currentStep(steps ?? []);
+  if (step) await updateProcessingStep(step.id, { status: 'failed', error, finished_at: finishedAt });
+
+  const { error: jobError } = await supabase
+    .from('processing_jobs')
+    .update({ status: 'failed', error, finished_at: finishedAt })
+    .eq('id', jobId);
+
+  if (jobError) throw jobError;
+}
+
+export async function fetchProcessingJob(jobId: string) {
+  const [{ data: job, error: jobError }, { data: steps, error: stepsError }] = await Promise.all([
+    supabase.from('processing_jobs').select('*').eq('id', jobId).single(),
+    supabase.from('processing_steps').select('*').eq('job_id', jobId).order('position', { ascending: true }),
+  ]);
+
+  if (jobError) throw jobError;
+  if (stepsError) throw stepsError;
+  return { job, steps: steps ?? [] };
+}
+
+/**
+ * Follows a job over realtime, calling `onChange` with its state whenever a step or the job
+ * changes. Returns a function that stops following.
+ */
+export function followProcessingJob(
+  jobId: string,
+  onChange: (state: { job: ProcessingJob; steps: ProcessingStep[] }) => void
+) {
+  let cancelled = false;
+  const refresh = () =>
+    fetchProcessingJob(jobId)
+      .then((state) => {
+        if (!cancelled) onChange(state);
+      })
+      .catch((error) => console.error('Error loading processing job:', error));
+
+  const channel = supabase
+    .channel(`processing-job-${jobId}`)
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'processing_steps', filter: `job_id=eq.${jobId}` },
+      refresh
+    )
+    .on(
+      'postgres_changes',
+      { event: 'UPDATE', schema: 'public', table: 'processing_jobs', filter: `id=eq.${jobId}` },
+      refresh
+    )
+    // Read once subscribed, so changes made before then aren't missed
+    .subscribe((status) => {
+      if (status === 'SUBSCRIBED') refresh();
+    });
+
+  return () => {
+    cancelled = true;
+    supabase.removeChannel(channel);
+  };
+}
+
+/** Resolves with the job's final state once it completes or fails. */
+export function waitForProcessingJob(
+  jobId: string,
+  onChange?: (state: { job: ProcessingJob; steps: ProcessingStep[] }) => void
+) {
+  return new Promise<{ job: ProcessingJob; steps: ProcessingStep[] }>((resolve) => {
+    const stop = followProcessingJob(jobId, (state) => {
+      onChange?.(state);
+      if (isJobFinished(state.job)) {
+        stop();
+        resolve(state);
+      }
+    });
+  });
+}
@@ -0,0 +1,114 @@
+// Persists in-progress microphone recordings to IndexedDB chunk by chunk, so a crashed or
+// closed tab can recover the meeting instead of losing it.
+
+import { format } from 'date-fns';
+
+const DB_NAME = 'meetact-recordings';
+const DB_VERSION = 1;
+const RECORDINGS_STORE = 'recordings';
+const CHUNKS_STORE = 'chunks';
+
+export interface StoredRecording {
+  id: string;
+  startedAt: string;
+  mimeType: string;
+  /** Recorded time in seconds, excluding pauses, as of the last saved chunk. */
+  durationSeconds: number;
+}
+
+interface StoredChunk {
+  recordingId: string;
+  index: number;
+  blob: Blob;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+        const chunks = db.createObjectStore(CHUNKS_STORE, { keyPath: ['recordingId', 'index'] });
+        chunks.createIndex('recordingId', 'recordingId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+export async function createRecording(recording: StoredRecording) {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS_STORE, 'readwrite');
+  transaction.objectStore(RECORDINGS_STORE).put(recording);
+  await transactionDone(transaction);
+}
+
+export async function appendChunk(recordingId: string, index: number, blob: Blob, durationSeconds: number) {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readwrite');
+  const recordings = transaction.objectStore(RECORDINGS_STORE);
+  const recording = await requestToPromise<StoredRecording | undefined>(recordings.get(recordingId));
+
+  transaction.objectStore(CHUNKS_STORE).put({ recordingId, index, blob } satisfies StoredChunk);
+  if (recording) {
+    recordings.put({ ...recording, durationSeconds });
+  }
+  await transactionDone(transaction);
+}
+
+export async function listRecordings(): Promise<StoredRecording[]> {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDINGS_STORE, 'readonly');
+  const recordings = await requestToPromise<StoredRecording[]>(
+    transaction.objectStore(RECORDINGS_STORE).getAll()
+  );
+  return recordings.sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+/** Reassembles a stored recording into a single audio file. */
+export async function loadRecordingFile(recording: StoredRecording): Promise<File> {
+  const db = await openDatabase();
+  const transaction = db.transaction(CHUNKS_STORE, 'readonly');
+  const chunks = await requestToPromise<StoredChunk[]>(
+    transaction.objectStore(CHUNKS_STORE).index('recordingId').getAll(recording.id)
+  );
+  const blobs = chunks.sort((a, b) => a.index - b.index).map((chunk) => chunk.blob);
+  const extension = recording.mimeType.includes('mp4') ? 'm4a' : 'webm';
+  const name = `Recording ${format(new Date(recording.startedAt), 'yyyy-MM-dd HH-mm')}.${extension}`;
+
+  return new File(blobs, name, {
+    type: recording.mimeType.split(';')[0],
+    lastModified: new Date(recording.startedAt).getTime(),
+  });
+}
+
+export async function deleteRecording(recordingId: string) {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDINGS_STORE, CHUNKS_STORE], 'readwrite');
+  transaction.objectStore(RECORDINGS_STORE).delete(recordingId);
+  transaction
+    .objectStore(CHUNKS_STORE)
+    .delete(IDBKeyRange.bound([recordingId, 0], [recordingId, Number.MAX_SAFE_INTEGER]));
+  await transactionDone(transaction);
+}
@@ -0,0 +1,138 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+/** Action item fields that extraction fills in, and so a re-extraction may change. */
+export const EXTRACTED_FIELDS = [
+  'action_item',
+  'owner',
+  'owner_email',
+  'owner_candidates',
+  'deadline',
+  'deadline_phrase',
+  'priority',
+  'confidence',
+  'notes',
+  'source_chunks',
+  'source_quote',
+  'source_start',
+  'source_end',
+  'source_timestamp',
+  'extra',
+  'original_action_item',
+  'original_notes',
+] as const;
+
+export type ExtractedField = (typeof EXTRACTED_FIELDS)[number];
+export type ExtractedValues = Pick<Tables<'action_items'>, ExtractedField>;
+
+/** The fields a reviewer sees, and so the ones a merge preview lists. */
+export const REVIEWED_FIELDS: ExtractedField[] = ['action_item', 'owner', 'owner_email', 'deadline', 'priority', 'notes'];
+
+export interface ExistingActionItem extends ExtractedValues {
+  id: string;
+  /** Fields the user changed by hand; re-extraction never overwrites these. */
+  edited_fields: string[];
+}
+
+export interface ItemChange {
+  item: ExistingActionItem;
+  updates: Partial<ExtractedValues>;
+  /** Edited fields the new extraction disagrees with, left as the user set them. */
+  keptEdits: ExtractedField[];
+}
+
+export interface ReextractionPlan {
+  added: ExtractedValues[];
+  changed: ItemChange[];
+  vanished: ExistingActionItem[];
+  unchangedCount: number;
+}
+
+// Share of the shorter description's words that must appear in the longer one to match
+const MATCH_THRESHOLD = 0.6;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'to', 'of', 'for', 'on', 'in', 'with', 'by', 'at', 'from', 'up', 'out',
+  'about', 'will', 'should', 'need', 'needs', 'is', 'be', 'it', 'this', 'that', 'their', 'his', 'her',
+]);
+
+const keywords = (text: string) =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+  );
+
+const similarity = (a: Set<string>, b: Set<string>) => {
+  const smaller = a.size <= b.size ? a : b;
+  const larger = smaller === a ? b : a;
+  if (smaller.size === 0) return 0;
+  return [...smaller].filter((word) => larger.has(word)).length / smaller.size;
+};
+
+const sameValue = (field: ExtractedField, a: unknown, b: unknown) => {
+  if (a === null || a === undefined || b === null || b === undefined) return (a ?? null) === (b ?? null);
+  // Stored deadlines come back as timestamps; extraction returns plain dates
+  if (field === 'deadline') return new Date(a as string).getTime() === new Date(b as string).getTime();
+  // Owner candidates and extra fields are objects, stored as JSON
+  if (field === 'owner_candidates' || field === 'extra') return JSON.stringify(a) === JSON.stringify(b);
+  if (Array.isArray(a) && Array.isArray(b)) return a.length === b.length && a.every((value, i) => value === b[i]);
+  return a === b;
+};
+
+/**
+ * Matches a fresh extraction against a meeting's current action items, pairing items by the
+ * words of their descriptions. Matched items are updated except for fields the user edited.
+ */
+export const planReextraction = (
+  existing: ExistingActionItem[],
+  proposed: ExtractedValues[]
+): ReextractionPlan => {
+  const existingWords = existing.map((item) => keywords(item.action_item));
+  const proposedWords = proposed.map((item) => keywords(item.action_item));
+
+  // Pair the closest items first, so a near-identical match isn't taken by a looser one
+  const candidates = existing
+    .flatMap((_, i) => proposed.map((_, j) => ({ i, j, score: similarity(existingWords[i], proposedWords[j]) })))
+    .filter(({ score }) => score >= MATCH_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  const matchedExisting = new Map<number, number>();
+  const matchedProposed = new Set<number>();
+  for (const { i, j } of candidates) {
+    if (matchedExisting.has(i) || matchedProposed.has(j)) continue;
+    matchedExisting.set(i, j);
+    matchedProposed.add(j);
+  }
+
+  const changed: ItemChange[] = [];
+  let unchangedCount = 0;
+
+  matchedExisting.forEach((j, i) => {
+    const item = existing[i];
+    const next = proposed[j];
+    const differing = EXTRACTED_FIELDS.filter((field) => !sameValue(field, item[field], next[field]));
+    const keptEdits = differing.filter((field) => item.edited_fields.includes(field));
+    const updated = differing.filter((field) => !item.edited_fields.includes(field));
+
+    // Quiet fields such as confidence only change along with something the reviewer can see
+    const reviewed = [...updated, ...keptEdits].some((field) => REVIEWED_FIELDS.includes(field));
+    if (!reviewed) {
+      unchangedCount++;
+      return;
+    }
+
+    const updates: Partial<ExtractedValues> = {};
+    updated.forEach((field) => {
+      (updates as Record<string, unknown>)[field] = next[field];
+    });
+    changed.push({ item, updates, keptEdits: keptEdits.filter((field) => REVIEWED_FIELDS.includes(field)) });
+  });
+
+  return {
+    added: proposed.filter((_, j) => !matchedProposed.has(j)),
+    changed,
+    vanished: existing.filter((_, i) => !matchedExisting.has(i)),
+    unchangedCount,
+  };
+};
@@ -0,0 +1,57 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { Attendee } from '@/lib/meetingMetadata';
+import type { TranscriptSegment } from '@/lib/transcript/segments';
+
+/** The person behind each transcript speaker label, keyed by the label. */
+export type SpeakerMap = Record<string, Attendee>;
+
+export interface DetectedSpeaker {
+  label: string;
+  turnCount: number;
+  samples: string[];
+}
+
+const MAX_SAMPLES = 3;
+const MIN_SAMPLE_WORDS = 4;
+
+export const parseSpeakerMap = (value: Json | null | undefined): SpeakerMap => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+
+  const map: SpeakerMap = {};
+  Object.entries(value).forEach(([label, person]) => {
+    if (!person || typeof person !== 'object' || Array.isArray(person)) return;
+    const name = typeof person.name === 'string' ? person.name.trim() : '';
+    if (!name) return;
+    map[label] = { name, email: typeof person.email === 'string' && person.email.trim() ? person.email.trim() : null };
+  });
+  return map;
+};
+
+export const speakerMapToJson = (map: SpeakerMap): Json =>
+  Object.fromEntries(Object.entries(map).map(([label, { name, email }]) => [label, { name, email }]));
+
+/**
+ * Lists the speaker labels in a transcript in order of first appearance, with a few of
+ * their longer utterances to help recognise who each one is.
+ */
+export const detectSpeakers = (segments: TranscriptSegment[]): DetectedSpeaker[] => {
+  const speakers = new Map<string, DetectedSpeaker>();
+
+  segments.forEach((segment) => {
+    if (!segment.speaker) return;
+    const speaker = speakers.get(segment.speaker) ?? { label: segment.speaker, turnCount: 0, samples: [] };
+    speaker.turnCount += 1;
+    if (speaker.samples.length < MAX_SAMPLES && segment.text.split(/\s+/).length >= MIN_SAMPLE_WORDS) {
+      speaker.samples.push(segment.text);
+    }
+    speakers.set(segment.speaker, speaker);
+  });
+
+  return Array.from(speakers.values());
+};
+
+/** Replaces mapped speaker labels with the names of the people they belong to. */
+export const applySpeakerMap = (segments: TranscriptSegment[], map: SpeakerMap): TranscriptSegment[] =>
+  segments.map((segment) =>
+    segment.speaker && map[segment.speaker] ? { ...segment, speaker: map[segment.speaker].name } : segment
+  );
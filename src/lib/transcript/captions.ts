@@ -0,0 +1,68 @@
+import { parseTimestamp } from './time';
+import { splitSpeaker, type TranscriptSegment } from './segments';
+
+const TIMING_LINE = /^\s*(\S+)\s+-->\s+(\S+)/;
+const VOICE_SPAN = /<v(?:\.[^\s>]*)?\s+([^>]+)>([\s\S]*?)(?:<\/v>|(?=<v[\s.])|$)/g;
+
+const ENTITIES: Record<string, string> = {
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&apos;': "'",
+  '&nbsp;': ' ',
+  '&lrm;': '',
+  '&rlm;': '',
+};
+
+const cleanCueText = (value: string) =>
+  value
+    .replace(/<[^>]*>/g, '')
+    .replace(/&(?:amp|lt|gt|quot|apos|nbsp|lrm|rlm);/g, (entity) => ENTITIES[entity])
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const cueToSegments = (start: number, end: number | null, payload: string): TranscriptSegment[] => {
+  const voices = Array.from(payload.matchAll(VOICE_SPAN));
+
+  if (voices.length > 0) {
+    return voices
+      .map((voice) => ({ start, end, speaker: cleanCueText(voice[1]) || null, text: cleanCueText(voice[2]) }))
+      .filter((segment) => segment.text);
+  }
+
+  // A "- " at the start of a line marks a change of speaker within one cue.
+  const lines = payload.split('\n').map(cleanCueText).filter(Boolean);
+  const dialogue = lines.length > 1 && lines.every((line) => line.startsWith('- '));
+  const parts = dialogue ? lines.map((line) => line.slice(2)) : [lines.join(' ')];
+
+  return parts
+    .filter(Boolean)
+    .map((part) => ({ start, end, ...splitSpeaker(part) }))
+    .filter((segment) => segment.text);
+};
+
+/**
+ * Parses a WebVTT or SRT caption file into segments, keeping each cue's start and end time
+ * and its speaker, taken from `<v Speaker>` voice tags or a "Speaker:" prefix.
+ */
+export function parseCaptions(content: string): TranscriptSegment[] {
+  const normalized = content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const blocks = normalized.split(/\n{2,}/);
+  const segments: TranscriptSegment[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => TIMING_LINE.test(line));
+    if (timingIndex === -1) continue; // WEBVTT header, NOTE, STYLE and REGION blocks
+
+    const [, rawStart, rawEnd] = TIMING_LINE.exec(lines[timingIndex])!;
+    const start = parseTimestamp(rawStart);
+    if (start === null) continue;
+
+    const payload = lines.slice(timingIndex + 1).join('\n');
+    segments.push(...cueToSegments(start, parseTimestamp(rawEnd), payload));
+  }
+
+  return segments;
+}
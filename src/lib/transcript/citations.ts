@@ -0,0 +1,47 @@
+import type { TranscriptSegment } from './segments';
+
+/** Where an action item's supporting passage is, as stored by extract-actions. */
+export interface Citation {
+  quote: string | null;
+  timestamp: number | null;
+}
+
+const normalize = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+// Quotes can include the speaker label or span turns, so also try each cited sentence alone
+const quoteFragments = (quote: string) => {
+  const withoutLabel = quote.replace(/^(?:\[[^\]]+\]\s*)?[^:]{1,60}:\s+/, '');
+  const sentences = withoutLabel.split(/(?<=[.!?])\s+/).filter((sentence) => sentence.length >= 12);
+  return [quote, withoutLabel, ...sentences].map(normalize).filter(Boolean);
+};
+
+/**
+ * Finds the transcript segment a citation points at: the first segment containing the quoted
+ * text, or else the segment being spoken at the cited time. Returns its index, or null.
+ */
+export const findCitedSegment = (segments: TranscriptSegment[], citation: Citation): number | null => {
+  if (citation.quote) {
+    const texts = segments.map((segment) => normalize(segment.text));
+    for (const fragment of quoteFragments(citation.quote)) {
+      const index = texts.findIndex((text) => text.includes(fragment));
+      if (index !== -1) return index;
+    }
+  }
+
+  if (citation.timestamp !== null) {
+    let cited: number | null = null;
+    for (let index = 0; index < segments.length; index++) {
+      const { start } = segments[index];
+      if (start !== null && start <= citation.timestamp) cited = index;
+    }
+    return cited;
+  }
+
+  return null;
+};
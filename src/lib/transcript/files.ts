@@ -0,0 +1,18 @@
+import { parseWordDocument } from './word';
+
+const WORD_EXTENSIONS = ['.doc', '.docx'];
+
+const hasExtension = (file: File, extensions: string[]) =>
+  extensions.some((extension) => file.name.toLowerCase().endsWith(extension));
+
+/**
+ * Reads an uploaded transcript file into text for the importers. Word documents are parsed
+ * rather than read as text, and any parse failure is thrown as a user-facing error.
+ */
+export async function readTranscriptFile(file: File): Promise<string> {
+  if (hasExtension(file, WORD_EXTENSIONS)) {
+    return parseWordDocument(await file.arrayBuffer());
+  }
+
+  return file.text();
+}
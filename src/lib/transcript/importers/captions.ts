@@ -0,0 +1,10 @@
+import { parseCaptions } from '../captions';
+import { isSrt, isWebVtt } from './helpers';
+import type { TranscriptImporter } from './types';
+
+export const captionsImporter: TranscriptImporter = {
+  id: 'captions',
+  label: 'WebVTT / SRT captions',
+  detect: (content) => (isWebVtt(content) || isSrt(content) ? 0.7 : 0),
+  parse: parseCaptions,
+};
@@ -0,0 +1,39 @@
+import type { TranscriptSegment } from '../segments';
+import { asNumber, asString, mergeTurns, parseJson } from './helpers';
+import type { TranscriptImporter } from './types';
+
+type Sentence = Record<string, unknown>;
+
+/**
+ * Finds the sentence list in a Fireflies export, which is either the raw API response
+ * (`data.transcript.sentences`), the transcript object, or the bare array of sentences.
+ */
+const findSentences = (value: unknown): Sentence[] | null => {
+  if (Array.isArray(value)) {
+    return value.length > 0 && value.every((item) => item && typeof item === 'object' && 'speaker_name' in item)
+      ? (value as Sentence[])
+      : null;
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const record = value as Record<string, unknown>;
+  return findSentences(record.sentences) ?? findSentences(record.transcript) ?? findSentences(record.data);
+};
+
+export const firefliesImporter: TranscriptImporter = {
+  id: 'fireflies',
+  label: 'Fireflies.ai',
+  detect: (content) => (findSentences(parseJson(content)) ? 0.95 : 0),
+  parse: (content) => {
+    const segments: TranscriptSegment[] = (findSentences(parseJson(content)) ?? [])
+      .map((sentence) => ({
+        start: asNumber(sentence.start_time),
+        end: asNumber(sentence.end_time),
+        speaker: asString(sentence.speaker_name),
+        text: asString(sentence.text) ?? asString(sentence.raw_text) ?? '',
+      }))
+      .filter((segment) => segment.text);
+
+    return mergeTurns(segments);
+  },
+};
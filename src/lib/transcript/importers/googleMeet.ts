@@ -0,0 +1,53 @@
+import { splitSpeaker, type TranscriptSegment } from '../segments';
+import { parseTimestamp } from '../time';
+import { contentLines, countMatching } from './helpers';
+import type { TranscriptImporter } from './types';
+
+// Meet writes a bare "00:05:00" marker every few minutes between "Name: text" lines.
+const TIME_MARKER = /^\d{2}:\d{2}:\d{2}$/;
+const SPEAKER_LINE = /^[^:\s][^:]{0,59}:\s+\S/;
+const TITLE_LINE = /(^|\s-\s)Transcript$/;
+const FOOTER_LINE = /^This editable transcript was computer generated/i;
+
+export const googleMeetImporter: TranscriptImporter = {
+  id: 'google-meet',
+  label: 'Google Meet',
+  detect: (content) => {
+    const lines = contentLines(content);
+    if (countMatching(lines, TIME_MARKER) === 0 || countMatching(lines, SPEAKER_LINE) === 0) return 0;
+    return lines.slice(0, 5).some((line) => TITLE_LINE.test(line)) ? 0.9 : 0.7;
+  },
+  parse: (content) => {
+    const lines = contentLines(content);
+    // Skip the title and attendee list that precede the "Transcript" heading.
+    const bodyStart = lines.indexOf('Transcript');
+    const segments: TranscriptSegment[] = [];
+    let pendingStart: number | null = null;
+    let inBody = bodyStart === -1;
+
+    lines.forEach((line, index) => {
+      if (index === bodyStart) {
+        inBody = true;
+        return;
+      }
+      if (!inBody || !line || FOOTER_LINE.test(line)) return;
+
+      if (TIME_MARKER.test(line)) {
+        pendingStart = parseTimestamp(line);
+        return;
+      }
+
+      const { speaker, text } = splitSpeaker(line);
+      const previous = segments[segments.length - 1];
+      if (!speaker && previous) {
+        previous.text = `${previous.text} ${text}`;
+        return;
+      }
+
+      segments.push({ start: pendingStart, end: null, speaker, text });
+      pendingStart = null;
+    });
+
+    return segments;
+  },
+};
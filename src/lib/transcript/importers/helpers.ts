@@ -0,0 +1,71 @@
+import { SPEAKER_HEADING, type TranscriptSegment } from '../segments';
+import { parseTimestamp } from '../time';
+
+export const isWebVtt = (content: string) => /^WEBVTT/.test(content.trimStart());
+
+export const isSrt = (content: string) =>
+  /^\d+\r?\n\d{1,2}:\d{2}:\d{2},\d{3}\s+-->/.test(content.trimStart());
+
+export const contentLines = (content: string) =>
+  content.split(/\r?\n/).map((line) => line.trim());
+
+export const countMatching = (lines: string[], pattern: RegExp) =>
+  lines.filter((line) => pattern.test(line)).length;
+
+/** Parses JSON exports, returning null for anything that is not a JSON object or array. */
+export const parseJson = (content: string): unknown => {
+  const trimmed = content.trim();
+  if (!trimmed.startsWith('{') && !trimmed.startsWith('[')) return null;
+
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+};
+
+export const asString = (value: unknown) =>
+  typeof value === 'string' && value.trim() ? value.trim() : null;
+
+export const asNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : null;
+
+/** Joins consecutive segments from the same speaker into one turn. */
+export const mergeTurns = (segments: TranscriptSegment[]) =>
+  segments.reduce<TranscriptSegment[]>((turns, segment) => {
+    const previous = turns[turns.length - 1];
+    if (previous && segment.speaker && previous.speaker === segment.speaker) {
+      previous.text = `${previous.text} ${segment.text}`;
+      previous.end = segment.end ?? previous.end;
+    } else {
+      turns.push({ ...segment });
+    }
+    return turns;
+  }, []);
+
+/**
+ * Parses the "Speaker Name  0:03" heading layout used by Teams and Otter text exports, where
+ * each heading is followed by the lines that speaker said.
+ */
+export const parseHeadingTurns = (content: string) => {
+  const segments: TranscriptSegment[] = [];
+
+  for (const line of contentLines(content)) {
+    if (!line) continue;
+
+    const heading = SPEAKER_HEADING.exec(line);
+    if (heading) {
+      segments.push({ start: parseTimestamp(heading[2]), end: null, speaker: heading[1], text: '' });
+      continue;
+    }
+
+    const current = segments[segments.length - 1];
+    if (current) {
+      current.text = current.text ? `${current.text} ${line}` : line;
+    } else {
+      segments.push({ start: null, end: null, speaker: null, text: line });
+    }
+  }
+
+  return segments.filter((segment) => segment.text);
+};
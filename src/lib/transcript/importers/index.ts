@@ -0,0 +1,58 @@
+import type { TranscriptSegment } from '../segments';
+import type { TranscriptImporter } from './types';
+import { zoomImporter } from './zoom';
+import { teamsImporter } from './teams';
+import { googleMeetImporter } from './googleMeet';
+import { otterImporter } from './otter';
+import { firefliesImporter } from './fireflies';
+import { captionsImporter } from './captions';
+import { plainTextImporter } from './plainText';
+
+export type { TranscriptImporter } from './types';
+
+const registry = new Map<string, TranscriptImporter>();
+
+/** Adds an importer, replacing any existing importer with the same id. */
+export const registerImporter = (importer: TranscriptImporter) => {
+  registry.set(importer.id, importer);
+};
+
+export const getImporters = () => Array.from(registry.values());
+
+/** Picks the importer that scores the content highest, falling back to plain text. */
+export const detectImporter = (content: string): TranscriptImporter => {
+  let best = plainTextImporter;
+  let bestScore = 0;
+
+  for (const importer of registry.values()) {
+    const score = importer.detect(content);
+    if (score > bestScore) {
+      best = importer;
+      bestScore = score;
+    }
+  }
+
+  return best;
+};
+
+/**
+ * Normalizes a pasted or uploaded transcript into speaker turns, using the given importer
+ * or the detected one when no override is set.
+ */
+export const importTranscript = (
+  content: string,
+  importerId?: string | null
+): { importer: TranscriptImporter; segments: TranscriptSegment[] } => {
+  const importer = (importerId && registry.get(importerId)) || detectImporter(content);
+  return { importer, segments: importer.parse(content) };
+};
+
+[
+  zoomImporter,
+  teamsImporter,
+  googleMeetImporter,
+  otterImporter,
+  firefliesImporter,
+  captionsImporter,
+  plainTextImporter,
+].forEach(registerImporter);
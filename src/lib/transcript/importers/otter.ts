@@ -0,0 +1,65 @@
+import { SPEAKER_HEADING, type TranscriptSegment } from '../segments';
+import { asNumber, asString, contentLines, countMatching, mergeTurns, parseHeadingTurns, parseJson } from './helpers';
+import type { TranscriptImporter } from './types';
+
+const OTTER_FOOTER = /^Transcribed by https?:\/\/otter\.ai/i;
+
+interface OtterExport {
+  speakers?: { id?: unknown; name?: unknown; speaker_name?: unknown }[];
+  transcripts: Record<string, unknown>[];
+}
+
+const asOtterExport = (value: unknown): OtterExport | null => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const transcripts = (value as Record<string, unknown>).transcripts;
+  return Array.isArray(transcripts) ? (value as OtterExport) : null;
+};
+
+/**
+ * Otter JSON exports list utterances under `transcripts`, each with `start_offset` and
+ * `end_offset` in milliseconds and a speaker given by name or by id into `speakers`.
+ */
+const parseJsonExport = (data: OtterExport) => {
+  const speakerNames = new Map<string, string>();
+  for (const speaker of data.speakers ?? []) {
+    const name = asString(speaker.name) ?? asString(speaker.speaker_name);
+    if (name && speaker.id !== undefined) speakerNames.set(String(speaker.id), name);
+  }
+
+  const segments: TranscriptSegment[] = data.transcripts
+    .map((entry) => {
+      const start = asNumber(entry.start_offset);
+      const end = asNumber(entry.end_offset);
+      const speaker =
+        asString(entry.speaker_name) ??
+        asString(entry.speaker) ??
+        (entry.speaker_id !== undefined ? speakerNames.get(String(entry.speaker_id)) ?? null : null);
+
+      return {
+        start: start !== null ? start / 1000 : null,
+        end: end !== null ? end / 1000 : null,
+        speaker,
+        text: asString(entry.transcript) ?? asString(entry.text) ?? '',
+      };
+    })
+    .filter((segment) => segment.text);
+
+  return mergeTurns(segments);
+};
+
+export const otterImporter: TranscriptImporter = {
+  id: 'otter',
+  label: 'Otter.ai',
+  detect: (content) => {
+    if (asOtterExport(parseJson(content))) return 0.95;
+    if (/otter\.ai/i.test(content)) return 0.9;
+    return countMatching(contentLines(content), SPEAKER_HEADING) >= 2 ? 0.55 : 0;
+  },
+  parse: (content) => {
+    const json = asOtterExport(parseJson(content));
+    if (json) return parseJsonExport(json);
+
+    const body = contentLines(content).filter((line) => !OTTER_FOOTER.test(line)).join('\n');
+    return parseHeadingTurns(body);
+  },
+};
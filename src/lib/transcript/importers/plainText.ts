@@ -0,0 +1,9 @@
+import { parseTranscriptText } from '../segments';
+import type { TranscriptImporter } from './types';
+
+export const plainTextImporter: TranscriptImporter = {
+  id: 'plain',
+  label: 'Plain text',
+  detect: (content) => (content.trim() ? 0.1 : 0),
+  parse: parseTranscriptText,
+};
@@ -0,0 +1,16 @@
+import { parseCaptions } from '../captions';
+import { SPEAKER_HEADING } from '../segments';
+import { contentLines, countMatching, isWebVtt, parseHeadingTurns } from './helpers';
+import type { TranscriptImporter } from './types';
+
+export const teamsImporter: TranscriptImporter = {
+  id: 'teams',
+  label: 'Microsoft Teams',
+  detect: (content) => {
+    // Teams captions carry speakers as <v Name> voice tags.
+    if (isWebVtt(content)) return content.includes('<v ') ? 0.9 : 0;
+    // Copied or .docx transcripts use "Name   0:03" headings, which Otter shares.
+    return countMatching(contentLines(content), SPEAKER_HEADING) >= 2 ? 0.6 : 0;
+  },
+  parse: (content) => (isWebVtt(content) ? parseCaptions(content) : parseHeadingTurns(content)),
+};
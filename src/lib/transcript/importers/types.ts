@@ -0,0 +1,9 @@
+import type { TranscriptSegment } from '../segments';
+
+export interface TranscriptImporter {
+  id: string;
+  label: string;
+  /** Scores how likely it is that the content came from this source, from 0 to 1. */
+  detect: (content: string) => number;
+  parse: (content: string) => TranscriptSegment[];
+}
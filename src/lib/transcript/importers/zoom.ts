@@ -0,0 +1,57 @@
+import { parseCaptions } from '../captions';
+import type { TranscriptSegment } from '../segments';
+import { parseTimestamp } from '../time';
+import { contentLines, countMatching, isWebVtt } from './helpers';
+import type { TranscriptImporter } from './types';
+
+// Zoom transcript text files: "[Jane Doe] 00:01:02" followed by what was said.
+const TRANSCRIPT_HEADING = /^\[([^\]]{1,80})\]\s+(\d{1,2}:\d{2}:\d{2})$/;
+// Zoom chat exports: "10:02:15 From Jane Doe to Everyone: message".
+const CHAT_LINE = /^(\d{1,2}:\d{2}:\d{2})\s+From\s+(.+?)\s+to\s+.+?:\s*(.*)$/;
+// Zoom cloud recording captions put the speaker in the cue text instead of a <v> tag.
+const CUE_SPEAKER = /^[^<:\s][^<:]{0,59}:\s/;
+
+const parseTextTranscript = (content: string) => {
+  const segments: TranscriptSegment[] = [];
+  let chatStart: number | null = null;
+
+  for (const line of contentLines(content)) {
+    if (!line) continue;
+
+    const heading = TRANSCRIPT_HEADING.exec(line);
+    const chat = CHAT_LINE.exec(line);
+    if (heading) {
+      segments.push({ start: parseTimestamp(heading[2]), end: null, speaker: heading[1].trim(), text: '' });
+    } else if (chat) {
+      // Chat times are wall-clock, so make them relative to the first message.
+      const time = parseTimestamp(chat[1]) ?? 0;
+      chatStart ??= time;
+      segments.push({ start: time - chatStart, end: null, speaker: chat[2].trim(), text: chat[3] });
+    } else if (segments.length > 0) {
+      const current = segments[segments.length - 1];
+      current.text = current.text ? `${current.text} ${line}` : line;
+    }
+  }
+
+  return segments.filter((segment) => segment.text);
+};
+
+export const zoomImporter: TranscriptImporter = {
+  id: 'zoom',
+  label: 'Zoom',
+  detect: (content) => {
+    if (isWebVtt(content)) {
+      if (content.includes('<v ')) return 0;
+      const cueLines = contentLines(content).filter(
+        (line) => line && !line.startsWith('WEBVTT') && !line.includes('-->') && !/^\d+$/.test(line)
+      );
+      return cueLines.length > 1 && countMatching(cueLines, CUE_SPEAKER) / cueLines.length > 0.6 ? 0.85 : 0;
+    }
+
+    const lines = contentLines(content);
+    if (countMatching(lines, TRANSCRIPT_HEADING) > 0) return 0.9;
+    if (countMatching(lines, CHAT_LINE) > 0) return 0.8;
+    return 0;
+  },
+  parse: (content) => (isWebVtt(content) ? parseCaptions(content) : parseTextTranscript(content)),
+};
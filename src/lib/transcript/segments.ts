@@ -0,0 +1,90 @@
+import { formatTimestamp, parseTimestamp } from './time';
+
+/** One speaker turn or caption cue, with times in seconds from the start of the meeting. */
+export interface TranscriptSegment {
+  start: number | null;
+  end: number | null;
+  speaker: string | null;
+  text: string;
+}
+
+/**
+ * A line such as "Jane Doe   0:03" or "Speaker 1\t00:01:23", as written by Teams and Otter
+ * exports, which introduces the speaker of the paragraph that follows it.
+ */
+export const SPEAKER_HEADING =
+  /^((?:\p{Lu}[\p{L}\p{M}'.-]*|\d+)(?:[ \t]+(?:\p{Lu}[\p{L}\p{M}'.-]*|\d+)){0,4})[ \t]+(\d{1,2}:\d{2}(?::\d{2})?)$/u;
+
+const LEADING_TIMESTAMP = /^\[(\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d{1,3})?)\]\s*(.*)$/s;
+// Speaker prefixes: "Jane: hi", ">> Jane: hi", "[Jane] hi".
+const SPEAKER_PREFIX = /^(?:>>\s*)?([^:\s][^:]{0,59}?):\s*(.+)$/s;
+const BRACKET_SPEAKER = /^\[([^\]]{1,60})\]:?\s*(.+)$/s;
+
+/** Splits a leading speaker label off a line of dialogue, if it has one. */
+export const splitSpeaker = (line: string): { speaker: string | null; text: string } => {
+  const bracketed = BRACKET_SPEAKER.exec(line);
+  if (bracketed) return { speaker: bracketed[1].trim(), text: bracketed[2].trim() };
+
+  const prefixed = SPEAKER_PREFIX.exec(line);
+  // Only treat short, name-like prefixes as speakers so ordinary sentences with a colon survive.
+  if (prefixed && prefixed[1].split(/\s+/).length <= 4 && !/[.!?,]/.test(prefixed[1])) {
+    return { speaker: prefixed[1].trim(), text: prefixed[2].trim() };
+  }
+
+  return { speaker: null, text: line.trim() };
+};
+
+/**
+ * Parses transcript text in the "[HH:MM:SS] Speaker: text" layout, where both the timestamp
+ * and the speaker are optional. Unlabelled lines continue the previous speaker's turn.
+ */
+export const parseTranscriptText = (content: string): TranscriptSegment[] => {
+  const segments: TranscriptSegment[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const timestamped = LEADING_TIMESTAMP.exec(line);
+    const start = timestamped ? parseTimestamp(timestamped[1]) : null;
+    const { speaker, text } = splitSpeaker(timestamped ? timestamped[2] : line);
+    if (!text) continue;
+
+    const previous = segments[segments.length - 1];
+    if (!speaker && start === null && previous?.speaker) {
+      previous.text = `${previous.text} ${text}`;
+    } else {
+      segments.push({ start, end: null, speaker, text });
+    }
+  }
+
+  return segments;
+};
+
+/** Renders a segment in the "[HH:MM:SS] Speaker: text" layout used by transcribe-audio. */
+export const formatSegment = (segment: TranscriptSegment) => {
+  const timestamp = segment.start !== null ? `[${formatTimestamp(segment.start)}] ` : '';
+  const speaker = segment.speaker ? `${segment.speaker}: ` : '';
+  return `${timestamp}${speaker}${segment.text}`;
+};
+
+export const formatTranscript = (segments: TranscriptSegment[]) =>
+  segments.map(formatSegment).join('\n');
+
+/** Consecutive segments by the same speaker, shown together as one turn. */
+export interface SpeakerTurn {
+  speaker: string | null;
+  start: number | null;
+  segments: TranscriptSegment[];
+}
+
+export const groupTurns = (segments: TranscriptSegment[]): SpeakerTurn[] =>
+  segments.reduce<SpeakerTurn[]>((turns, segment) => {
+    const previous = turns[turns.length - 1];
+    if (previous && previous.speaker === segment.speaker) {
+      previous.segments.push(segment);
+    } else {
+      turns.push({ speaker: segment.speaker, start: segment.start, segments: [segment] });
+    }
+    return turns;
+  }, []);
@@ -0,0 +1,24 @@
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/** Formats a number of seconds as HH:MM:SS. */
+export const formatTimestamp = (totalSeconds: number) => {
+  const safeSeconds = Math.max(0, Math.floor(totalSeconds));
+  const hours = Math.floor(safeSeconds / 3600);
+  const minutes = Math.floor((safeSeconds % 3600) / 60);
+  const seconds = safeSeconds % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+/** Parses "M:SS", "MM:SS" or "H:MM:SS" (optionally with a fraction) into seconds. */
+export const parseTimestamp = (value: string): number | null => {
+  const match = /^(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, hours, minutes, seconds, fraction] = match;
+  return (
+    Number(hours || 0) * 3600 +
+    Number(minutes) * 60 +
+    Number(seconds) +
+    (fraction ? Number(`0.${fraction}`) : 0)
+  );
+};
@@ -0,0 +1,273 @@
+import JSZip from 'jszip';
+import * as CFB from 'cfb';
+import { formatTimestamp, parseTimestamp } from './time';
+import { SPEAKER_HEADING } from './segments';
+
+const WORD_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const ZIP_MAGIC = [0x50, 0x4b, 0x03, 0x04];
+const OLE_MAGIC = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const TIMESTAMP_CELL = /^\[?\d{1,2}:\d{2}(?::\d{2})?(?:[.,]\d{1,3})?\]?$/;
+const TABLE_HEADER_CELL = /^(speaker|name|time|timestamp|text|transcript|said|comment)s?$/i;
+
+const startsWith = (bytes: Uint8Array, magic: number[]) =>
+  magic.every((value, index) => bytes[index] === value);
+
+const toBytes = (data: ArrayBuffer | Uint8Array | number[]) =>
+  data instanceof Uint8Array ? data : new Uint8Array(data);
+
+const normalizeSpaces = (value: string) =>
+  value.replace(/[ \t\u00a0]+/g, ' ').trim();
+
+/**
+ * Combines a speaker heading line with the paragraph below it and drops empty lines, so
+ * both .doc and .docx exports end up in the "Speaker: text" layout extraction expects.
+ */
+const toTranscriptLines = (lines: string[]) => {
+  const cleaned = lines.map(normalizeSpaces).filter(Boolean);
+  const result: string[] = [];
+
+  for (let i = 0; i < cleaned.length; i++) {
+    const heading = SPEAKER_HEADING.exec(cleaned[i]);
+    const next = cleaned[i + 1];
+
+    if (heading && next && !SPEAKER_HEADING.test(next)) {
+      const seconds = parseTimestamp(heading[2]);
+      const prefix = seconds === null ? '' : `[${formatTimestamp(seconds)}] `;
+      result.push(`${prefix}${heading[1]}: ${next}`);
+      i++;
+    } else {
+      result.push(cleaned[i]);
+    }
+  }
+
+  return result.join('\n');
+};
+
+const tableRowToLine = (cells: string[]) => {
+  const filled = cells.map(normalizeSpaces).filter(Boolean);
+  if (filled.length === 0) return '';
+
+  // Transcript tables are laid out as [time,] speaker, text.
+  if (filled.length === 3 && TIMESTAMP_CELL.test(filled[0])) {
+    const seconds = parseTimestamp(filled[0].replace(/[[\]]/g, ''));
+    const prefix = seconds === null ? '' : `[${formatTimestamp(seconds)}] `;
+    return `${prefix}${filled[1]}: ${filled[2]}`;
+  }
+  if (filled.length === 2 && !TIMESTAMP_CELL.test(filled[0]) && filled[0].length <= 60) {
+    return `${filled[0]}: ${filled[1]}`;
+  }
+
+  return filled.join(' | ');
+};
+
+const isHeaderRow = (cells: string[]) =>
+  cells.length > 1 && cells.every((cell) => TABLE_HEADER_CELL.test(normalizeSpaces(cell)));
+
+const paragraphText = (paragraph: Element) => {
+  let text = '';
+  const walk = (node: Element) => {
+    for (const child of Array.from(node.children)) {
+      if (child.namespaceURI !== WORD_NS) continue;
+      switch (child.localName) {
+        case 't':
+          text += child.textContent ?? '';
+          break;
+        case 'tab':
+          text += '\t';
+          break;
+        case 'br':
+        case 'cr':
+          text += '\n';
+          break;
+        // Tracked deletions and field instructions are not part of the visible text.
+        case 'del':
+        case 'instrText':
+          break;
+        default:
+          walk(child);
+      }
+    }
+  };
+  walk(paragraph);
+  return text;
+};
+
+const collectBlockLines = (container: Element, lines: string[]) => {
+  for (const child of Array.from(container.children)) {
+    if (child.namespaceURI !== WORD_NS) continue;
+
+    if (child.localName === 'p') {
+      lines.push(...paragraphText(child).split('\n'));
+    } else if (child.localName === 'tbl') {
+      const rows = Array.from(child.children).filter(
+        (row) => row.namespaceURI === WORD_NS && row.localName === 'tr'
+      );
+      rows.forEach((row, index) => {
+        const cells = Array.from(row.children)
+          .filter((cell) => cell.namespaceURI === WORD_NS && cell.localName === 'tc')
+          .map((cell) => {
+            const cellLines: string[] = [];
+            collectBlockLines(cell, cellLines);
+            return cellLines.join(' ');
+          });
+        if (index === 0 && isHeaderRow(cells)) return;
+        lines.push(tableRowToLine(cells));
+      });
+    } else if (child.localName === 'sdt' || child.localName === 'sdtContent' || child.localName === 'customXml') {
+      collectBlockLines(child, lines);
+    }
+  }
+};
+
+const parseDocx = async (bytes: Uint8Array) => {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(bytes);
+  } catch {
+    throw new Error('This Word document is damaged and could not be opened.');
+  }
+
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) {
+    throw new Error('This file is not a Word document (word/document.xml is missing).');
+  }
+
+  const xml = new DOMParser().parseFromString(documentXml, 'application/xml');
+  const body = xml.getElementsByTagNameNS(WORD_NS, 'body')[0];
+  if (xml.getElementsByTagName('parsererror').length > 0 || !body) {
+    throw new Error('This Word document is damaged and could not be read.');
+  }
+
+  const lines: string[] = [];
+  collectBlockLines(body, lines);
+  return toTranscriptLines(lines);
+};
+
+const readUint16 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+/* eslint-disable no-control-regex -- the binary format marks fields, cells and breaks with control characters */
+/** Replaces Word 97 control characters in the main text stream with plain-text equivalents. */
+const cleanBinaryText = (raw: string) => {
+  // Field codes are stored as \x13 instruction \x14 result \x15; keep only the result.
+  const withoutFields = raw
+    .replace(/\x13[^\x13\x14\x15]*\x14([^\x13\x15]*)\x15/g, '$1')
+    .replace(/\x13[^\x13\x14\x15]*\x15/g, '');
+
+  return withoutFields
+    .replace(/\x07\r?\x07/g, '\n') // end of table row; remaining \x07 marks separate cells
+    .replace(/[\r\x0b\x0c]/g, '\n')
+    .replace(/\x1e/g, '-')
+    .replace(/[\x00-\x06\x08\x0e-\x1f]/g, '');
+};
+/* eslint-enable no-control-regex */
+
+const parseBinaryDoc = (wordStream: Uint8Array, container: CFB.CFB$Container) => {
+  if (readUint16(wordStream, 0) !== 0xa5ec) {
+    throw new Error('This .doc file is not a Word 97-2003 document.');
+  }
+
+  const flags = readUint16(wordStream, 0x0a);
+  if (flags & 0x0100) {
+    throw new Error('This document is password-protected. Remove the password in Word and upload it again.');
+  }
+
+  // The FIB is a sequence of variable-length arrays; walk them to find ccpText and fcClx.
+  const csw = readUint16(wordStream, 32);
+  const lwOffset = 34 + csw * 2 + 2;
+  const cslw = readUint16(wordStream, lwOffset - 2);
+  const ccpText = readUint32(wordStream, lwOffset + 3 * 4);
+  const fcLcbOffset = lwOffset + cslw * 4 + 2;
+  const fcClx = readUint32(wordStream, fcLcbOffset + 33 * 8);
+  const lcbClx = readUint32(wordStream, fcLcbOffset + 33 * 8 + 4);
+
+  const tableName = flags & 0x0200 ? '1Table' : '0Table';
+  const tableEntry = CFB.find(container, tableName);
+  if (!tableEntry || lcbClx === 0) {
+    throw new Error('This .doc file is damaged and could not be read.');
+  }
+  const tableStream = toBytes(tableEntry.content);
+
+  let pos = fcClx;
+  while (tableStream[pos] === 0x01) {
+    pos += 3 + readUint16(tableStream, pos + 1);
+  }
+  if (tableStream[pos] !== 0x02) {
+    throw new Error('This .doc file is damaged and could not be read.');
+  }
+
+  const lcbPlcPcd = readUint32(tableStream, pos + 1);
+  const plcPcd = pos + 5;
+  const pieceCount = (lcbPlcPcd - 4) / 12;
+  const cp1252 = new TextDecoder('windows-1252');
+  const utf16 = new TextDecoder('utf-16le');
+  let text = '';
+
+  for (let i = 0; i < pieceCount; i++) {
+    const cpStart = readUint32(tableStream, plcPcd + i * 4);
+    const cpEnd = Math.min(readUint32(tableStream, plcPcd + (i + 1) * 4), ccpText);
+    if (cpStart >= cpEnd) continue;
+
+    const fcValue = readUint32(tableStream, plcPcd + (pieceCount + 1) * 4 + i * 8 + 2);
+    const length = cpEnd - cpStart;
+    if (fcValue & 0x40000000) {
+      const offset = (fcValue & 0x3fffffff) / 2;
+      text += cp1252.decode(wordStream.subarray(offset, offset + length));
+    } else {
+      text += utf16.decode(wordStream.subarray(fcValue, fcValue + length * 2));
+    }
+  }
+
+  const lines = cleanBinaryText(text)
+    .split('\n')
+    .map((line) => (line.includes('\x07') ? tableRowToLine(line.split('\x07')) : line));
+  return toTranscriptLines(lines);
+};
+
+const parseOleDocument = (bytes: Uint8Array) => {
+  let container: CFB.CFB$Container;
+  try {
+    container = CFB.read(bytes, { type: 'array' });
+  } catch {
+    throw new Error('This Word document is damaged and could not be opened.');
+  }
+
+  // Encrypted .docx files are wrapped in an OLE container holding the encrypted package.
+  if (CFB.find(container, 'EncryptedPackage') || CFB.find(container, 'EncryptionInfo')) {
+    throw new Error('This document is password-protected. Remove the password in Word and upload it again.');
+  }
+
+  const wordStream = CFB.find(container, 'WordDocument');
+  if (!wordStream) {
+    throw new Error('This file is not a Word document.');
+  }
+
+  return parseBinaryDoc(toBytes(wordStream.content), container);
+};
+
+/**
+ * Extracts transcript text from a .docx or legacy .doc file. Paragraphs become lines, table
+ * rows become "Speaker: text" lines where they look like a transcript table, and
+ * unreadable or password-protected documents are rejected with a user-facing error.
+ */
+export async function parseWordDocument(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const bytes = toBytes(data);
+  let text: string;
+
+  if (startsWith(bytes, ZIP_MAGIC)) {
+    text = await parseDocx(bytes);
+  } else if (startsWith(bytes, OLE_MAGIC)) {
+    text = parseOleDocument(bytes);
+  } else {
+    throw new Error('This file is not a valid Word document.');
+  }
+
+  if (!text.trim()) {
+    throw new Error('This Word document does not contain any text.');
+  }
+
+  return text;
+}
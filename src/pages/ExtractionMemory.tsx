@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Header } from '@/components/layout/Header';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  FEEDBACK_FIELDS,
+  FEEDBACK_KIND_LABELS,
+  readFeedbackValues,
+  type ExtractionFeedback,
+  type FeedbackKind,
+} from '@/lib/extractionFeedback';
+import { formatDistanceToNow } from 'date-fns';
+import { ArrowLeft, ExternalLink, Loader2, Trash2 } from 'lucide-react';
+
+const FIELD_LABELS: Record<(typeof FEEDBACK_FIELDS)[number], string> = {
+  action_item: 'Action item',
+  owner: 'Owner',
+  owner_email: 'Email',
+  deadline_phrase: 'Deadline',
+  priority: 'Priority',
+};
+
+const KIND_STYLES: Record<FeedbackKind, string> = {
+  edit: 'bg-primary/10 text-primary border-primary/30',
+  delete: 'bg-destructive/10 text-destructive border-destructive/30',
+  confirm: 'bg-success/10 text-success border-success/30',
+};
+
+export default function ExtractionMemory() {
+  const { user, loading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const [entries, setEntries] = useState<ExtractionFeedback[]>([]);
+  const [kindFilter, setKindFilter] = useState<FeedbackKind | 'all'>('all');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    if (!loading && !user) {
+      navigate('/auth');
+    }
+  }, [user, loading, navigate]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    // Teammates' corrections are used too, but only the user's own are theirs to prune
+    supabase
+      .from('extraction_feedback')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false })
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading extraction feedback:', error);
+        setEntries(data ?? []);
+        setIsLoading(false);
+      });
+  }, [user]);
+
+  const visibleEntries = useMemo(
+    () => (kindFilter === 'all' ? entries : entries.filter((entry) => entry.kind === kindFilter)),
+    [entries, kindFilter]
+  );
+
+  const handleDelete = async (entry: ExtractionFeedback) => {
+    const { error } = await supabase.from('extraction_feedback').delete().eq('id', entry.id);
+    if (error) {
+      console.error('Error deleting extraction feedback:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to forget this example.',
+      });
+      return;
+    }
+    setEntries((prev) => prev.filter((existing) => existing.id !== entry.id));
+  };
+
+  const handleClear = async () => {
+    if (!user) return;
+
+    setIsClearing(true);
+    const ids = visibleEntries.map((entry) => entry.id);
+    const { error } = await supabase.from('extraction_feedback').delete().in('id', ids);
+    setIsClearing(false);
+
+    if (error) {
+      console.error('Error clearing extraction feedback:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: 'Failed to clear the examples.',
+      });
+      return;
+    }
+    setEntries((prev) => prev.filter((entry) => !ids.includes(entry.id)));
+    toast({
+      title: 'Examples cleared',
+      description: `${ids.length} example${ids.length === 1 ? '' : 's'} will no longer be used.`,
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="h-8 w-8 animate-spin rounded-full border-4 border-primary border-t-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <main className="container max-w-3xl py-8">
+        <Link
+          to="/settings"
+          className="mb-6 inline-flex items-center text-sm text-muted-foreground hover:text-foreground"
+        >
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Settings
+        </Link>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold">Extraction Memory</h1>
+          <p className="text-muted-foreground">
+            When you correct, confirm or delete an extracted action item, the change is remembered here.
+            The examples most like a new meeting are shown to the AI when it extracts that meeting.
+            Remove any that teach the wrong lesson.
+          </p>
+        </div>
+
+        <div className="mb-4 flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-2">
+            {(['all', 'edit', 'delete', 'confirm'] as const).map((kind) => (
+              <Button
+                key={kind}
+                variant={kindFilter === kind ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => setKindFilter(kind)}
+              >
+                {kind === 'all' ? 'All' : FEEDBACK_KIND_LABELS[kind]}
+              </Button>
+            ))}
+          </div>
+          {visibleEntries.length > 0 && (
+            <Button variant="outline" size="sm" onClick={handleClear} disabled={isClearing}>
+              {isClearing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Clear {kindFilter === 'all' ? 'all' : 'these'}
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : visibleEntries.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">
+            No examples yet. They are collected as you review action items.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {visibleEntries.map((entry) => {
+              const kind = entry.kind as FeedbackKind;
+              const original = readFeedbackValues(entry.original);
+              const corrected = readFeedbackValues(entry.corrected);
+              const changedFields =
+                kind === 'edit'
+                  ? FEEDBACK_FIELDS.filter((field) => (original[field] ?? null) !== (corrected[field] ?? null))
+                  : [];
+
+              return (
+                <Card key={entry.id}>
+                  <CardContent className="space-y-3 pt-6">
+                    <div className="flex items-start justify-between gap-4">
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-muted-foreground">
+                        <Badge variant="outline" className={cn(KIND_STYLES[kind])}>
+                          {FEEDBACK_KIND_LABELS[kind]}
+                        </Badge>
+                        <span>{formatDistanceToNow(new Date(entry.updated_at), { addSuffix: true })}</span>
+                        {entry.meeting_id && (
+                          <Link
+                            to={`/meeting/${entry.meeting_id}`}
+                            className="inline-flex items-center gap-1 text-primary hover:underline"
+                          >
+                            Meeting
+                            <ExternalLink className="h-3 w-3" />
+                          </Link>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() => handleDelete(entry)}
+                        aria-label="Forget this example"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    <blockquote className="whitespace-pre-line border-l-2 pl-3 text-sm text-muted-foreground">
+                      {entry.excerpt}
+                    </blockquote>
+
+                    <p className={cn('text-sm font-medium', kind === 'delete' && 'line-through')}>
+                      {original.action_item}
+                    </p>
+
+                    {changedFields.length > 0 && (
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+                        {changedFields.map((field) => (
+                          <div key={field} className="contents">
+                            <dt className="text-muted-foreground">{FIELD_LABELS[field]}</dt>
+                            <dd>
+                              <span className="text-muted-foreground line-through">{original[field] || '—'}</span>
+                              {' → '}
+                              {corrected[field] || '—'}
+                            </dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
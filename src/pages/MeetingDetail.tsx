@@ -1,16 +1,71 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Link, useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { Header } from '@/components/layout/Header';
 import { ActionItemsTable } from '@/components/meeting/ActionItemsTable';
 import { ExportPanel } from '@/components/meeting/ExportPanel';
+import { TranscriptView } from '@/components/meeting/TranscriptView';
+import { AudioPlayer, type AudioPlayerHandle } from '@/components/meeting/AudioPlayer';
+import { SpeakerMappingPanel } from '@/components/meeting/SpeakerMappingPanel';
+import { ReextractDialog, type ReextractSelection } from '@/components/meeting/ReextractDialog';
+import { MeetingInsights } from '@/components/meeting/MeetingInsights';
+import { MeetingSummary } from '@/components/meeting/MeetingSummary';
+import { ProcessingTimeline } from '@/components/meeting/ProcessingTimeline';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useToast } from '@/hooks/use-toast';
-import { ArrowLeft, Calendar, FileText, AlertTriangle } from 'lucide-react';
+import { parseAttendees, formatAttendee } from '@/lib/meetingMetadata';
+import {
+  extractActionItems,
+  previewExtraction,
+  startProcessingJob,
+  summarizeMeeting,
+  type Extractor,
+} from '@/lib/meetingPipeline';
+import {
+  followProcessingJob,
+  isJobFinished,
+  type ProcessingJob,
+  type ProcessingStep,
+} from '@/lib/processingJobs';
+import { languageName } from '@/lib/languages';
+import { formatTranscript, parseTranscriptText, type TranscriptSegment } from '@/lib/transcript/segments';
+import { findCitedSegment } from '@/lib/transcript/citations';
+import type { MeetingInsight } from '@/lib/meetingInsights';
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE_ID } from '@/lib/meetingTemplates';
+import {
+  feedbackExcerpt,
+  feedbackValues,
+  nextFeedbackKind,
+  touchesFeedbackFields,
+  type FeedbackKind,
+  type FeedbackValues,
+} from '@/lib/extractionFeedback';
+import {
+  applySpeakerMap,
+  detectSpeakers,
+  parseSpeakerMap,
+  speakerMapToJson,
+  type SpeakerMap,
+} from '@/lib/speakerMap';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  ArrowLeft,
+  Calendar,
+  Clock,
+  FileText,
+  Languages,
+  LayoutTemplate,
+  Users,
+  AlertTriangle,
+  Loader2,
+  RefreshCw,
+  RotateCcw,
+  ShieldCheck,
+} from 'lucide-react';
 import { format } from 'date-fns';
 
 interface ActionItem {
@@ -18,21 +73,46 @@ interface ActionItem {
   action_item: string;
   owner: string | null;
   owner_email: string | null;
+  owner_candidates: Json;
   deadline: string | null;
+  deadline_phrase: string | null;
+  extra: Json;
+  original_action_item: string | null;
+  original_notes: string | null;
   priority: 'Low' | 'Medium' | 'High';
   status: 'Open' | 'In Progress' | 'Done';
   confidence: number;
   notes: string | null;
   jira_issue_key: string | null;
+  source_chunks: number[];
+  source_quote: string | null;
+  source_start: number | null;
+  source_end: number | null;
+  source_timestamp: number | null;
+  edited_fields: string[];
 }
 
 interface Meeting {
   id: string;
   title: string;
   meeting_date: string;
+  duration_minutes: number | null;
+  attendees: Json;
+  speaker_map: Json;
   transcript: string | null;
   audio_url: string | null;
+  audio_path: string | null;
   processed_at: string | null;
+  extraction_status: string;
+  extraction_error: string | null;
+  summary: string | null;
+  summary_key_points: string[];
+  summary_generated_at: string | null;
+  extractor: string;
+  extracted_with: string | null;
+  template: string;
+  language: string | null;
+  translate_to: string | null;
 }
 
 export default function MeetingDetail() {
@@ -43,8 +123,19 @@ export default function MeetingDetail() {
 
   const [meeting, setMeeting] = useState<Meeting | null>(null);
   const [actionItems, setActionItems] = useState<ActionItem[]>([]);
+  const [transcriptSegments, setTranscriptSegments] = useState<TranscriptSegment[]>([]);
+  const [insights, setInsights] = useState<MeetingInsight[]>([]);
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const audioPlayerRef = useRef<AudioPlayerHandle>(null);
+  const transcriptCardRef = useRef<HTMLDivElement>(null);
+  const [citedItemId, setCitedItemId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
+  const [isRetryingExtraction, setIsRetryingExtraction] = useState(false);
+  const [isReextractOpen, setIsReextractOpen] = useState(false);
+  const [processingJobId, setProcessingJobId] = useState<string | null>(null);
+  const [processing, setProcessing] = useState<{ job: ProcessingJob; steps: ProcessingStep[] } | null>(null);
+  const [isResumingProcessing, setIsResumingProcessing] = useState(false);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -59,6 +150,21 @@ export default function MeetingDetail() {
     }
   }, [user, id]);
 
+  // The poller outlives renders, so it reloads through the latest fetchMeetingData
+  const fetchMeetingDataRef = useRef<() => Promise<void>>();
+
+  useEffect(() => {
+    if (!processingJobId) return;
+
+    let wasRunning = false;
+    return followProcessingJob(processingJobId, (state) => {
+      setProcessing(state);
+      // Pick up the transcript, summary and language the job's steps saved
+      if (wasRunning && isJobFinished(state.job)) fetchMeetingDataRef.current?.();
+      wasRunning = !isJobFinished(state.job);
+    });
+  }, [processingJobId]);
+
   const fetchMeetingData = async () => {
     if (!user || !id) return;
 
@@ -83,6 +189,45 @@ export default function MeetingDetail() {
 
       if (itemsError) throw itemsError;
       setActionItems(itemsData || []);
+
+      // Fetch decisions, risks and open questions
+      const { data: insightsData, error: insightsError } = await supabase
+        .from('meeting_insights')
+        .select('*')
+        .eq('meeting_id', id)
+        .order('position', { ascending: true });
+
+      if (insightsError) throw insightsError;
+      setInsights(insightsData || []);
+
+      // The latest processing job, whose timeline is followed below
+      const { data: jobData, error: jobError } = await supabase
+        .from('processing_jobs')
+        .select('id')
+        .eq('meeting_id', id)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (jobError) throw jobError;
+      setProcessingJobId(jobData?.id ?? null);
+
+      // Fetch transcript segments
+      const { data: segmentsData, error: segmentsError } = await supabase
+        .from('transcript_segments')
+        .select('*')
+        .eq('meeting_id', id)
+        .order('position', { ascending: true });
+
+      if (segmentsError) throw segmentsError;
+      setTranscriptSegments(
+        (segmentsData || []).map((segment) => ({
+          start: segment.start_seconds,
+          end: segment.end_seconds,
+          speaker: segment.speaker,
+          text: segment.text,
+        }))
+      );
     } catch (error) {
       console.error('Error fetching meeting:', error);
       toast({
@@ -95,6 +240,7 @@ export default function MeetingDetail() {
       setIsLoading(false);
     }
   };
+  fetchMeetingDataRef.current = fetchMeetingData;
 
   const setupRealtimeSubscription = () => {
     if (!id) return;
@@ -119,7 +265,9 @@ export default function MeetingDetail() {
           } else if (payload.eventType === 'DELETE') {
             setActionItems((prev) => prev.filter((item) => item.id !== payload.old.id));
           } else if (payload.eventType === 'INSERT') {
-            setActionItems((prev) => [...prev, payload.new as ActionItem]);
+            setActionItems((prev) =>
+              prev.some((item) => item.id === payload.new.id) ? prev : [...prev, payload.new as ActionItem]
+            );
           }
         }
       )
@@ -130,19 +278,67 @@ export default function MeetingDetail() {
     };
   };
 
+  // Reviewer corrections are kept as examples for later extractions. Failing to record one
+  // shouldn't get in the way of the review itself, so errors are only logged.
+  const recordFeedback = async (item: ActionItem, kind: FeedbackKind, corrected: FeedbackValues | null) => {
+    if (!meeting || !user) return;
+
+    try {
+      const { data: existing, error: lookupError } = await supabase
+        .from('extraction_feedback')
+        .select('id, kind')
+        .eq('action_item_id', item.id)
+        .maybeSingle();
+      if (lookupError) throw lookupError;
+
+      if (existing) {
+        const { error } = await supabase
+          .from('extraction_feedback')
+          .update({ kind: nextFeedbackKind(existing.kind, kind), corrected })
+          .eq('id', existing.id);
+        if (error) throw error;
+        return;
+      }
+
+      const excerpt = feedbackExcerpt(meeting.transcript, item);
+      if (!excerpt) return;
+
+      const { error } = await supabase.from('extraction_feedback').insert({
+        user_id: user.id,
+        meeting_id: meeting.id,
+        action_item_id: item.id,
+        kind,
+        excerpt,
+        original: feedbackValues(item),
+        corrected,
+      });
+      if (error) throw error;
+    } catch (error) {
+      console.error('Error recording extraction feedback:', error);
+    }
+  };
+
   const handleUpdateItem = async (itemId: string, updates: Partial<ActionItem>) => {
     try {
+      // Remember hand-edited fields so re-extraction leaves them alone
+      const item = actionItems.find((existing) => existing.id === itemId);
+      const edited_fields = Array.from(new Set([...(item?.edited_fields ?? []), ...Object.keys(updates)]));
+
       const { error } = await supabase
         .from('action_items')
-        .update(updates)
+        .update({ ...updates, edited_fields })
         .eq('id', itemId);
 
       if (error) throw error;
 
       // Optimistic update
       setActionItems((prev) =>
-        prev.map((item) => (item.id === itemId ? { ...item, ...updates } : item))
+        prev.map((item) => (item.id === itemId ? { ...item, ...updates, edited_fields } : item))
       );
+
+      if (item && touchesFeedbackFields(updates)) {
+        await recordFeedback(item, 'edit', feedbackValues({ ...item, ...updates }));
+      }
     } catch (error) {
       console.error('Error updating item:', error);
       toast({
@@ -153,11 +349,359 @@ export default function MeetingDetail() {
     }
   };
 
+  const handleConfirmItem = async (item: ActionItem) => {
+    await handleUpdateItem(item.id, { confidence: 1 });
+    await recordFeedback(item, 'confirm', feedbackValues(item));
+  };
+
+  const handleDeleteItem = async (item: ActionItem) => {
+    // Recorded first, while the feedback can still be found by the item's id
+    await recordFeedback(item, 'delete', null);
+
+    const { error } = await supabase.from('action_items').delete().eq('id', item.id);
+    if (error) {
+      console.error('Error deleting item:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Delete failed',
+        description: 'Failed to delete action item.',
+      });
+      return;
+    }
+
+    setActionItems((prev) => prev.filter((existing) => existing.id !== item.id));
+    setSelectedItems((prev) => prev.filter((id) => id !== item.id));
+    toast({
+      title: 'Action item deleted',
+      description: 'Future extractions will learn that this was not an action item.',
+    });
+  };
+
   const lowConfidenceCount = useMemo(
     () => actionItems.filter((item) => item.confidence < 0.7).length,
     [actionItems]
   );
 
+  const attendees = useMemo(() => parseAttendees(meeting?.attendees), [meeting]);
+
+  // Meetings processed before segments were stored only have the flat transcript
+  const displaySegments = useMemo(
+    () =>
+      transcriptSegments.length > 0 || !meeting?.transcript
+        ? transcriptSegments
+        : parseTranscriptText(meeting.transcript),
+    [transcriptSegments, meeting]
+  );
+
+  const speakerMap = useMemo(() => parseSpeakerMap(meeting?.speaker_map), [meeting]);
+  const speakers = useMemo(() => detectSpeakers(displaySegments), [displaySegments]);
+  const mappedSegments = useMemo(() => applySpeakerMap(displaySegments, speakerMap), [displaySegments, speakerMap]);
+
+  const handleApplyReextraction = async ({
+    added,
+    changed,
+    vanished,
+    insights: newInsights,
+    extractedWith,
+    language,
+  }: ReextractSelection) => {
+    if (!meeting || !user) return;
+
+    try {
+      if (added.length > 0) {
+        const { error } = await supabase
+          .from('action_items')
+          .insert(added.map((item) => ({ ...item, meeting_id: meeting.id, user_id: user.id, status: 'Open' as const })));
+        if (error) throw error;
+      }
+
+      for (const { item, updates } of changed) {
+        if (Object.keys(updates).length === 0) continue;
+        const { error } = await supabase.from('action_items').update(updates).eq('id', item.id);
+        if (error) throw error;
+      }
+
+      if (vanished.length > 0) {
+        const { error } = await supabase
+          .from('action_items')
+          .delete()
+          .in('id', vanished.map((item) => item.id));
+        if (error) throw error;
+      }
+
+      // Questions already turned into action items stay; the rest are replaced
+      const { error: clearError } = await supabase
+        .from('meeting_insights')
+        .delete()
+        .eq('meeting_id', meeting.id)
+        .is('action_item_id', null);
+      if (clearError) throw clearError;
+
+      if (newInsights.length > 0) {
+        const { error } = await supabase
+          .from('meeting_insights')
+          .insert(newInsights.map((insight) => ({ ...insight, meeting_id: meeting.id, user_id: user.id })));
+        if (error) throw error;
+      }
+
+      const { error: meetingError } = await supabase
+        .from('meetings')
+        .update({
+          extraction_status: 'completed',
+          extraction_error: null,
+          extracted_with: extractedWith,
+          language,
+          processed_at: new Date().toISOString(),
+        })
+        .eq('id', meeting.id);
+      if (meetingError) throw meetingError;
+
+      await fetchMeetingData();
+      toast({
+        title: 'Action items updated',
+        description: `${added.length} added, ${changed.length} updated, ${vanished.length} removed.`,
+      });
+    } catch (error) {
+      console.error('Error applying re-extraction:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Update failed',
+        description: 'Failed to apply the re-extracted action items.',
+      });
+      throw error;
+    }
+  };
+
+  const handleSaveSummary = async (summary: string, keyPoints: string[]) => {
+    if (!meeting) return;
+
+    const { error } = await supabase
+      .from('meetings')
+      .update({ summary, summary_key_points: keyPoints })
+      .eq('id', meeting.id);
+
+    if (error) {
+      console.error('Error saving summary:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Update failed',
+        description: 'Failed to save the summary.',
+      });
+      throw error;
+    }
+
+    setMeeting({ ...meeting, summary, summary_key_points: keyPoints });
+  };
+
+  const handleRegenerateSummary = async () => {
+    if (!meeting) return;
+
+    try {
+      const { summary, keyPoints, generatedAt } = await summarizeMeeting(meeting.id, meeting.summary_generated_at);
+      setMeeting({ ...meeting, summary, summary_key_points: keyPoints, summary_generated_at: generatedAt });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Summary failed',
+        description: error instanceof Error ? error.message : 'Summarizing the meeting failed.',
+      });
+    }
+  };
+
+  const handleConvertQuestion = async (insight: MeetingInsight) => {
+    if (!meeting || !user) return;
+
+    try {
+      const { data: item, error } = await supabase
+        .from('action_items')
+        .insert({
+          meeting_id: meeting.id,
+          user_id: user.id,
+          action_item: insight.text,
+          owner: insight.owner,
+          priority: 'Medium',
+          status: 'Open',
+          confidence: 1,
+          notes: 'Open question from the meeting',
+          source_chunks: insight.source_chunks,
+          source_quote: insight.source_quote,
+          source_start: insight.source_start,
+          source_end: insight.source_end,
+          source_timestamp: insight.source_timestamp,
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+
+      const { error: linkError } = await supabase
+        .from('meeting_insights')
+        .update({ action_item_id: item.id })
+        .eq('id', insight.id);
+
+      if (linkError) throw linkError;
+
+      setActionItems((prev) => (prev.some((existing) => existing.id === item.id) ? prev : [...prev, item as ActionItem]));
+      setInsights((prev) =>
+        prev.map((existing) => (existing.id === insight.id ? { ...existing, action_item_id: item.id } : existing))
+      );
+      toast({
+        title: 'Action item created',
+        description: insight.text,
+      });
+    } catch (error) {
+      console.error('Error converting question:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Update failed',
+        description: 'Failed to create an action item from the question.',
+      });
+    }
+  };
+
+  const citedItem = actionItems.find((item) => item.id === citedItemId) ?? null;
+  const citedIndex = useMemo(
+    () =>
+      citedItem
+        ? findCitedSegment(mappedSegments, { quote: citedItem.source_quote, timestamp: citedItem.source_timestamp })
+        : null,
+    [citedItem, mappedSegments]
+  );
+
+  const handleShowSource = (item: ActionItem) => {
+    const index = findCitedSegment(mappedSegments, { quote: item.source_quote, timestamp: item.source_timestamp });
+    if (index === null) {
+      toast({
+        title: 'Passage not found',
+        description: 'The quoted passage could not be found in the transcript.',
+      });
+      return;
+    }
+
+    setCitedItemId(item.id);
+    transcriptCardRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  const handleCitationBack = () => {
+    if (!citedItemId) return;
+    document.getElementById(`action-item-${citedItemId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleSaveSpeakerMap = async (map: SpeakerMap) => {
+    if (!meeting) return;
+
+    try {
+      const { error } = await supabase
+        .from('meetings')
+        .update({ speaker_map: speakerMapToJson(map) })
+        .eq('id', meeting.id);
+
+      if (error) throw error;
+
+      // Re-point action items owned by a label, or by the person it was previously mapped to
+      const labels = new Set([...Object.keys(speakerMap), ...Object.keys(map)]);
+      const reassignments = Array.from(labels).flatMap((label) => {
+        const previous = speakerMap[label];
+        const next = map[label];
+        if (previous?.name === next?.name && previous?.email === next?.email) return [];
+        return [{
+          owners: [label, ...(previous ? [previous.name] : [])],
+          owner: next?.name ?? label,
+          owner_email: next?.email ?? null,
+        }];
+      });
+
+      // Counted as hand-edited owners, so re-extracting the unmapped transcript doesn't put the labels back
+      const reassignedItems = actionItems.flatMap((item) => {
+        const reassignment = reassignments.find(({ owners }) => item.owner && owners.includes(item.owner));
+        if (!reassignment) return [];
+        const edited_fields = Array.from(new Set([...(item.edited_fields ?? []), 'owner', 'owner_email']));
+        return [{ id: item.id, owner: reassignment.owner, owner_email: reassignment.owner_email, edited_fields }];
+      });
+
+      for (const { id: itemId, ...updates } of reassignedItems) {
+        const { error: itemError } = await supabase.from('action_items').update(updates).eq('id', itemId);
+        if (itemError) throw itemError;
+      }
+
+      setMeeting({ ...meeting, speaker_map: speakerMapToJson(map) });
+      setActionItems((prev) =>
+        prev.map((item) => {
+          const reassigned = reassignedItems.find(({ id: itemId }) => itemId === item.id);
+          return reassigned ? { ...item, ...reassigned } : item;
+        })
+      );
+
+      toast({
+        title: 'Speakers updated',
+        description: 'The transcript and action item owners now use these names.',
+      });
+    } catch (error) {
+      console.error('Error saving speaker map:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Update failed',
+        description: 'Failed to save speaker names.',
+      });
+    }
+  };
+
+  const handleRetryExtraction = async () => {
+    if (!meeting?.transcript) return;
+
+    setIsRetryingExtraction(true);
+    try {
+      const { actionItemCount, error, fallbackReason, translationError } = await extractActionItems({
+        meetingId: meeting.id,
+        transcript: meeting.transcript,
+        meetingDate: meeting.meeting_date,
+        attendees,
+        extractor: meeting.extractor as Extractor,
+        template: meeting.template,
+        translateTo: meeting.translate_to,
+      });
+
+      if (error) {
+        setMeeting({ ...meeting, extraction_status: 'failed', extraction_error: error });
+        toast({
+          variant: 'destructive',
+          title: 'Extraction failed',
+          description: error,
+        });
+        return;
+      }
+
+      await fetchMeetingData();
+      toast({
+        title: fallbackReason ? 'Extracted without AI' : translationError ? 'Not translated' : 'Success!',
+        description: fallbackReason
+          ? `${fallbackReason} Found ${actionItemCount} action items with the offline rules instead.`
+          : translationError
+            ? `Extracted ${actionItemCount} action items, but they are in the meeting's language: ${translationError}`
+            : `Extracted ${actionItemCount} action items.`,
+      });
+    } finally {
+      setIsRetryingExtraction(false);
+    }
+  };
+
+  const handleResumeProcessing = async () => {
+    if (!processing) return;
+
+    setIsResumingProcessing(true);
+    try {
+      await startProcessingJob(processing.job.id, processing.job.updated_at);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Resume failed',
+        description: error instanceof Error ? error.message : 'Processing could not be resumed.',
+      });
+    } finally {
+      setIsResumingProcessing(false);
+    }
+  };
+
   if (loading || isLoading) {
     return (
       <div className="min-h-screen bg-background">
@@ -203,22 +747,126 @@ export default function MeetingDetail() {
               <div className="mt-2 flex flex-wrap items-center gap-3 text-sm text-muted-foreground">
                 <span className="flex items-center gap-1">
                   <Calendar className="h-4 w-4" />
-                  {format(new Date(meeting.meeting_date), 'MMMM d, yyyy')}
+                  {format(new Date(meeting.meeting_date), 'MMMM d, yyyy h:mm a')}
                 </span>
+                {meeting.duration_minutes && (
+                  <span className="flex items-center gap-1">
+                    <Clock className="h-4 w-4" />
+                    {meeting.duration_minutes} min
+                  </span>
+                )}
+                {attendees.length > 0 && (
+                  <span
+                    className="flex items-center gap-1"
+                    title={attendees.map(formatAttendee).join('\n')}
+                  >
+                    <Users className="h-4 w-4" />
+                    {attendees.map((attendee) => attendee.name).join(', ')}
+                  </span>
+                )}
                 <span className="flex items-center gap-1">
                   <FileText className="h-4 w-4" />
                   {actionItems.length} action items
                 </span>
+                {meeting.template !== DEFAULT_TEMPLATE_ID && (
+                  <span className="flex items-center gap-1">
+                    <LayoutTemplate className="h-4 w-4" />
+                    {BUILT_IN_TEMPLATES.find((template) => template.id === meeting.template)?.name ?? 'Custom template'}
+                  </span>
+                )}
+                {meeting.language && (
+                  <span className="flex items-center gap-1">
+                    <Languages className="h-4 w-4" />
+                    {languageName(meeting.language)}
+                    {meeting.translate_to &&
+                      meeting.translate_to !== meeting.language &&
+                      ` → ${languageName(meeting.translate_to)}`}
+                  </span>
+                )}
               </div>
             </div>
-            <ExportPanel
-              actionItems={actionItems}
-              selectedItems={selectedItems}
-              meetingTitle={meeting.title}
-              meetingId={meeting.id}
-            />
+            <div className="flex flex-wrap items-center gap-2">
+              {meeting.transcript && (
+                <Button variant="outline" onClick={() => setIsReextractOpen(true)}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Re-extract
+                </Button>
+              )}
+              <ExportPanel
+                actionItems={actionItems}
+                selectedItems={selectedItems}
+                meetingTitle={meeting.title}
+                meetingId={meeting.id}
+                meetingDate={meeting.meeting_date}
+                insights={insights}
+                summary={meeting.summary}
+                keyPoints={meeting.summary_key_points}
+                transcript={Object.keys(speakerMap).length > 0 ? formatTranscript(mappedSegments) : meeting.transcript}
+              />
+            </div>
           </div>
 
+          {meeting.transcript && (
+            <ReextractDialog
+              open={isReextractOpen}
+              onOpenChange={setIsReextractOpen}
+              items={actionItems}
+              loadPreview={() =>
+                previewExtraction({
+                  meetingId: meeting.id,
+                  transcript: meeting.transcript!,
+                  meetingDate: meeting.meeting_date,
+                  attendees,
+                  extractor: meeting.extractor as Extractor,
+                  template: meeting.template,
+                  translateTo: meeting.translate_to,
+                })
+              }
+              onApply={handleApplyReextraction}
+            />
+          )}
+
+          {processing && processing.job.status !== 'completed' && (
+            <ProcessingTimeline
+              job={processing.job}
+              steps={processing.steps}
+              onResume={handleResumeProcessing}
+              isResuming={isResumingProcessing}
+            />
+          )}
+
+          {/* A failed job is resumed from its timeline instead */}
+          {meeting.extraction_status === 'failed' && processing?.job.status !== 'failed' && (
+            <div className="mt-4 flex flex-col gap-3 rounded-lg border border-destructive/50 bg-destructive/10 p-3 text-sm sm:flex-row sm:items-center">
+              <AlertTriangle className="h-4 w-4 shrink-0 text-destructive" />
+              <span className="flex-1">
+                Action items could not be extracted from this meeting
+                {meeting.extraction_error && `: ${meeting.extraction_error}`}
+              </span>
+              {meeting.transcript && (
+                <Button size="sm" variant="outline" onClick={handleRetryExtraction} disabled={isRetryingExtraction}>
+                  {isRetryingExtraction ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                  )}
+                  Retry Extraction
+                </Button>
+              )}
+            </div>
+          )}
+
+          {meeting.extracted_with === 'offline' && meeting.extraction_status === 'completed' && (
+            <div className="mt-4 flex items-center gap-2 rounded-lg border p-3 text-sm text-muted-foreground">
+              <ShieldCheck className="h-4 w-4 shrink-0" />
+              <span>
+                {meeting.extractor === 'offline'
+                  ? 'Action items were found by offline rules; this meeting is never sent to an AI provider.'
+                  : 'The AI provider was unavailable, so action items were found by offline rules. Re-extract to try the AI again.'}
+              </span>
+            </div>
+          )}
+
           {lowConfidenceCount > 0 && (
             <div className="mt-4 flex items-center gap-2 rounded-lg border border-warning/50 bg-warning/10 p-3 text-sm">
               <AlertTriangle className="h-4 w-4 text-warning" />
@@ -230,6 +878,14 @@ export default function MeetingDetail() {
           )}
         </div>
 
+        <MeetingSummary
+          summary={meeting.summary}
+          keyPoints={meeting.summary_key_points}
+          generatedAt={meeting.summary_generated_at}
+          onSave={handleSaveSummary}
+          onRegenerate={meeting.transcript && meeting.extractor !== 'offline' ? handleRegenerateSummary : undefined}
+        />
+
         {/* Action Items Table */}
         <Card>
           <CardHeader>
@@ -242,22 +898,65 @@ export default function MeetingDetail() {
             <ActionItemsTable
               items={actionItems}
               onUpdateItem={handleUpdateItem}
+              onConfirmItem={handleConfirmItem}
+              onDeleteItem={handleDeleteItem}
               selectedItems={selectedItems}
               onSelectionChange={setSelectedItems}
+              onShowSource={displaySegments.length > 0 ? handleShowSource : undefined}
+              highlightedItemId={citedIndex !== null ? citedItemId : null}
             />
           </CardContent>
         </Card>
 
-        {/* Transcript Section */}
-        {meeting.transcript && (
+        <MeetingInsights insights={insights} onConvertQuestion={handleConvertQuestion} />
+
+        {/* Speakers Section */}
+        {speakers.length > 0 && (
           <Card className="mt-6">
             <CardHeader>
-              <CardTitle>Original Transcript</CardTitle>
+              <CardTitle>Speakers</CardTitle>
+              <CardDescription>
+                Match each speaker to a person. Names replace the labels in the transcript and
+                in action item owners.
+              </CardDescription>
             </CardHeader>
             <CardContent>
-              <pre className="max-h-96 overflow-auto whitespace-pre-wrap rounded-lg bg-muted p-4 font-mono text-sm">
-                {meeting.transcript}
-              </pre>
+              <SpeakerMappingPanel
+                speakers={speakers}
+                speakerMap={speakerMap}
+                people={attendees}
+                onSave={handleSaveSpeakerMap}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Transcript Section */}
+        {(displaySegments.length > 0 || meeting.audio_path) && (
+          <Card ref={transcriptCardRef} className="mt-6 scroll-mt-4">
+            <CardHeader>
+              <CardTitle>Original Transcript</CardTitle>
+              {meeting.audio_path && (
+                <CardDescription>Click any line to play the recording from that point.</CardDescription>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {meeting.audio_path && (
+                <AudioPlayer
+                  ref={audioPlayerRef}
+                  audioPath={meeting.audio_path}
+                  onTimeUpdate={setPlaybackTime}
+                />
+              )}
+              {displaySegments.length > 0 && (
+                <TranscriptView
+                  segments={mappedSegments}
+                  activeTime={playbackTime}
+                  onSeek={meeting.audio_path ? (seconds) => audioPlayerRef.current?.seek(seconds) : undefined}
+                  citedIndex={citedIndex}
+                  onCitationBack={handleCitationBack}
+                />
+              )}
             </CardContent>
           </Card>
         )}
@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { Header } from '@/components/layout/Header';
@@ -8,8 +8,12 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2, Check, X, ExternalLink } from 'lucide-react';
+import { Loader2, Check, X, ExternalLink, Brain, ChevronRight } from 'lucide-react';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { DeadlineSettingsCard } from '@/components/settings/DeadlineSettingsCard';
+import { PeopleDirectoryCard } from '@/components/settings/PeopleDirectoryCard';
+import { MeetingTemplatesCard } from '@/components/settings/MeetingTemplatesCard';
+import { LanguageSettingsCard } from '@/components/settings/LanguageSettingsCard';
 
 interface JiraIntegration {
   id: string;
@@ -326,6 +330,31 @@ export default function Settings() {
             )}
           </CardContent>
         </Card>
+
+        {user && <DeadlineSettingsCard userId={user.id} />}
+        {user && <PeopleDirectoryCard userId={user.id} />}
+        {user && <MeetingTemplatesCard userId={user.id} />}
+        {user && <LanguageSettingsCard userId={user.id} />}
+
+        <Card className="mt-6">
+          <CardHeader className="flex flex-row items-center justify-between gap-4 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Brain className="h-5 w-5 text-primary" />
+                Extraction Memory
+              </CardTitle>
+              <CardDescription>
+                Your corrections to extracted action items, shown to the AI as examples next time.
+              </CardDescription>
+            </div>
+            <Button variant="outline" asChild>
+              <Link to="/settings/memory">
+                Manage
+                <ChevronRight className="ml-1 h-4 w-4" />
+              </Link>
+            </Button>
+          </CardHeader>
+        </Card>
       </main>
     </div>
   );
@@ -1,28 +1,84 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { Header } from '@/components/layout/Header';
 import { FileDropzone } from '@/components/upload/FileDropzone';
 import { TranscriptInput } from '@/components/upload/TranscriptInput';
+import { ImportFormatSelect, AUTO_DETECT_FORMAT } from '@/components/upload/ImportFormatSelect';
+import { UploadQueue } from '@/components/upload/UploadQueue';
+import { MeetingRecorder } from '@/components/upload/MeetingRecorder';
+import { MeetingDetailsFields } from '@/components/upload/MeetingDetailsFields';
+import { MeetingTemplateSelect } from '@/components/upload/MeetingTemplateSelect';
+import { TranslateToSelect } from '@/components/upload/TranslateToSelect';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Separator } from '@/components/ui/separator';
 import { useToast } from '@/hooks/use-toast';
-import { Zap, Loader2, ArrowLeft } from 'lucide-react';
+import { useUploadQueue } from '@/hooks/useUploadQueue';
+import { readTranscriptFile } from '@/lib/transcript/files';
+import { detectImporter } from '@/lib/transcript/importers';
+import {
+  fromDateTimeLocal,
+  readMeetingMetadata,
+  toDateTimeLocal,
+  type Attendee,
+} from '@/lib/meetingMetadata';
+import {
+  processMeeting,
+  audioFileError,
+  isAudioFile,
+  type Extractor,
+  type ProcessingStage,
+  type StageProgress,
+} from '@/lib/meetingPipeline';
+import { deleteRecording } from '@/lib/recordingStore';
+import {
+  DEFAULT_TEMPLATE_ID,
+  readCustomTemplates,
+  templateOptions,
+  type CustomTemplate,
+} from '@/lib/meetingTemplates';
+import { readTranslateTo } from '@/lib/languages';
+import { Zap, Loader2, ArrowLeft, AudioLines } from 'lucide-react';
 import { Link } from 'react-router-dom';
 
+const STAGE_LABELS: Record<ProcessingStage, string> = {
+  uploading: 'Uploading audio...',
+  transcribing: 'Transcribing...',
+  extracting: 'Extracting action items...',
+  summarizing: 'Summarizing...',
+};
+
 export default function Upload() {
   const { user, loading } = useAuth();
   const navigate = useNavigate();
   const { toast } = useToast();
   
   const [meetingTitle, setMeetingTitle] = useState('');
+  const [meetingDate, setMeetingDate] = useState(() => toDateTimeLocal(new Date()));
+  const [durationMinutes, setDurationMinutes] = useState<number | null>(null);
+  const [attendees, setAttendees] = useState<Attendee[]>([]);
   const [transcript, setTranscript] = useState('');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileContent, setFileContent] = useState<string | null>(null);
+  const [importFormat, setImportFormat] = useState(AUTO_DETECT_FORMAT);
+  const [extractor, setExtractor] = useState<Extractor>('ai');
+  const [template, setTemplate] = useState(DEFAULT_TEMPLATE_ID);
+  const [customTemplates, setCustomTemplates] = useState<CustomTemplate[]>([]);
+  const [translateTo, setTranslateTo] = useState<string | null>(null);
+  const [recordingId, setRecordingId] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
+  const [stage, setStage] = useState<{ stage: ProcessingStage; progress?: StageProgress } | null>(null);
+  const uploadQueue = useUploadQueue(user?.id);
+  // Counts file selections, so reads for a file that has since been replaced are dropped
+  const fileSelectionRef = useRef(0);
+
+  const textContent = selectedFile && !isAudioFile(selectedFile) ? fileContent ?? '' : transcript;
+  const detectedImporter = useMemo(() => detectImporter(textContent), [textContent]);
 
   useEffect(() => {
     if (!loading && !user) {
@@ -30,102 +86,152 @@ export default function Upload() {
     }
   }, [user, loading, navigate]);
 
-  const handleFileSelect = (file: File) => {
+  useEffect(() => {
+    if (!user) return;
+
+    supabase
+      .from('profiles')
+      .select('preferences')
+      .eq('id', user.id)
+      .maybeSingle()
+      .then(({ data, error }) => {
+        if (error) console.error('Error loading preferences:', error);
+        setCustomTemplates(readCustomTemplates(data?.preferences ?? null));
+        setTranslateTo(readTranslateTo(data?.preferences ?? null));
+      });
+  }, [user]);
+
+  // Audio that can't be transcribed is turned away before anything is uploaded
+  const acceptFiles = (files: File[]) =>
+    files.filter((file) => {
+      const error = audioFileError(file);
+      if (error) toast({ variant: 'destructive', title: 'Cannot transcribe this recording', description: error });
+      return !error;
+    });
+
+  const handleFilesSelect = (files: File[]) => {
+    const accepted = acceptFiles(files);
+    if (accepted.length > 0) uploadQueue.addFiles(accepted);
+  };
+
+  const handleFileSelect = async (file: File) => {
+    if (acceptFiles([file]).length === 0) return;
+
+    // Once a batch is queued, further drops join the queue
+    if (uploadQueue.items.length > 0) {
+      uploadQueue.addFiles([file]);
+      return;
+    }
+
+    const selection = ++fileSelectionRef.current;
+    const isCurrent = () => selection === fileSelectionRef.current;
+
     setSelectedFile(file);
+    setFileContent(null);
+    setRecordingId(null);
+    // A format picked for the previous file may not fit this one
+    setImportFormat(AUTO_DETECT_FORMAT);
     // Auto-populate title from filename
     if (!meetingTitle) {
       const nameWithoutExt = file.name.replace(/\.[^/.]+$/, '');
       setMeetingTitle(nameWithoutExt);
     }
+
+    let content: string | null = null;
+    if (!isAudioFile(file)) {
+      // Read text files up front so the detected transcript format can be shown
+      try {
+        content = await readTranscriptFile(file);
+        if (!isCurrent()) return;
+        setFileContent(content);
+      } catch (error) {
+        if (!isCurrent()) return;
+        toast({
+          variant: 'destructive',
+          title: 'Could not read file',
+          description: error instanceof Error ? error.message : 'The file could not be read.',
+        });
+        return;
+      }
+    }
+
+    const metadata = await readMeetingMetadata(file, content);
+    if (!isCurrent()) return;
+    if (metadata.startedAt) setMeetingDate(toDateTimeLocal(metadata.startedAt));
+    if (metadata.durationMinutes) setDurationMinutes(metadata.durationMinutes);
+    if (metadata.attendees.length > 0) setAttendees(metadata.attendees);
+  };
+
+  const handleRecordingComplete = async (file: File, id: string) => {
+    await handleFileSelect(file);
+    if (uploadQueue.items.length === 0) {
+      setRecordingId(id);
+    }
   };
 
   const processTranscript = async () => {
     if (!user) return;
-    
-    let transcriptText = transcript;
-    let audioUrl: string | null = null;
+
+    if (!selectedFile && !transcript.trim()) {
+      toast({
+        variant: 'destructive',
+        title: 'No content',
+        description: 'Please provide a transcript or upload a file.',
+      });
+      return;
+    }
 
     setIsProcessing(true);
 
     try {
-      // If audio file, upload it and transcribe
-      if (selectedFile && selectedFile.type.startsWith('audio/')) {
-        // Upload to storage
-        const filePath = `${user.id}/${Date.now()}-${selectedFile.name}`;
-        const { error: uploadError } = await supabase.storage
-          .from('meeting-audio')
-          .upload(filePath, selectedFile);
-
-        if (uploadError) throw uploadError;
-
-        const { data: urlData } = supabase.storage
-          .from('meeting-audio')
-          .getPublicUrl(filePath);
-        
-        audioUrl = urlData.publicUrl;
-
-        // Call transcription edge function
-        const { data: transcriptionData, error: transcriptionError } = await supabase.functions
-          .invoke('transcribe-audio', {
-            body: { audioUrl, filePath },
-          });
-
-        if (transcriptionError) throw transcriptionError;
-        transcriptText = transcriptionData.transcript;
-      } else if (selectedFile) {
-        // Read text file
-        transcriptText = await selectedFile.text();
+      const result = await processMeeting({
+        userId: user.id,
+        title: meetingTitle,
+        meetingDate: fromDateTimeLocal(meetingDate),
+        durationMinutes,
+        attendees,
+        file: selectedFile,
+        transcript: selectedFile ? fileContent ?? undefined : transcript,
+        importFormat: importFormat === AUTO_DETECT_FORMAT ? null : importFormat,
+        extractor,
+        template,
+        translateTo,
+      }, (nextStage, progress) => setStage({ stage: nextStage, progress }));
+
+      // The recording is safely stored server-side now, so drop the local copy
+      if (recordingId) {
+        deleteRecording(recordingId).catch((error) => console.error('Error deleting recording:', error));
       }
 
-      if (!transcriptText.trim()) {
+      if (result.lostTrack) {
+        toast({
+          title: 'Still processing',
+          description: `${result.processingError} Follow it from the meeting page.`,
+        });
+      } else if (result.processingError) {
         toast({
           variant: 'destructive',
-          title: 'No content',
-          description: 'Please provide a transcript or upload a file.',
+          title: 'Processing failed',
+          description: `${result.processingError} You can resume it from the meeting page.`,
         });
-        setIsProcessing(false);
-        return;
-      }
-
-      // Create meeting record
-      const { data: meeting, error: meetingError } = await supabase
-        .from('meetings')
-        .insert({
-          user_id: user.id,
-          title: meetingTitle || 'Untitled Meeting',
-          transcript: transcriptText,
-          audio_url: audioUrl,
-          meeting_date: new Date().toISOString(),
-        })
-        .select()
-        .single();
-
-      if (meetingError) throw meetingError;
-
-      // Call AI extraction edge function
-      const { data: extractionData, error: extractionError } = await supabase.functions
-        .invoke('extract-actions', {
-          body: { 
-            transcript: transcriptText,
-            meetingId: meeting.id,
-            meetingDate: meeting.meeting_date,
-          },
+      } else if (result.fallbackReason) {
+        toast({
+          title: 'Extracted without AI',
+          description: `${result.fallbackReason} Found ${result.actionItemCount} action items with the offline rules instead; please review them.`,
         });
+      } else if (result.translationError) {
+        toast({
+          title: 'Not translated',
+          description: `Extracted ${result.actionItemCount} action items, but they are in the meeting's language: ${result.translationError}`,
+        });
+      } else {
+        toast({
+          title: 'Success!',
+          description: `Extracted ${result.actionItemCount} action items.`,
+        });
+      }
 
-      if (extractionError) throw extractionError;
-
-      // Update meeting as processed
-      await supabase
-        .from('meetings')
-        .update({ processed_at: new Date().toISOString() })
-        .eq('id', meeting.id);
-
-      toast({
-        title: 'Success!',
-        description: `Extracted ${extractionData.actionItems?.length || 0} action items.`,
-      });
-
-      navigate(`/meeting/${meeting.id}`);
+      navigate(`/meeting/${result.meetingId}`);
     } catch (error) {
       console.error('Processing error:', error);
       toast({
@@ -135,6 +241,7 @@ export default function Upload() {
       });
     } finally {
       setIsProcessing(false);
+      setStage(null);
     }
   };
 
@@ -183,11 +290,37 @@ export default function Upload() {
               />
             </div>
 
+            <MeetingDetailsFields
+              meetingDate={meetingDate}
+              durationMinutes={durationMinutes}
+              attendees={attendees}
+              onMeetingDateChange={setMeetingDate}
+              onDurationChange={setDurationMinutes}
+              onAttendeesChange={setAttendees}
+              disabled={isProcessing}
+            />
+
             <FileDropzone
               onFileSelect={handleFileSelect}
+              onFilesSelect={handleFilesSelect}
               isProcessing={isProcessing}
             />
 
+            <MeetingRecorder
+              onRecordingComplete={handleRecordingComplete}
+              disabled={isProcessing}
+            />
+
+            {recordingId && selectedFile && (
+              <div className="flex items-center gap-3 rounded-lg border bg-muted/50 p-3">
+                <AudioLines className="h-8 w-8 text-primary" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium">{selectedFile.name}</p>
+                  <p className="text-sm text-muted-foreground">Recording will be transcribed</p>
+                </div>
+              </div>
+            )}
+
             <div className="relative">
               <div className="absolute inset-0 flex items-center">
                 <Separator className="w-full" />
@@ -203,6 +336,47 @@ export default function Upload() {
               disabled={isProcessing}
             />
 
+            {textContent.trim() && (
+              <ImportFormatSelect
+                detectedImporter={detectedImporter}
+                value={importFormat}
+                onChange={setImportFormat}
+                disabled={isProcessing}
+              />
+            )}
+
+            <MeetingTemplateSelect
+              templates={templateOptions(customTemplates)}
+              value={template}
+              onChange={setTemplate}
+              disabled={isProcessing}
+            />
+
+            <TranslateToSelect
+              id="translate-to"
+              label="Action item language"
+              value={translateTo}
+              onChange={setTranslateTo}
+              disabled={isProcessing || extractor === 'offline'}
+            />
+
+            <div className="flex items-start gap-3 rounded-lg border p-3">
+              <Checkbox
+                id="offline-extraction"
+                checked={extractor === 'offline'}
+                onCheckedChange={(checked) => setExtractor(checked === true ? 'offline' : 'ai')}
+                disabled={isProcessing}
+              />
+              <div className="space-y-1">
+                <Label htmlFor="offline-extraction">Extract without AI</Label>
+                <p className="text-sm text-muted-foreground">
+                  For sensitive meetings: action items are found by offline rules and the transcript is never
+                  sent to an AI provider. Expect fewer items, all flagged for review. Audio still needs AI
+                  transcription.
+                </p>
+              </div>
+            </div>
+
             <Button
               onClick={processTranscript}
               disabled={!canProcess}
@@ -212,7 +386,8 @@ export default function Upload() {
               {isProcessing ? (
                 <>
                   <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  Processing...
+                  {stage ? STAGE_LABELS[stage.stage] : 'Processing...'}
+                  {stage?.progress && ` (${stage.progress.done}/${stage.progress.total} parts)`}
                 </>
               ) : (
                 <>
@@ -223,6 +398,25 @@ export default function Upload() {
             </Button>
           </CardContent>
         </Card>
+
+        {uploadQueue.items.length > 0 && (
+          <div className="mt-6">
+            <UploadQueue
+              items={uploadQueue.items}
+              onUpdateItem={uploadQueue.updateItem}
+              onRemoveItem={uploadQueue.removeItem}
+              onRetry={uploadQueue.retry}
+              onStart={() =>
+                uploadQueue.startAll({
+                  extractor,
+                  template,
+                  translateTo,
+                  importFormat: importFormat === AUTO_DETECT_FORMAT ? null : importFormat,
+                })
+              }
+            />
+          </div>
+        )}
       </main>
     </div>
   );
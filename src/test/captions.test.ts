@@ -0,0 +1,32 @@
+import { describe, it, expect } from "vitest";
+import { parseCaptions } from "@/lib/transcript/captions";
+import { formatTranscript } from "@/lib/transcript/segments";
+
+describe("parseCaptions", () => {
+  it("keeps WebVTT cue times and voice tags", () => {
+    const vtt = `WEBVTT
+
+NOTE exported from Teams
+
+1
+00:00:01.200 --> 00:00:04.000
+<v Jane Doe>I'll draft the &amp; proposal.</v>
+
+00:01:05.000 --> 00:01:07.500 align:start
+<v.loud Sam>Thanks.</v><v Jane Doe>Sure.</v>`;
+
+    expect(parseCaptions(vtt)).toEqual([
+      { start: 1.2, end: 4, speaker: "Jane Doe", text: "I'll draft the & proposal." },
+      { start: 65, end: 67.5, speaker: "Sam", text: "Thanks." },
+      { start: 65, end: 67.5, speaker: "Jane Doe", text: "Sure." },
+    ]);
+  });
+
+  it("reads SRT speaker prefixes and formats them like audio transcripts", () => {
+    const srt = `1\r\n00:00:03,500 --> 00:00:06,000\r\nJANE: Budget is due\r\n<i>next Friday.</i>\r\n\r\n2\r\n01:00:00,000 --> 01:00:02,000\r\nThat works, thanks everyone.\r\n`;
+
+    expect(formatTranscript(parseCaptions(srt))).toBe(
+      "[00:00:03] JANE: Budget is due next Friday.\n[01:00:00] That works, thanks everyone."
+    );
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from "vitest";
+import { chunkTranscript } from "../../supabase/functions/_shared/transcriptChunks";
+import { mergeChunkInsights, mergeChunkItems } from "../../supabase/functions/extract-actions/merge";
+import type { ExtractedActionItem } from "../../supabase/functions/extract-actions/schema";
+
+const item = (overrides: Partial<ExtractedActionItem>): ExtractedActionItem => ({
+  actionItem: "Send the revised budget to finance",
+  owner: "Jane Doe",
+  ownerEmail: null,
+  deadline: null,
+  deadlinePhrase: null,
+  priority: "Medium",
+  confidence: 0.8,
+  notes: null,
+  sourceQuote: null,
+  extra: {},
+  ...overrides,
+});
+
+describe("chunkTranscript", () => {
+  it("keeps short transcripts in one chunk", () => {
+    expect(chunkTranscript("Jane: hi", { maxChars: 100, overlapChars: 10 })).toEqual([
+      { index: 0, text: "Jane: hi" },
+    ]);
+  });
+
+  it("splits between speaker turns and repeats the previous turn as overlap", () => {
+    const transcript = [
+      "[00:00:01] Jane: We need the budget.",
+      "It has to include travel.",
+      "[00:00:10] Bob: I'll draft it today.",
+      "[00:00:20] Jane: Great, and the venue?",
+      "[00:00:30] Bob: Booking it next.",
+    ].join("\n");
+
+    const chunks = chunkTranscript(transcript, { maxChars: 80, overlapChars: 40 });
+
+    expect(chunks.map((chunk) => chunk.text)).toEqual([
+      "[00:00:01] Jane: We need the budget.\nIt has to include travel.",
+      "[00:00:10] Bob: I'll draft it today.\n[00:00:20] Jane: Great, and the venue?",
+      "[00:00:20] Jane: Great, and the venue?\n[00:00:30] Bob: Booking it next.",
+    ]);
+    // Every line of the transcript lands in some chunk
+    transcript.split("\n").forEach((line) => {
+      expect(chunks.some((chunk) => chunk.text.includes(line))).toBe(true);
+    });
+  });
+});
+
+describe("mergeChunkItems", () => {
+  it("merges an item seen in two chunks and records both sources", () => {
+    const merged = mergeChunkItems([
+      { chunkIndex: 0, items: [item({ notes: "Raised by the CFO" }), item({ actionItem: "Book the venue", owner: "Bob" })], insights: [] },
+      {
+        chunkIndex: 1,
+        items: [item({
+          actionItem: "Send the revised budget to finance including travel costs",
+          owner: "Jane",
+          deadline: "2026-10-23",
+          priority: "High",
+          confidence: 0.9,
+        })],
+        insights: [],
+      },
+    ]);
+
+    expect(merged).toEqual([
+      {
+        actionItem: "Send the revised budget to finance including travel costs",
+        owner: "Jane",
+        ownerEmail: null,
+        deadline: "2026-10-23",
+        deadlinePhrase: null,
+        priority: "High",
+        confidence: 0.9,
+        notes: "Raised by the CFO",
+        sourceQuote: null,
+        extra: {},
+        sourceChunks: [0, 1],
+      },
+      { ...item({ actionItem: "Book the venue", owner: "Bob" }), sourceChunks: [0] },
+    ]);
+  });
+
+  it("keeps similar items with different owners or from the same chunk apart", () => {
+    const merged = mergeChunkItems([
+      { chunkIndex: 0, items: [item({}), item({ owner: "Priya" })], insights: [] },
+      { chunkIndex: 1, items: [item({ owner: "Bob" })], insights: [] },
+    ]);
+
+    expect(merged.map((entry) => [entry.owner, entry.sourceChunks])).toEqual([
+      ["Jane Doe", [0]],
+      ["Priya", [0]],
+      ["Bob", [1]],
+    ]);
+  });
+});
+
+describe("mergeChunkInsights", () => {
+  it("merges repeats of the same kind across chunks only", () => {
+    const merged = mergeChunkInsights([
+      {
+        chunkIndex: 0,
+        items: [],
+        insights: [
+          { kind: "decision", text: "Launch on November 3rd", owner: null, sourceQuote: null },
+          { kind: "risk", text: "Launch slips if QA is late", owner: "Bob", sourceQuote: null },
+        ],
+      },
+      {
+        chunkIndex: 1,
+        items: [],
+        insights: [
+          { kind: "decision", text: "Launch on November 3rd after the freeze", owner: "Jane", sourceQuote: null },
+          { kind: "question", text: "Is the launch on November 3rd?", owner: null, sourceQuote: null },
+        ],
+      },
+    ]);
+
+    expect(merged.map(({ kind, text, owner, sourceChunks }) => [kind, text, owner, sourceChunks])).toEqual([
+      ["decision", "Launch on November 3rd after the freeze", "Jane", [0, 1]],
+      ["risk", "Launch slips if QA is late", "Bob", [0]],
+      ["question", "Is the launch on November 3rd?", null, [1]],
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { locateQuote } from "../../supabase/functions/extract-actions/citations";
+import { findCitedSegment } from "@/lib/transcript/citations";
+import { parseTranscriptText } from "@/lib/transcript/segments";
+
+const transcript = [
+  "[00:00:05] Jane: Welcome, everyone.",
+  "[00:01:30] Bob: I’ll send the revised budget",
+  "to finance by Friday.",
+  "[00:02:10] Jane: Thanks Bob.",
+].join("\n");
+
+describe("locateQuote", () => {
+  it("finds a quote despite changed whitespace, quote marks and case", () => {
+    const location = locateQuote(transcript, "\"I'll send the revised budget to Finance by Friday.\"");
+
+    expect(location).toEqual({
+      start: transcript.indexOf("I’ll"),
+      end: transcript.indexOf("Friday.") + "Friday.".length,
+      timestamp: 90,
+    });
+  });
+
+  it("returns null for quotes that are not in the transcript", () => {
+    expect(locateQuote(transcript, "We agreed to cancel the offsite")).toBeNull();
+    expect(locateQuote(transcript, null)).toBeNull();
+  });
+});
+
+describe("findCitedSegment", () => {
+  const segments = parseTranscriptText(transcript);
+
+  it("finds the segment containing the quote, with or without the speaker label", () => {
+    expect(findCitedSegment(segments, { quote: "Bob: I'll send the revised budget", timestamp: null })).toBe(1);
+    expect(findCitedSegment(segments, { quote: "thanks bob.", timestamp: null })).toBe(2);
+  });
+
+  it("falls back to the segment spoken at the cited time", () => {
+    expect(findCitedSegment(segments, { quote: "Something paraphrased", timestamp: 100 })).toBe(1);
+    expect(findCitedSegment(segments, { quote: "Something paraphrased", timestamp: null })).toBeNull();
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import {
+  findDeadlinePhrase,
+  readDeadlineSettings,
+  resolveDeadline,
+  toDeadlineTimestamp,
+} from "../../supabase/functions/extract-actions/dates";
+
+// Monday 19 October 2026, mid-afternoon in London
+const meetingDate = "2026-10-19T14:30:00Z";
+const resolve = (phrase: string, context: Record<string, unknown> = {}) =>
+  resolveDeadline(phrase, { meetingDate, timeZone: "Europe/London", ...context });
+
+describe("findDeadlinePhrase", () => {
+  it("finds the phrase with its lead word", () => {
+    expect(findDeadlinePhrase("I'll send the budget by next Friday.")).toEqual({ text: "by next Friday", phrase: "next Friday" });
+    expect(findDeadlinePhrase("Ship it within 3 business days")).toEqual({
+      text: "within 3 business days",
+      phrase: "within 3 business days",
+    });
+    expect(findDeadlinePhrase("Review the last two weeks of data")).toBeNull();
+  });
+});
+
+describe("resolveDeadline", () => {
+  it("resolves days and weekdays from the meeting day", () => {
+    expect(resolve("today")).toBe("2026-10-19");
+    expect(resolve("by tomorrow")).toBe("2026-10-20");
+    expect(resolve("Friday")).toBe("2026-10-23");
+    expect(resolve("next Friday")).toBe("2026-10-30");
+    expect(resolve("Monday")).toBe("2026-10-26");
+    expect(resolve("in two weeks")).toBe("2026-11-02");
+    expect(resolve("Nov 3rd")).toBe("2026-11-03");
+    expect(resolve("January 15")).toBe("2027-01-15");
+    expect(resolve("February 30")).toBeNull();
+  });
+
+  it("uses the meeting's date in the user's timezone", () => {
+    // Monday evening in Los Angeles is already Tuesday in UTC
+    const lateMeeting = "2026-10-20T02:00:00Z";
+    expect(resolveDeadline("tomorrow", { meetingDate: lateMeeting, timeZone: "America/Los_Angeles" })).toBe("2026-10-20");
+    expect(resolveDeadline("tomorrow", { meetingDate: lateMeeting, timeZone: "UTC" })).toBe("2026-10-21");
+  });
+
+  it("counts business days past weekends and holidays", () => {
+    expect(resolve("in 5 business days")).toBe("2026-10-26");
+    expect(resolve("in 5 business days", { holidays: ["2026-10-21"] })).toBe("2026-10-27");
+    // Friday meeting
+    expect(resolveDeadline("next business day", { meetingDate: "2026-10-23T10:00:00Z" })).toBe("2026-10-26");
+  });
+
+  it("ends named periods on their last business day", () => {
+    expect(resolve("EOW")).toBe("2026-10-23");
+    expect(resolve("end of the week", { holidays: ["2026-10-23"] })).toBe("2026-10-22");
+    expect(resolve("end of next week")).toBe("2026-10-30");
+    // 31 October 2026 is a Saturday
+    expect(resolve("EOM")).toBe("2026-10-30");
+    expect(resolve("end of quarter")).toBe("2026-12-31");
+    expect(resolve("end of next quarter")).toBe("2027-03-31");
+  });
+
+  it("counts a weekend towards the week ahead", () => {
+    for (const weekendMeeting of ["2026-10-24T10:00:00Z", "2026-10-25T10:00:00Z"]) {
+      const resolveOnWeekend = (phrase: string) => resolveDeadline(phrase, { meetingDate: weekendMeeting });
+      expect(resolveOnWeekend("EOW")).toBe("2026-10-30");
+      expect(resolveOnWeekend("next week")).toBe("2026-11-02");
+      expect(resolveOnWeekend("end of next week")).toBe("2026-11-06");
+      expect(resolveOnWeekend("Monday")).toBe("2026-10-26");
+      expect(resolveOnWeekend("next Monday")).toBe("2026-11-02");
+      expect(resolveOnWeekend("next Friday")).toBe("2026-11-06");
+    }
+  });
+
+  it("resolves sprint ends only when a sprint is configured", () => {
+    expect(resolve("end of sprint")).toBeNull();
+    const sprint = { start: "2026-10-05", lengthDays: 14 };
+    // The sprint running Oct 19 to Nov 1 ends on a Sunday
+    expect(resolve("end of sprint", { sprint })).toBe("2026-10-30");
+    expect(resolve("end of next sprint", { sprint })).toBe("2026-11-13");
+  });
+});
+
+describe("toDeadlineTimestamp", () => {
+  it("makes a date due at the end of the working day in the user's timezone", () => {
+    expect(toDeadlineTimestamp("2026-10-23", "America/Los_Angeles")).toBe("2026-10-24T00:00:00.000Z");
+    // After the clocks go back in London
+    expect(toDeadlineTimestamp("2026-10-26", "Europe/London")).toBe("2026-10-26T17:00:00.000Z");
+    expect(toDeadlineTimestamp("2026-10-23", "Not/AZone")).toBe("2026-10-23T17:00:00.000Z");
+  });
+});
+
+describe("readDeadlineSettings", () => {
+  it("keeps valid settings and drops the rest", () => {
+    expect(
+      readDeadlineSettings({
+        deadlines: { timeZone: "Europe/Berlin", holidays: ["2026-12-25", "Christmas"], sprint: { start: "2026-10-05" } },
+      })
+    ).toEqual({ timeZone: "Europe/Berlin", holidays: ["2026-12-25"], sprint: { start: "2026-10-05", lengthDays: 14 } });
+    expect(readDeadlineSettings({ deadlines: { timeZone: "Mars/Base" } })).toEqual({});
+    expect(readDeadlineSettings(null)).toEqual({});
+  });
+});
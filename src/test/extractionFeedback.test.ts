@@ -0,0 +1,84 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatFewShotExamples,
+  selectFewShotExamples,
+  type FeedbackExample,
+} from "../../supabase/functions/extract-actions/feedback";
+import { feedbackExcerpt, nextFeedbackKind, touchesFeedbackFields } from "@/lib/extractionFeedback";
+
+const now = new Date("2026-10-19T12:00:00Z");
+
+const example = (overrides: Partial<FeedbackExample>): FeedbackExample => ({
+  kind: "edit",
+  excerpt: "Jane: I'll send the revised budget to finance by Friday.",
+  original: { action_item: "Send budget", owner: "Jane", priority: "Medium" },
+  corrected: { action_item: "Send the revised budget to finance", owner: "Jane Doe", priority: "Medium" },
+  updatedAt: "2026-10-15T12:00:00Z",
+  own: true,
+  ...overrides,
+});
+
+describe("selectFewShotExamples", () => {
+  const transcript = "Bob: The budget is late again.\nJane: I'll send the revised budget to finance tomorrow.";
+
+  it("keeps only examples that share words with the transcript", () => {
+    const unrelated = example({ excerpt: "Sam: Let's book the offsite venue in Lisbon." });
+    expect(selectFewShotExamples([unrelated, example({})], transcript, { now })).toEqual([example({})]);
+  });
+
+  it("prefers recent corrections and the user's own", () => {
+    const old = example({ excerpt: "Priya: the budget for finance is revised", updatedAt: "2026-01-01T00:00:00Z" });
+    const teammate = example({ excerpt: "Bob: finance wants the revised budget", own: false });
+    const recent = example({ excerpt: "Jane: revised budget goes to finance" });
+
+    const picked = selectFewShotExamples([old, teammate, recent], transcript, { now, limit: 2 });
+    expect(picked.map((entry) => entry.excerpt)).toEqual([recent.excerpt, teammate.excerpt]);
+  });
+
+  it("shows near-identical excerpts once", () => {
+    const copy = example({ kind: "confirm", updatedAt: "2026-10-10T12:00:00Z" });
+    expect(selectFewShotExamples([example({}), copy], transcript, { now })).toHaveLength(1);
+  });
+});
+
+describe("formatFewShotExamples", () => {
+  it("renders corrections, confirmations and false positives", () => {
+    const prompt = formatFewShotExamples([
+      example({}),
+      example({ kind: "delete", corrected: null }),
+      example({ kind: "confirm" }),
+    ]);
+
+    expect(prompt).toContain('Reviewer corrected it to: {"actionItem":"Send the revised budget to finance","owner":"Jane Doe"');
+    expect(prompt).toContain("Reviewer: not an action item");
+    expect(prompt).toContain("Reviewer: correct as extracted.");
+    expect(prompt).toContain('Transcript: "Jane: I\'ll send the revised budget to finance by Friday."');
+  });
+
+  it("is empty without examples", () => {
+    expect(formatFewShotExamples([])).toBe("");
+  });
+});
+
+describe("extraction feedback helpers", () => {
+  const transcript = "[00:00:05] Bob: Budget is late.\n[00:00:09] Jane: I'll send it by Friday.\n[00:00:15] Bob: Thanks.";
+
+  it("takes the whole transcript lines around the cited passage", () => {
+    const start = transcript.indexOf("I'll send");
+    const item = { source_quote: "I'll send it by Friday.", source_start: start, source_end: start + 23 };
+    expect(feedbackExcerpt(transcript, item)).toBe("[00:00:09] Jane: I'll send it by Friday.");
+    expect(feedbackExcerpt(null, item)).toBe("I'll send it by Friday.");
+    expect(feedbackExcerpt(null, { source_quote: null, source_start: null, source_end: null })).toBeNull();
+  });
+
+  it("keeps an edit an edit when it is later confirmed", () => {
+    expect(nextFeedbackKind("edit", "confirm")).toBe("edit");
+    expect(nextFeedbackKind("edit", "delete")).toBe("delete");
+    expect(nextFeedbackKind(null, "confirm")).toBe("confirm");
+  });
+
+  it("only treats changes to extracted fields as corrections", () => {
+    expect(touchesFeedbackFields({ owner: "Jane Doe" })).toBe(true);
+    expect(touchesFeedbackFields({ status: "Done" })).toBe(false);
+  });
+});
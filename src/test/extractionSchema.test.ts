@@ -0,0 +1,102 @@
+import { describe, it, expect } from "vitest";
+import { parseExtractionResponse } from "../../supabase/functions/extract-actions/schema";
+
+const validItem = {
+  actionItem: "Send the revised budget",
+  owner: "Jane Doe",
+  ownerEmail: "jane@example.com",
+  deadline: "2026-10-23",
+  deadlinePhrase: "by Friday",
+  priority: "High",
+  confidence: 0.9,
+  notes: null,
+  sourceQuote: "Jane: I'll send the revised budget by Friday.",
+  extra: { area: "Finance" },
+};
+
+describe("parseExtractionResponse", () => {
+  it("accepts a fenced object and normalizes missing and blank fields to null", () => {
+    const content = "```json\n" + JSON.stringify({
+      actionItems: [
+        validItem,
+        { actionItem: " Book the room ", owner: "", priority: "Low", confidence: 0, extra: { estimate: 2, ticket: null } },
+      ],
+      decisions: [{ text: "Launch on November 3rd", owner: "Jane Doe", sourceQuote: null }],
+      openQuestions: [{ text: "Who signs off the budget?" }],
+    }) + "\n```";
+
+    expect(parseExtractionResponse(content)).toEqual({
+      ok: true,
+      result: {
+        actionItems: [
+        validItem,
+        {
+          actionItem: "Book the room",
+          owner: null,
+          ownerEmail: null,
+          deadline: null,
+          deadlinePhrase: null,
+          priority: "Low",
+          confidence: 0,
+          notes: null,
+          sourceQuote: null,
+          extra: { estimate: "2" },
+        },
+        ],
+        insights: [
+          { kind: "decision", text: "Launch on November 3rd", owner: "Jane Doe", sourceQuote: null },
+          { kind: "question", text: "Who signs off the budget?", owner: null, sourceQuote: null },
+        ],
+      },
+    });
+  });
+
+  it("reports unparseable JSON, bare arrays and misnamed lists", () => {
+    expect(parseExtractionResponse('[{"actionItem": "Send')).toEqual({
+      ok: false,
+      issues: [expect.stringMatching(/^Response is not valid JSON/)],
+    });
+
+    expect(parseExtractionResponse("[]")).toEqual({
+      ok: false,
+      issues: ["Response must be a JSON object with actionItems, decisions, risks and openQuestions"],
+    });
+
+    expect(parseExtractionResponse('{"actionItems": [], "questions": []}')).toEqual({
+      ok: false,
+      issues: ["questions: unexpected key"],
+    });
+  });
+
+  it("lists every field that breaks the schema", () => {
+    const result = parseExtractionResponse(JSON.stringify({
+      actionItems: [
+        validItem,
+        { ...validItem, actionItem: "", priority: "urgent", confidence: 1.5 },
+        { ...validItem, deadline: "next Friday", ownerEmail: "jane" },
+        { ...validItem, deadline: "2026-02-30" },
+      ],
+      risks: [{ text: "" }],
+    }));
+
+    expect(result).toEqual({
+      ok: false,
+      issues: [
+        "actionItems[1].actionItem: expected a non-empty string",
+        'actionItems[1].priority: expected one of "High", "Medium", "Low"',
+        "actionItems[1].confidence: expected a number between 0 and 1",
+        'actionItems[2].ownerEmail: "jane" is not an email address',
+        'actionItems[2].deadline: "next Friday" is not an ISO 8601 date (YYYY-MM-DD)',
+        'actionItems[3].deadline: "2026-02-30" is not an ISO 8601 date (YYYY-MM-DD)',
+        "risks[0].text: expected a non-empty string",
+      ],
+    });
+  });
+
+  it("accepts deadlines with a time of day", () => {
+    const result = parseExtractionResponse(
+      JSON.stringify({ actionItems: [{ ...validItem, deadline: "2026-10-23T17:00:00Z" }] })
+    );
+    expect(result.ok).toBe(true);
+  });
+});
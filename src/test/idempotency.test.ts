@@ -0,0 +1,183 @@
+import { describe, it, expect } from "vitest";
+import {
+  beginIdempotentRequest,
+  canonicalJson,
+  hashRequest,
+  type IdempotencyStore,
+  type StoredRequest,
+} from "../../supabase/functions/_shared/idempotency";
+import { idempotencyKey } from "@/lib/idempotency";
+
+const cors = { "Access-Control-Allow-Origin": "*" };
+
+const createMemoryStore = () => {
+  const keys = new Map<string, StoredRequest>();
+  const store: IdempotencyStore = {
+    claim: async (key, requestHash, expiresAt) => {
+      const stored = keys.get(key);
+      if (stored) return stored;
+      keys.set(key, {
+        requestHash,
+        status: "processing",
+        responseStatus: null,
+        responseBody: null,
+        updatedAt: new Date().toISOString(),
+        expiresAt,
+      });
+      return null;
+    },
+    forgetExpired: async (key, now) => {
+      if (keys.get(key)!.expiresAt <= now) keys.delete(key);
+    },
+    reclaim: async (key, staleBefore) => {
+      const stored = keys.get(key);
+      if (!stored || stored.status !== "processing" || stored.updatedAt >= staleBefore) return false;
+      keys.set(key, { ...stored, updatedAt: new Date().toISOString() });
+      return true;
+    },
+    complete: async (key, responseStatus, responseBody) => {
+      keys.set(key, { ...keys.get(key)!, status: "completed", responseStatus, responseBody });
+    },
+    release: async (key) => {
+      keys.delete(key);
+    },
+  };
+  return { store, keys };
+};
+
+const request = (key?: string) =>
+  new Request("http://localhost/extract-actions", {
+    method: "POST",
+    headers: key ? { "Idempotency-Key": key } : {},
+  });
+
+/** Runs a request the way the functions do: claim the key, then do the work and finish. */
+const run = async (store: IdempotencyStore, key: string | undefined, body: unknown, work: () => Response) => {
+  const idempotency = await beginIdempotentRequest(request(key), body, store, cors);
+  if ("response" in idempotency) return idempotency.response;
+  return idempotency.request.finish(work());
+};
+
+const ok = (body: unknown, status = 200) => () => new Response(JSON.stringify(body), { status });
+
+describe("canonicalJson", () => {
+  it("ignores key order and undefined values", () => {
+    expect(canonicalJson({ b: [1, { d: 2, c: null }], a: "x", e: undefined })).toBe('{"a":"x","b":[1,{"c":null,"d":2}]}');
+  });
+
+  it("hashes equal payloads the same", async () => {
+    expect(await hashRequest({ meetingId: "m", dryRun: false })).toBe(await hashRequest({ dryRun: false, meetingId: "m" }));
+    expect(await hashRequest({ meetingId: "m" })).not.toBe(await hashRequest({ meetingId: "n" }));
+  });
+});
+
+describe("beginIdempotentRequest", () => {
+  it("runs a request once and replays its response to repeats", async () => {
+    const { store } = createMemoryStore();
+    let runs = 0;
+    const work = () => {
+      runs++;
+      return ok({ count: 3 })();
+    };
+
+    const first = await run(store, "key-1", { meetingId: "m" }, work);
+    const repeat = await run(store, "key-1", { meetingId: "m" }, work);
+
+    expect(runs).toBe(1);
+    expect(await first.json()).toEqual({ count: 3 });
+    expect(repeat.status).toBe(200);
+    expect(repeat.headers.get("Idempotent-Replayed")).toBe("true");
+    expect(await repeat.json()).toEqual({ count: 3 });
+  });
+
+  it("refuses a key reused for a different request", async () => {
+    const { store } = createMemoryStore();
+    await run(store, "key-1", { meetingId: "m" }, ok({ count: 3 }));
+
+    const conflict = await run(store, "key-1", { meetingId: "other" }, ok({ count: 1 }));
+
+    expect(conflict.status).toBe(422);
+    expect((await conflict.json()).error).toMatch(/already used for a different request/);
+  });
+
+  it("refuses a repeat while the first request is still running, until it goes stale", async () => {
+    const { store, keys } = createMemoryStore();
+    const idempotency = await beginIdempotentRequest(request("key-1"), { meetingId: "m" }, store, cors);
+    expect("request" in idempotency).toBe(true);
+
+    const inProgress = await run(store, "key-1", { meetingId: "m" }, ok({ count: 3 }));
+    expect(inProgress.status).toBe(409);
+    expect((await inProgress.json()).inProgress).toBe(true);
+
+    keys.set("key-1", { ...keys.get("key-1")!, updatedAt: "2020-01-01T00:00:00.000Z" });
+    const takenOver = await run(store, "key-1", { meetingId: "m" }, ok({ count: 3 }));
+    expect(takenOver.status).toBe(200);
+    expect(takenOver.headers.get("Idempotent-Replayed")).toBeNull();
+  });
+
+  it("runs a repeat again once the key has expired", async () => {
+    const { store, keys } = createMemoryStore();
+    await run(store, "key-1", { meetingId: "m" }, ok({ count: 3 }));
+    expect(new Date(keys.get("key-1")!.expiresAt).getTime() - Date.now()).toBeGreaterThan(23 * 60 * 60 * 1000);
+
+    keys.set("key-1", { ...keys.get("key-1")!, expiresAt: "2020-01-01T00:00:00.000Z" });
+    const rerun = await run(store, "key-1", { meetingId: "other" }, ok({ count: 1 }));
+
+    expect(rerun.status).toBe(200);
+    expect(rerun.headers.get("Idempotent-Replayed")).toBeNull();
+    expect(await rerun.json()).toEqual({ count: 1 });
+  });
+
+  it("releases the key when the request fails, so a retry runs again", async () => {
+    const { store, keys } = createMemoryStore();
+
+    const failed = await run(store, "key-1", { meetingId: "m" }, ok({ error: "Provider unavailable" }, 503));
+    expect(failed.status).toBe(503);
+    expect(keys.has("key-1")).toBe(false);
+
+    const retried = await run(store, "key-1", { meetingId: "m" }, ok({ count: 2 }));
+    expect(await retried.json()).toEqual({ count: 2 });
+  });
+
+  it("leaves requests without a key alone", async () => {
+    const { store, keys } = createMemoryStore();
+    let runs = 0;
+    const work = () => {
+      runs++;
+      return ok({ count: 3 })();
+    };
+
+    await run(store, undefined, { meetingId: "m" }, work);
+    await run(store, undefined, { meetingId: "m" }, work);
+
+    expect(runs).toBe(2);
+    expect(keys.size).toBe(0);
+  });
+});
+
+describe("idempotencyKey", () => {
+  it("gives repeats of a request the same key", async () => {
+    const key = await idempotencyKey("extract-actions", { meetingId: "m", transcript: "t", template: "general" });
+
+    expect(await idempotencyKey("extract-actions", { template: "general", transcript: "t", meetingId: "m" })).toBe(key);
+    expect(key).toMatch(/^extract-actions:m:[0-9a-f]{64}$/);
+  });
+
+  it("hashes the request the way the server does", async () => {
+    const body = { transcript: "t", meetingId: "m", attendees: [{ name: "Ana", email: undefined }] };
+    const key = await idempotencyKey("extract-actions", body, "2026-10-19T10:00:00Z");
+
+    expect(key).toBe(`extract-actions:m:${await hashRequest({ operation: "extract-actions", body, revision: "2026-10-19T10:00:00Z" })}`);
+    expect(canonicalJson({ operation: "extract-actions", body, revision: null })).toBe(
+      '{"body":{"attendees":[{"name":"Ana"}],"meetingId":"m","transcript":"t"},"operation":"extract-actions","revision":null}'
+    );
+  });
+
+  it("gives a new key for new input or once what it acts on has changed", async () => {
+    const key = await idempotencyKey("summarize-meeting", { meetingId: "m" }, "2026-10-19T10:00:00Z");
+
+    expect(await idempotencyKey("summarize-meeting", { meetingId: "n" }, "2026-10-19T10:00:00Z")).not.toBe(key);
+    expect(await idempotencyKey("summarize-meeting", { meetingId: "m" }, "2026-10-19T11:00:00Z")).not.toBe(key);
+    expect(await idempotencyKey("extract-actions", { meetingId: "m" }, "2026-10-19T10:00:00Z")).not.toBe(key);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { detectImporter, importTranscript } from "@/lib/transcript/importers";
+
+const detect = (content: string) => detectImporter(content).id;
+
+describe("transcript importers", () => {
+  it("detects each vendor format", () => {
+    expect(detect("[Jane Doe] 00:00:05\nLet's start.\n[Sam Lee] 00:00:09\nSure.")).toBe("zoom");
+    expect(detect("WEBVTT\n\n00:00:01.000 --> 00:00:02.000\n<v Jane>Hi</v>")).toBe("teams");
+    expect(
+      detect("Weekly sync - Transcript\n\nAttendees\nJane, Sam\n\nTranscript\n\n00:00:00\n\nJane: Hi all.")
+    ).toBe("google-meet");
+    expect(detect("Jane Doe  0:03\nHello.\n\nSam Lee  0:10\nHi.\n\nTranscribed by https://otter.ai")).toBe("otter");
+    expect(detect(JSON.stringify({ sentences: [{ speaker_name: "Jane", text: "Hi", start_time: 1 }] }))).toBe(
+      "fireflies"
+    );
+    expect(detect("1\n00:00:01,000 --> 00:00:02,000\nHello")).toBe("captions");
+    expect(detect("Jane: I'll send the notes.")).toBe("plain");
+  });
+
+  it("normalizes Otter JSON into speaker turns", () => {
+    const otter = JSON.stringify({
+      speakers: [{ id: 1, name: "Jane Doe" }],
+      transcripts: [
+        { speaker_id: 1, start_offset: 3000, end_offset: 5000, transcript: "I'll own the rollout." },
+        { speaker_id: 1, start_offset: 5000, end_offset: 7000, transcript: "By Friday." },
+        { speaker: "Sam", start_offset: 8000, end_offset: 9000, transcript: "Thanks." },
+      ],
+    });
+
+    expect(importTranscript(otter).segments).toEqual([
+      { start: 3, end: 7, speaker: "Jane Doe", text: "I'll own the rollout. By Friday." },
+      { start: 8, end: 9, speaker: "Sam", text: "Thanks." },
+    ]);
+  });
+
+  it("parses Google Meet markers and honours an explicit importer", () => {
+    const meet = "Transcript\n\n00:05:00\n\nJane: First point\ncontinues here.\nSam: Agreed.";
+
+    expect(importTranscript(meet, "google-meet").segments).toEqual([
+      { start: 300, end: null, speaker: "Jane", text: "First point continues here." },
+      { start: null, end: null, speaker: "Sam", text: "Agreed." },
+    ]);
+    expect(importTranscript(meet, "plain").importer.id).toBe("plain");
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import { detectLanguage } from "../../supabase/functions/_shared/language";
+import { createFakeProvider } from "../../supabase/functions/_shared/llm/fake";
+import {
+  parseTranslationResponse,
+  translateItems,
+  TranslationError,
+} from "../../supabase/functions/extract-actions/translation";
+
+describe("detectLanguage", () => {
+  it("tells languages apart by their function words", () => {
+    expect(
+      detectLanguage(
+        "[00:00:01] Jane: We need the budget for the offsite by next week.\n[00:00:09] Bob: I'll send it to finance, and we can review it on Friday."
+      ).language
+    ).toBe("en");
+    expect(
+      detectLanguage(
+        "[00:00:01] Jana: Wir brauchen das Budget bis nächste Woche.\n[00:00:09] Bernd: Ich schicke es dann an die Buchhaltung, und wir besprechen es auch am Freitag."
+      ).language
+    ).toBe("de");
+    expect(
+      detectLanguage(
+        "Claire: Nous avons besoin du budget pour la semaine prochaine.\nPaul: Je vais le faire et je vous envoie le document, merci."
+      ).language
+    ).toBe("fr");
+    expect(
+      detectLanguage(
+        "Lucía: Necesitamos el presupuesto para la próxima semana.\nPablo: Yo lo envío con los datos, pero también hay que hacer la revisión."
+      ).language
+    ).toBe("es");
+  });
+
+  it("ignores speaker labels", () => {
+    const detected = detectLanguage(
+      ["The Team: Wir machen das bis Freitag.", "The Team: Ich schicke dann die Liste, und wir sind auch fertig."].join("\n")
+    );
+
+    expect(detected.language).toBe("de");
+  });
+
+  it("gives no language when there is too little to go on", () => {
+    expect(detectLanguage("Jane: OK.\nBob: Budget, Q3, 42.")).toEqual({ language: null, confidence: 0 });
+    expect(detectLanguage("").language).toBeNull();
+  });
+});
+
+describe("parseTranslationResponse", () => {
+  it("reads one translation per item, in order", () => {
+    expect(
+      parseTranslationResponse(
+        '```json\n{"translations": [{"actionItem": " Send the budget ", "notes": ""}, {"actionItem": "Book the venue", "notes": "For 20 people"}]}\n```',
+        2
+      )
+    ).toEqual({
+      ok: true,
+      items: [
+        { actionItem: "Send the budget", notes: null },
+        { actionItem: "Book the venue", notes: "For 20 people" },
+      ],
+    });
+  });
+
+  it("rejects answers that don't line up with the items", () => {
+    expect(parseTranslationResponse('{"translations": [{"actionItem": "Send the budget"}]}', 2)).toEqual({
+      ok: false,
+      issues: ["expected 2 translations, got 1"],
+    });
+    expect(parseTranslationResponse('{"translations": [{"actionItem": "", "notes": 3}]}', 1)).toEqual({
+      ok: false,
+      issues: [
+        "translations[0].actionItem: expected a non-empty string",
+        "translations[0].notes: expected a string or null",
+      ],
+    });
+    expect(parseTranslationResponse("not json", 1)).toEqual({ ok: false, issues: ["response is not valid JSON"] });
+  });
+});
+
+describe("translateItems", () => {
+  const items = [{ actionItem: "Das Budget an die Buchhaltung schicken", notes: null }];
+
+  it("names both languages and returns the translations", async () => {
+    const prompts: string[] = [];
+    const provider = createFakeProvider((request) => {
+      prompts.push(request.messages[0].content);
+      return JSON.stringify({ translations: [{ actionItem: "Send the budget to finance", notes: null }] });
+    });
+
+    await expect(translateItems(provider, items, { from: "de", to: "en" })).resolves.toEqual([
+      { actionItem: "Send the budget to finance", notes: null },
+    ]);
+    expect(prompts[0]).toContain("from German into English");
+  });
+
+  it("asks once for a repair, then gives up with a TranslationError", async () => {
+    let calls = 0;
+    const provider = createFakeProvider(() => {
+      calls++;
+      return calls === 1 ? "{}" : JSON.stringify({ translations: [] });
+    });
+
+    await expect(translateItems(provider, items, { from: "de", to: "en" })).rejects.toBeInstanceOf(TranslationError);
+    expect(calls).toBe(2);
+  });
+
+  it("doesn't call the model without items", async () => {
+    const provider = createFakeProvider(() => {
+      throw new Error("unexpected call");
+    });
+
+    await expect(translateItems(provider, [], { from: null, to: "en" })).resolves.toEqual([]);
+  });
+});
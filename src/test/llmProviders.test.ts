@@ -0,0 +1,97 @@
+import { afterEach, describe, it, expect, vi } from "vitest";
+import { resolveLlmConfig } from "../../supabase/functions/_shared/llm/config";
+import { createFakeProvider } from "../../supabase/functions/_shared/llm/fake";
+import { createOpenAiCompatibleProvider } from "../../supabase/functions/_shared/llm/openaiCompatible";
+import { ProviderError } from "../../supabase/functions/_shared/llm/types";
+
+const envFrom = (values: Record<string, string>) => (name: string) => values[name];
+
+describe("resolveLlmConfig", () => {
+  it("keeps the existing defaults for each function", () => {
+    const env = envFrom({ LOVABLE_API_KEY: "lovable-key", GOOGLE_API_KEY: "google-key" });
+
+    expect(resolveLlmConfig("extraction", env)).toMatchObject({
+      provider: "lovable",
+      model: "google/gemini-3-flash-preview",
+      apiKey: "lovable-key",
+    });
+    expect(resolveLlmConfig("transcription", env)).toMatchObject({
+      provider: "gemini",
+      model: "gemini-1.5-flash",
+      apiKey: "google-key",
+    });
+  });
+
+  it("lets a purpose-specific setting override the shared one", () => {
+    const env = envFrom({
+      LLM_PROVIDER: "openai",
+      LLM_MODEL: "qwen2.5:14b",
+      TRANSCRIPTION_LLM_PROVIDER: "fake",
+    });
+
+    expect(resolveLlmConfig("extraction", env)).toEqual({
+      provider: "openai",
+      model: "qwen2.5:14b",
+      baseUrl: "http://localhost:11434/v1",
+      apiKey: undefined,
+    });
+    expect(resolveLlmConfig("transcription", env)).toEqual({ provider: "fake" });
+    expect(() => resolveLlmConfig("extraction", envFrom({ LLM_PROVIDER: "claude" }))).toThrow(
+      'Unknown LLM provider "claude"'
+    );
+  });
+});
+
+describe("LLM providers", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("sends chat completions to an OpenAI-compatible endpoint", async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ model: "llama3.1", choices: [{ message: { content: "[]" } }] }))
+    );
+    vi.stubGlobal("fetch", fetchMock);
+    const provider = createOpenAiCompatibleProvider({
+      id: "openai",
+      baseUrl: "http://ollama:11434/v1/",
+      model: "llama3.1",
+    });
+
+    const response = await provider.complete({ messages: [{ role: "user", content: "Hi" }] });
+
+    expect(response).toEqual({ text: "[]", model: "llama3.1" });
+    expect(fetchMock).toHaveBeenCalledWith("http://ollama:11434/v1/chat/completions", expect.anything());
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      model: "llama3.1",
+      messages: [{ role: "user", content: "Hi" }],
+    });
+  });
+
+  it("maps rate limits to a ProviderError with the upstream status", async () => {
+    vi.stubGlobal("fetch", vi.fn().mockResolvedValue(new Response("slow down", { status: 429 })));
+    const provider = createOpenAiCompatibleProvider({
+      id: "lovable",
+      baseUrl: "https://gateway.test/v1",
+      model: "test-model",
+      apiKey: "key",
+    });
+
+    const error = await provider.complete({ messages: [] }).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error.status).toBe(429);
+  });
+
+  it("answers deterministically with the fake provider", async () => {
+    const provider = createFakeProvider();
+
+    await expect(provider.complete({ messages: [] })).resolves.toEqual({ text: "[]", model: "fake" });
+    await expect(
+      provider.complete({ messages: [], json: true, audio: { data: new Uint8Array(3), mimeType: "audio/wav" } })
+    ).resolves.toEqual({
+      text: JSON.stringify({ transcript: "[00:00:00] Speaker 1: Test recording (3 bytes)." }),
+      model: "fake",
+    });
+  });
+});
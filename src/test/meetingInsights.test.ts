@@ -0,0 +1,90 @@
+import { describe, it, expect } from "vitest";
+import { formatMeetingNotes, type MeetingInsight } from "@/lib/meetingInsights";
+
+const insight = (kind: string, text: string, position: number, owner: string | null = null): MeetingInsight => ({
+  id: `${kind}-${position}`,
+  meeting_id: "meeting",
+  user_id: "user",
+  kind,
+  position,
+  text,
+  owner,
+  source_chunks: [0],
+  source_quote: null,
+  source_start: null,
+  source_end: null,
+  source_timestamp: null,
+  action_item_id: null,
+  created_at: "2026-10-19T14:30:00Z",
+});
+
+describe("formatMeetingNotes", () => {
+  it("lists action items, then each non-empty insight section in order", () => {
+    const notes = formatMeetingNotes({
+      title: "Launch sync",
+      meetingDate: "2026-10-19T14:30:00",
+      actionItems: [
+        { action_item: "Send the budget", owner: "Jane", deadline: "2026-10-23T12:00:00", priority: "High" },
+        { action_item: "Book the venue", owner: null, deadline: null, priority: null },
+      ],
+      insights: [
+        insight("question", "Who signs off?", 0),
+        insight("decision", "Launch after the freeze", 2),
+        insight("decision", "Launch on November 3rd", 1, "Jane"),
+      ],
+    });
+
+    expect(notes).toBe(
+      [
+        "# Launch sync",
+        "",
+        "October 19, 2026 2:30 PM",
+        "",
+        "## Action Items",
+        "",
+        "- [ ] Send the budget (Jane, due Oct 23, 2026, High priority)",
+        "- [ ] Book the venue",
+        "",
+        "## Decisions",
+        "",
+        "- Launch on November 3rd (Jane)",
+        "- Launch after the freeze",
+        "",
+        "## Open Questions",
+        "",
+        "- Who signs off?",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("leads with the summary and its key points", () => {
+    const notes = formatMeetingNotes({
+      title: "Launch sync",
+      meetingDate: "2026-10-19T14:30:00",
+      actionItems: [],
+      insights: [],
+      summary: "The team agreed the launch plan.",
+      keyPoints: ["Launch on November 3rd"],
+    });
+
+    expect(notes).toBe(
+      [
+        "# Launch sync",
+        "",
+        "October 19, 2026 2:30 PM",
+        "",
+        "## Summary",
+        "",
+        "The team agreed the launch plan.",
+        "",
+        "- Launch on November 3rd",
+        "",
+        "## Action Items",
+        "",
+        "_None_",
+        "",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, it, expect } from "vitest";
+import { extractAttendees, parseAttendees, parseFilenameDate, readMeetingMetadata } from "@/lib/meetingMetadata";
+
+describe("parseFilenameDate", () => {
+  it("reads dates and times from common recording names", () => {
+    expect(parseFilenameDate("2024-03-05 14-30 Standup.m4a")).toEqual(new Date(2024, 2, 5, 14, 30));
+    expect(parseFilenameDate("GMT20240305-143000_Recording.txt")).toEqual(new Date(2024, 2, 5, 14, 30));
+    expect(parseFilenameDate("Planning 2024_03_05.docx")).toBeNull();
+    expect(parseFilenameDate("Q1 planning.txt")).toBeNull();
+  });
+});
+
+describe("extractAttendees", () => {
+  it("merges the attendee list with speakers and keeps emails", () => {
+    const content = "Weekly sync\nAttendees\nJane Doe <jane@acme.com>, Sam Lee\n\nJane Doe: Hello";
+
+    expect(extractAttendees(content, ["Jane Doe", "Priya"])).toEqual([
+      { name: "Jane Doe", email: "jane@acme.com" },
+      { name: "Sam Lee", email: null },
+      { name: "Priya", email: null },
+    ]);
+  });
+});
+
+describe("parseAttendees", () => {
+  it("skips malformed entries", () => {
+    expect(parseAttendees([{ name: "Jane", email: "" }, "Sam", { email: "sam@acme.com" }, null])).toEqual([
+      { name: "Jane", email: null },
+      { name: "sam@acme.com", email: "sam@acme.com" },
+    ]);
+    expect(parseAttendees(null)).toEqual([]);
+  });
+});
+
+describe("readMeetingMetadata", () => {
+  it("derives duration and start from a timestamped transcript", async () => {
+    const modified = new Date(2024, 2, 5, 15, 0).getTime();
+    const file = new File(["x"], "notes.txt", { type: "text/plain", lastModified: modified });
+    const content = "[00:00:05] Jane: Welcome.\n[00:29:50] Sam: I'll send the notes.";
+
+    const metadata = await readMeetingMetadata(file, content);
+
+    expect(metadata.durationMinutes).toBe(30);
+    expect(metadata.startedAt).toEqual(new Date(modified - 1790 * 1000));
+    expect(metadata.attendees.map((attendee) => attendee.name)).toEqual(["Jane", "Sam"]);
+  });
+});
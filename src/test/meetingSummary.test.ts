@@ -0,0 +1,37 @@
+import { describe, it, expect } from "vitest";
+import { MAX_KEY_POINTS, parseSummaryResponse } from "../../supabase/functions/summarize-meeting/summary";
+
+describe("parseSummaryResponse", () => {
+  it("accepts a fenced summary and tidies its key points", () => {
+    const result = parseSummaryResponse(
+      '```json\n{ "summary": " The team agreed the launch plan. ", "keyPoints": ["- Launch on the 3rd", "", "• Jane owns the budget"] }\n```'
+    );
+
+    expect(result).toEqual({
+      ok: true,
+      summary: {
+        summary: "The team agreed the launch plan.",
+        keyPoints: ["Launch on the 3rd", "Jane owns the budget"],
+      },
+    });
+  });
+
+  it("treats missing key points as none and caps long lists", () => {
+    expect(parseSummaryResponse('{ "summary": "Short sync." }')).toEqual({
+      ok: true,
+      summary: { summary: "Short sync.", keyPoints: [] },
+    });
+
+    const points = Array.from({ length: MAX_KEY_POINTS + 3 }, (_, index) => `Point ${index + 1}`);
+    const result = parseSummaryResponse(JSON.stringify({ summary: "Long meeting.", keyPoints: points }));
+    expect(result).toEqual({ ok: true, summary: { summary: "Long meeting.", keyPoints: points.slice(0, MAX_KEY_POINTS) } });
+  });
+
+  it("reports issues the model can repair", () => {
+    expect(parseSummaryResponse("Here is the summary")).toEqual({ ok: false, issues: ["The response is not valid JSON."] });
+    expect(parseSummaryResponse('{ "summary": "", "keyPoints": ["ok", 3] }')).toEqual({
+      ok: false,
+      issues: ["summary: expected a non-empty string", "keyPoints[1]: expected a string"],
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import {
+  extraFieldKey,
+  extraFieldsSchema,
+  resolveTemplate,
+  templateExtras,
+  templatePrompt,
+} from "../../supabase/functions/extract-actions/templates";
+import {
+  BUILT_IN_TEMPLATES,
+  formatExtraFieldList,
+  parseExtraFieldList,
+  readCustomTemplates,
+  withCustomTemplates,
+  type CustomTemplate,
+} from "@/lib/meetingTemplates";
+
+const board: CustomTemplate = {
+  id: "custom-board",
+  name: "Board meeting",
+  description: "Resolutions and follow-ups",
+  instructions: "Extract every resolution as a decision.",
+  priorityRules: "Requests from the chair are High.",
+  extraFields: [{ label: "Board member", description: "who on the board asked for it" }],
+};
+
+describe("resolveTemplate", () => {
+  const preferences = withCustomTemplates({ deadlines: { timeZone: "Europe/Berlin" } }, [board]);
+
+  it("finds built-in and custom templates", () => {
+    expect(resolveTemplate("retro", preferences).name).toBe("Retrospective");
+    expect(resolveTemplate("custom-board", preferences)).toMatchObject({
+      name: "Board meeting",
+      extraFields: [{ label: "Board member", description: "who on the board asked for it" }],
+    });
+  });
+
+  it("falls back to the general template", () => {
+    expect(resolveTemplate("custom-deleted", preferences).id).toBe("general");
+    expect(resolveTemplate(null, null).id).toBe("general");
+  });
+
+  it("matches the templates offered in the app", () => {
+    for (const { id } of BUILT_IN_TEMPLATES) {
+      expect(resolveTemplate(id, null).id).toBe(id);
+    }
+  });
+});
+
+describe("templatePrompt", () => {
+  it("adds nothing for the general template", () => {
+    const general = resolveTemplate("general", null);
+    expect(templatePrompt(general)).toBe("");
+    expect(extraFieldsSchema(general)).toBeNull();
+  });
+
+  it("adds instructions, priority rules and extra fields", () => {
+    const template = resolveTemplate("custom-board", withCustomTemplates(null, [board]));
+    const prompt = templatePrompt(template);
+
+    expect(prompt).toContain("Meeting type: Board meeting\nExtract every resolution as a decision.");
+    expect(prompt).toContain("Requests from the chair are High.");
+    expect(prompt).toContain("- boardMember: who on the board asked for it");
+    expect(extraFieldsSchema(template)).toBe('{ "boardMember": "string or null" }');
+  });
+
+  it("stores extra fields by label and drops unknown ones", () => {
+    const template = resolveTemplate("planning", null);
+    expect(templateExtras({ estimate: "3 points", ticket: " ", owner: "Jane" }, template)).toEqual({
+      Estimate: "3 points",
+    });
+  });
+});
+
+describe("extra field lists", () => {
+  it("derives keys from labels", () => {
+    expect(extraFieldKey("Next step")).toBe("nextStep");
+    expect(extraFieldKey("ROI (est.)")).toBe("roiEst");
+  });
+
+  it("round-trips the one-per-line format", () => {
+    const text = "Board member: who asked\nQuarter";
+    expect(parseExtraFieldList(text)).toEqual([
+      { label: "Board member", description: "who asked" },
+      { label: "Quarter", description: "" },
+    ]);
+    expect(formatExtraFieldList(parseExtraFieldList(text))).toBe(text);
+  });
+
+  it("keeps other preferences when saving templates", () => {
+    const preferences = withCustomTemplates({ deadlines: { holidays: [] } }, [board]);
+    expect(preferences).toMatchObject({ deadlines: { holidays: [] } });
+    expect(readCustomTemplates(preferences)).toEqual([board]);
+  });
+});
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import { extractOffline, MAX_OFFLINE_CONFIDENCE } from "../../supabase/functions/extract-actions/offline";
+
+describe("extractOffline", () => {
+  const transcript = [
+    "[00:00:05] Jane: Thanks all. I'll send the revised budget by Friday.",
+    "[00:00:20] Bob: Mark, can you update the launch checklist?",
+    "[00:00:31] Mark: Sure, will do.",
+    "[00:00:40] Jane: Action: Bob to book the venue ASAP.",
+    "[00:00:52] Bob: I think we're close. We agreed to launch on November 3rd.",
+    "[00:01:04] Mark: The blocker is the vendor contract.",
+  ].join("\n");
+
+  const { actionItems, insights } = extractOffline(transcript, {
+    attendees: [{ name: "Jane Doe" }, { name: "Mark Lee" }],
+  });
+
+  it("finds commitments, requests and explicit actions with their owners and deadline phrases", () => {
+    expect(
+      actionItems.map(({ actionItem, owner, deadlinePhrase, priority }) => ({ actionItem, owner, deadlinePhrase, priority }))
+    ).toEqual([
+      { actionItem: "Send the revised budget", owner: "Jane", deadlinePhrase: "by Friday", priority: "Medium" },
+      { actionItem: "Update the launch checklist", owner: "Mark Lee", deadlinePhrase: null, priority: "Medium" },
+      { actionItem: "Book the venue ASAP", owner: "Bob", deadlinePhrase: null, priority: "High" },
+    ]);
+  });
+
+  it("quotes the sentence each item came from and keeps confidence below review", () => {
+    expect(actionItems[0].sourceQuote).toBe("I'll send the revised budget by Friday.");
+    actionItems.forEach((item) => {
+      expect(item.confidence).toBeLessThanOrEqual(MAX_OFFLINE_CONFIDENCE);
+      expect(item.notes).toMatch(/offline extractor/);
+    });
+  });
+
+  it("picks out decisions and risks, and skips manners of speech", () => {
+    expect(insights.map(({ kind, text }) => ({ kind, text }))).toEqual([
+      { kind: "decision", text: "We agreed to launch on November 3rd" },
+      { kind: "risk", text: "The blocker is the vendor contract" },
+    ]);
+    expect(actionItems.some((item) => /think/i.test(item.actionItem))).toBe(false);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildDirectory,
+  matchOwner,
+  parseOwnerText,
+  type DirectoryPerson,
+} from "../../supabase/functions/extract-actions/owners";
+
+const person = (overrides: Partial<DirectoryPerson>): DirectoryPerson => ({
+  id: overrides.name?.toLowerCase().replace(/\s+/g, "-") ?? null,
+  name: "",
+  email: null,
+  aliases: [],
+  team: null,
+  ...overrides,
+});
+
+const directory = [
+  person({ name: "John Doe", email: "john.doe@acme.com", aliases: ["JD"], team: "Infrastructure" }),
+  person({ name: "John Smith", email: "jsmith@acme.com", team: "Design" }),
+  person({ name: "Priya Raman", email: "priya@acme.com", aliases: ["PR"] }),
+  person({ name: "Christopher Lee", email: "chris.lee@acme.com" }),
+];
+
+const matchedName = (owner: string, people = directory) => {
+  const match = matchOwner(owner, null, people);
+  return match.status === "matched" ? match.person.name : match.status;
+};
+
+describe("parseOwnerText", () => {
+  it("separates a team from the name", () => {
+    expect(parseOwnerText("john from infra")).toEqual({ name: "john", team: "infra" });
+    expect(parseOwnerText("John (Design)")).toEqual({ name: "John", team: "Design" });
+    expect(parseOwnerText("John on the design team")).toEqual({ name: "John", team: "design" });
+    expect(parseOwnerText("Priya")).toEqual({ name: "Priya", team: null });
+  });
+});
+
+describe("matchOwner", () => {
+  it("matches full names, aliases, initials and email handles", () => {
+    expect(matchedName("john doe")).toBe("John Doe");
+    expect(matchedName("JD")).toBe("John Doe");
+    expect(matchedName("Priya")).toBe("Priya Raman");
+    expect(matchedName("jsmith")).toBe("John Smith");
+    expect(matchedName("Chris")).toBe("Christopher Lee");
+    expect(matchedName("John S.")).toBe("John Smith");
+  });
+
+  it("tolerates a misspelled full name", () => {
+    expect(matchedName("Pria Raman")).toBe("Priya Raman");
+  });
+
+  it("uses a team hint to pick between people with the same first name", () => {
+    expect(matchedName("john from infra")).toBe("John Doe");
+    expect(matchedName("John (design)")).toBe("John Smith");
+  });
+
+  it("offers candidates when a name fits several people", () => {
+    const match = matchOwner("John", null, directory);
+    expect(match.status).toBe("ambiguous");
+    if (match.status !== "ambiguous") return;
+    expect(match.candidates.map((candidate) => candidate.name)).toEqual(["John Doe", "John Smith"]);
+    expect(match.candidates[0]).toMatchObject({ personId: "john-doe", email: "john.doe@acme.com" });
+  });
+
+  it("prefers the person who attended the meeting", () => {
+    const people = buildDirectory(directory, [{ name: "John Smith", email: "jsmith@acme.com" }]);
+    expect(matchedName("John", people)).toBe("John Smith");
+  });
+
+  it("matches on a model-supplied email before the name", () => {
+    const match = matchOwner("Johnny", "JSMITH@acme.com", directory);
+    expect(match.status === "matched" && match.person.name).toBe("John Smith");
+  });
+
+  it("leaves unknown owners alone", () => {
+    expect(matchOwner("Marketing", null, directory)).toEqual({ status: "unmatched" });
+    expect(matchOwner(null, null, directory)).toEqual({ status: "unmatched" });
+  });
+});
+
+describe("buildDirectory", () => {
+  it("adds attendees who are not in the directory", () => {
+    const people = buildDirectory(directory, [
+      { name: "Priya Raman", email: null },
+      { name: "Sam Ortiz", email: "sam@acme.com" },
+    ]);
+    expect(people.find((entry) => entry.name === "Priya Raman")?.attending).toBe(true);
+    expect(people.find((entry) => entry.name === "Sam Ortiz")).toMatchObject({ id: null, attending: true });
+    expect(matchedName("Sam", people)).toBe("Sam Ortiz");
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect } from "vitest";
+import {
+  canResumeJob,
+  currentStep,
+  formatStepDuration,
+  planProcessingSteps,
+  readStepResult,
+  stepDurationSeconds,
+  type ProcessingStep,
+} from "@/lib/processingJobs";
+import {
+  isRetryable,
+  remainingSteps,
+  retryDelayMs,
+  type StepState,
+} from "../../supabase/functions/process-meeting/steps";
+
+const step = (overrides: Partial<ProcessingStep>): ProcessingStep => ({
+  id: overrides.step ?? "extract",
+  job_id: "job",
+  user_id: "user",
+  step: "extract",
+  position: 0,
+  status: "pending",
+  attempts: 0,
+  error: null,
+  result: {},
+  started_at: null,
+  finished_at: null,
+  created_at: "2026-10-19T10:00:00Z",
+  updated_at: "2026-10-19T10:00:00Z",
+  ...overrides,
+});
+
+describe("planProcessingSteps", () => {
+  it("uploads and transcribes audio before extracting and summarizing", () => {
+    expect(planProcessingSteps({ hasAudio: true, offline: false })).toEqual([
+      { step: "upload", status: "pending", position: 0 },
+      { step: "transcribe", status: "pending", position: 1 },
+      { step: "extract", status: "pending", position: 2 },
+      { step: "summarize", status: "pending", position: 3 },
+    ]);
+  });
+
+  it("skips what text transcripts and offline meetings don't need", () => {
+    expect(
+      planProcessingSteps({ hasAudio: false, offline: true }).map(({ step, status }) => `${step}:${status}`)
+    ).toEqual(["upload:skipped", "transcribe:skipped", "extract:pending", "summarize:skipped"]);
+  });
+});
+
+describe("currentStep", () => {
+  it("prefers the running step, then the first one left to run", () => {
+    const steps = [
+      step({ step: "upload", position: 0, status: "completed" }),
+      step({ step: "transcribe", position: 1, status: "failed" }),
+      step({ step: "extract", position: 2 }),
+    ];
+
+    expect(currentStep(steps)?.step).toBe("transcribe");
+    expect(currentStep([...steps.slice(0, 2), step({ step: "extract", position: 2, status: "running" })])?.step).toBe(
+      "extract"
+    );
+    expect(currentStep([step({ status: "completed" })])).toBeNull();
+  });
+});
+
+describe("canResumeJob", () => {
+  const now = new Date("2026-10-19T11:00:00Z");
+
+  it("offers to resume failed jobs and ones that stalled before finishing", () => {
+    expect(canResumeJob({ status: "failed", updated_at: "2026-10-19T10:59:00Z" }, now)).toBe(true);
+    expect(canResumeJob({ status: "queued", updated_at: "2026-10-19T10:00:00Z" }, now)).toBe(true);
+    expect(canResumeJob({ status: "running", updated_at: "2026-10-19T10:00:00Z" }, now)).toBe(true);
+  });
+
+  it("leaves jobs that are still moving or finished alone", () => {
+    expect(canResumeJob({ status: "queued", updated_at: "2026-10-19T10:59:00Z" }, now)).toBe(false);
+    expect(canResumeJob({ status: "running", updated_at: "2026-10-19T10:59:00Z" }, now)).toBe(false);
+    expect(canResumeJob({ status: "completed", updated_at: "2026-10-19T10:00:00Z" }, now)).toBe(false);
+  });
+});
+
+describe("step timings", () => {
+  it("measures finished steps and running ones up to now", () => {
+    expect(stepDurationSeconds(step({ started_at: "2026-10-19T10:00:00Z", finished_at: "2026-10-19T10:01:05Z" }))).toBe(65);
+    expect(stepDurationSeconds(step({ started_at: "2026-10-19T10:00:00Z" }), new Date("2026-10-19T10:00:09Z"))).toBe(9);
+    expect(stepDurationSeconds(step({}))).toBeNull();
+    expect(formatStepDuration(9)).toBe("9s");
+    expect(formatStepDuration(65)).toBe("1m 5s");
+  });
+
+  it("reads a step's result, if any", () => {
+    expect(readStepResult(step({ result: { actionItemCount: 4 } }))).toEqual({ actionItemCount: 4 });
+    expect(readStepResult(step({ result: null }))).toEqual({});
+    expect(readStepResult(undefined)).toEqual({});
+  });
+});
+
+describe("process-meeting steps", () => {
+  it("resumes from the first step that didn't finish", () => {
+    const steps: StepState[] = [
+      { id: "4", step: "summarize", position: 3, status: "pending", attempts: 0 },
+      { id: "1", step: "upload", position: 0, status: "skipped", attempts: 0 },
+      { id: "3", step: "extract", position: 2, status: "failed", attempts: 3 },
+      { id: "2", step: "transcribe", position: 1, status: "completed", attempts: 1 },
+    ];
+
+    expect(remainingSteps(steps).map((remaining) => remaining.step)).toEqual(["extract", "summarize"]);
+  });
+
+  it("retries only failures that may pass, backing off each time", () => {
+    expect([408, 409, 429, 500, 503].map(isRetryable)).toEqual([true, true, true, true, true]);
+    expect([400, 401, 402, 404, 422].map(isRetryable)).toEqual([false, false, false, false, false]);
+    expect([1, 2, 3].map(retryDelayMs)).toEqual([2000, 4000, 8000]);
+  });
+});
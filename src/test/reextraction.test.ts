@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { planReextraction, type ExistingActionItem, type ExtractedValues } from "@/lib/reextraction";
+
+const values = (overrides: Partial<ExtractedValues>): ExtractedValues => ({
+  action_item: "Send the revised budget to finance",
+  owner: "Jane Doe",
+  owner_email: null,
+  owner_candidates: [],
+  deadline: null,
+  deadline_phrase: null,
+  priority: "Medium",
+  confidence: 0.8,
+  notes: null,
+  source_chunks: [0],
+  source_quote: null,
+  source_start: null,
+  source_end: null,
+  source_timestamp: null,
+  extra: {},
+  original_action_item: null,
+  original_notes: null,
+  ...overrides,
+});
+
+const existing = (id: string, overrides: Partial<ExistingActionItem>): ExistingActionItem => ({
+  ...values({}),
+  id,
+  edited_fields: [],
+  ...overrides,
+});
+
+describe("planReextraction", () => {
+  it("sorts results into new, changed and vanished items", () => {
+    const plan = planReextraction(
+      [
+        existing("budget", { deadline: "2026-10-23T00:00:00+00:00" }),
+        existing("venue", { action_item: "Book the offsite venue", owner: "Bob" }),
+        existing("agenda", { action_item: "Share the agenda", owner: "Priya" }),
+      ],
+      [
+        values({ deadline: "2026-10-23", confidence: 0.95 }),
+        values({ action_item: "Book the venue for the offsite", owner: "Bob", priority: "High" }),
+        values({ action_item: "Draft the hiring plan", owner: "Sam" }),
+      ]
+    );
+
+    expect(plan.added.map((item) => item.action_item)).toEqual(["Draft the hiring plan"]);
+    expect(plan.changed).toEqual([
+      {
+        item: expect.objectContaining({ id: "venue" }),
+        updates: { action_item: "Book the venue for the offsite", priority: "High" },
+        keptEdits: [],
+      },
+    ]);
+    expect(plan.vanished.map((item) => item.id)).toEqual(["agenda"]);
+    // Same deadline in another format, and only the confidence moved
+    expect(plan.unchangedCount).toBe(1);
+  });
+
+  it("never updates fields the user edited", () => {
+    const plan = planReextraction(
+      [existing("budget", { owner: "Finance team", priority: "High", edited_fields: ["owner", "priority"] })],
+      [values({ owner: "Jane Doe", priority: "Low", notes: "Include travel" })]
+    );
+
+    expect(plan.changed).toEqual([
+      {
+        item: expect.objectContaining({ id: "budget" }),
+        updates: { notes: "Include travel" },
+        keptEdits: ["owner", "priority"],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it, expect } from "vitest";
+import { groupTurns, parseTranscriptText } from "@/lib/transcript/segments";
+import { parseTranscriptSegments } from "../../supabase/functions/transcribe-audio/stitching";
+
+describe("groupTurns", () => {
+  it("groups consecutive segments by the same speaker", () => {
+    const segments = parseTranscriptText(
+      "[00:00:01] Jane: Morning.\n[00:00:04] Jane: Quick update.\n[00:00:09] Sam: Thanks.\n[00:00:12] Jane: Sure."
+    );
+
+    expect(
+      groupTurns(segments).map((turn) => [turn.speaker, turn.start, turn.segments.map((s) => s.text).join(" ")])
+    ).toEqual([
+      ["Jane", 1, "Morning. Quick update."],
+      ["Sam", 9, "Thanks."],
+      ["Jane", 12, "Sure."],
+    ]);
+  });
+});
+
+describe("parseTranscriptSegments", () => {
+  it("ends each transcribed turn where the next one starts", () => {
+    expect(parseTranscriptSegments("[00:00:02] Jane: Hi all.\n[00:01:10] Sam: Hello.")).toEqual([
+      { speaker: "Jane", start_seconds: 2, end_seconds: 70, text: "Hi all." },
+      { speaker: "Sam", start_seconds: 70, end_seconds: null, text: "Hello." },
+    ]);
+  });
+});
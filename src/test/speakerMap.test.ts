@@ -0,0 +1,34 @@
+import { describe, it, expect } from "vitest";
+import { applySpeakerMap, detectSpeakers, parseSpeakerMap } from "@/lib/speakerMap";
+import { parseTranscriptText } from "@/lib/transcript/segments";
+
+const segments = parseTranscriptText(
+  [
+    "[00:00:01] Speaker 1: Hi.",
+    "[00:00:03] Speaker 2: Let's go through the launch plan today.",
+    "[00:00:09] Speaker 1: I can take the pricing page copy.",
+  ].join("\n")
+);
+
+describe("speaker mapping", () => {
+  it("lists speakers with turn counts and sample utterances", () => {
+    expect(detectSpeakers(segments)).toEqual([
+      { label: "Speaker 1", turnCount: 2, samples: ["I can take the pricing page copy."] },
+      { label: "Speaker 2", turnCount: 1, samples: ["Let's go through the launch plan today."] },
+    ]);
+  });
+
+  it("renames mapped speakers and ignores invalid entries", () => {
+    const map = parseSpeakerMap({
+      "Speaker 1": { name: "Jane Doe", email: "jane@acme.com" },
+      "Speaker 2": { name: " " },
+    });
+
+    expect(map).toEqual({ "Speaker 1": { name: "Jane Doe", email: "jane@acme.com" } });
+    expect(applySpeakerMap(segments, map).map((segment) => segment.speaker)).toEqual([
+      "Jane Doe",
+      "Speaker 2",
+      "Jane Doe",
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from "vitest";
+import { OVERLAP_SECONDS, SEGMENT_SECONDS, splitAudio } from "../../supabase/functions/transcribe-audio/chunking";
+import { stitchTranscripts } from "../../supabase/functions/transcribe-audio/stitching";
+import { audioFileError } from "@/lib/meetingPipeline";
+
+const buildWav = (seconds: number, sampleRate = 8000) => {
+  const dataSize = seconds * sampleRate;
+  const bytes = new Uint8Array(44 + dataSize);
+  const view = new DataView(bytes.buffer);
+  bytes.set(new TextEncoder().encode("RIFF"), 0);
+  view.setUint32(4, 36 + dataSize, true);
+  bytes.set(new TextEncoder().encode("WAVEfmt "), 8);
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, 1, true); // mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate, true); // 8-bit, so one byte per sample
+  view.setUint16(32, 1, true);
+  view.setUint16(34, 8, true);
+  bytes.set(new TextEncoder().encode("data"), 36);
+  view.setUint32(40, dataSize, true);
+  return bytes;
+};
+
+describe("splitAudio", () => {
+  it("cuts WAV audio into overlapping, self-contained segments", () => {
+    const segments = splitAudio(buildWav(1300), "audio/wav")!;
+
+    expect(segments.map(({ startSeconds, endSeconds }) => [startSeconds, endSeconds])).toEqual([
+      [0, SEGMENT_SECONDS],
+      [SEGMENT_SECONDS - OVERLAP_SECONDS, 2 * SEGMENT_SECONDS - OVERLAP_SECONDS],
+      [2 * (SEGMENT_SECONDS - OVERLAP_SECONDS), 1300],
+    ]);
+    const header = new DataView(segments[1].bytes.buffer, segments[1].bytes.byteOffset);
+    expect(header.getUint32(40, true)).toBe(SEGMENT_SECONDS * 8000);
+    expect(segments[1].bytes.length).toBe(44 + SEGMENT_SECONDS * 8000);
+  });
+
+  it("returns null for formats that cannot be split", () => {
+    expect(splitAudio(new Uint8Array(64), "audio/webm")).toBeNull();
+  });
+});
+
+describe("audioFileError", () => {
+  // Only the size is read, so the file doesn't have to hold that many bytes
+  const audioFile = (name: string, type: string, megabytes: number) => {
+    const file = new File([""], name, { type });
+    Object.defineProperty(file, "size", { value: megabytes * 1024 * 1024 });
+    return file;
+  };
+
+  it("turns away long recordings that can't be cut into segments", () => {
+    expect(audioFileError(audioFile("standup.webm", "audio/webm", 30))).toMatch(/only be transcribed as WAV or MP3/);
+    expect(audioFileError(audioFile("standup.m4a", "audio/x-m4a", 30))).toMatch(/standup\.m4a is over 25MB/);
+  });
+
+  it("accepts short recordings and long WAV or MP3 ones", () => {
+    expect(audioFileError(audioFile("standup.webm", "audio/webm", 20))).toBeNull();
+    expect(audioFileError(audioFile("standup.mp3", "audio/mpeg", 80))).toBeNull();
+    expect(audioFileError(audioFile("standup.wav", "audio/wav", 80))).toBeNull();
+    expect(audioFileError(audioFile("notes.txt", "text/plain", 30))).toBeNull();
+  });
+});
+
+describe("stitchTranscripts", () => {
+  it("offsets timestamps, drops overlap duplicates and keeps speaker labels consistent", () => {
+    const transcript = stitchTranscripts([
+      {
+        startSeconds: 0,
+        endSeconds: 600,
+        transcript: [
+          "[00:00:05] Priya: Let's start with the launch checklist.",
+          "[00:09:52] Marcus: I will send the vendor contract by Friday.",
+          "[00:09:58] Priya: Great, thanks Marcus.",
+        ].join("\n"),
+      },
+      {
+        startSeconds: 585,
+        endSeconds: 900,
+        transcript: [
+          "[00:00:07] Speaker 2: I will send the vendor contract by Friday.",
+          "[00:00:13] Speaker 1: Great, thanks Marcus.",
+          "[00:01:00] Speaker 2: Next up is the budget review.",
+        ].join("\n"),
+      },
+    ]);
+
+    expect(transcript.split("\n")).toEqual([
+      "[00:00:05] Priya: Let's start with the launch checklist.",
+      "[00:09:52] Marcus: I will send the vendor contract by Friday.",
+      "[00:09:58] Priya: Great, thanks Marcus.",
+      "[00:10:45] Marcus: Next up is the budget review.",
+    ]);
+  });
+});
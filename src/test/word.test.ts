@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import JSZip from "jszip";
+import * as CFB from "cfb";
+import { parseWordDocument } from "@/lib/transcript/word";
+
+const paragraph = (text: string) => `<w:p><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+
+const row = (...cells: string[]) =>
+  `<w:tr>${cells.map((cell) => `<w:tc>${paragraph(cell)}</w:tc>`).join("")}</w:tr>`;
+
+const buildDocx = async (body: string) => {
+  const zip = new JSZip();
+  zip.file(
+    "word/document.xml",
+    `<?xml version="1.0" encoding="UTF-8"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${body}</w:body></w:document>`
+  );
+  return zip.generateAsync({ type: "uint8array" });
+};
+
+describe("parseWordDocument", () => {
+  it("turns paragraphs and speaker headings into transcript lines", async () => {
+    const docx = await buildDocx(
+      paragraph("Weekly sync") +
+        paragraph("") +
+        paragraph("Jane Doe   0:03") +
+        paragraph("I'll send the deck by Friday.") +
+        paragraph("Sam: Sounds good.")
+    );
+
+    await expect(parseWordDocument(docx)).resolves.toBe(
+      "Weekly sync\n[00:00:03] Jane Doe: I'll send the deck by Friday.\nSam: Sounds good."
+    );
+  });
+
+  it("reads transcript tables and skips their header row", async () => {
+    const docx = await buildDocx(
+      `<w:tbl>${row("Time", "Speaker", "Text")}${row("01:02", "Jane", "Ship it.")}${row("Sam", "Agreed.")}</w:tbl>`
+    );
+
+    await expect(parseWordDocument(docx)).resolves.toBe("[00:01:02] Jane: Ship it.\nSam: Agreed.");
+  });
+
+  it("rejects password-protected documents", async () => {
+    const container = CFB.utils.cfb_new();
+    CFB.utils.cfb_add(container, "EncryptionInfo", new Uint8Array(8));
+    CFB.utils.cfb_add(container, "EncryptedPackage", new Uint8Array(8));
+    const bytes = new Uint8Array(CFB.write(container, { type: "array" }));
+
+    await expect(parseWordDocument(bytes)).rejects.toThrow(/password-protected/);
+  });
+
+  it("rejects files that are not Word documents", async () => {
+    await expect(parseWordDocument(new TextEncoder().encode("plain text"))).rejects.toThrow(
+      /not a valid Word document/
+    );
+  });
+});
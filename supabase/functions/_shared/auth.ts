@@ -0,0 +1,51 @@
+import { createClient, type SupabaseClient } from "npm:@supabase/supabase-js@2";
+
+// Names the user a call from process-meeting acts for; only honoured alongside the service role key
+export const ACTING_USER_HEADER = "X-Acting-User";
+
+export interface Caller {
+  supabase: SupabaseClient;
+  userId: string;
+}
+
+/**
+ * The client and user a request runs as, or null when it isn't authorized. Browsers call with the
+ * user's session. process-meeting calls with the service role key and names the job's user, so a
+ * job that outlasts the session still runs; the service role skips row level security, so callers
+ * scope every query to `userId` themselves.
+ */
+export const authenticate = async (req: Request): Promise<Caller | null> => {
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return null;
+
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !supabaseAnonKey) {
+    throw new Error("Supabase environment variables are not configured");
+  }
+
+  const actingUser = req.headers.get(ACTING_USER_HEADER);
+  if (actingUser && serviceRoleKey && authHeader === `Bearer ${serviceRoleKey}`) {
+    return { supabase: createServiceClient(), userId: actingUser };
+  }
+
+  const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+    global: { headers: { Authorization: authHeader } },
+  });
+  const { data: { user }, error } = await supabase.auth.getUser();
+  if (error || !user) return null;
+
+  return { supabase, userId: user.id };
+};
+
+/** A client with the service role, for work that carries on without the user's session. */
+export const createServiceClient = () => {
+  const supabaseUrl = Deno.env.get("SUPABASE_URL");
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error("Supabase environment variables are not configured");
+  }
+
+  return createClient(supabaseUrl, serviceRoleKey, { auth: { persistSession: false } });
+};
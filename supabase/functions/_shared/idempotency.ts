@@ -0,0 +1,161 @@
+// Idempotency keys for the processing endpoints. A client sends the same Idempotency-Key header
+// when it retries a request; the first request with a key runs, and repeats of it get the stored
+// response instead of running again, so a retry or a double-click can't insert everything twice.
+// Only successful responses are stored: a failed request releases its key, so a retry runs again.
+// Keys expire after a day, when a repeat runs as a new request and the row is cleaned up.
+
+export const IDEMPOTENCY_HEADER = "Idempotency-Key";
+// Set on replayed responses, so clients and logs can tell them apart
+export const REPLAYED_HEADER = "Idempotent-Replayed";
+
+const MAX_KEY_LENGTH = 255;
+// A key still in progress after this long belongs to a request that died, and may be taken over.
+// process-meeting uses the same window for jobs, whose steps hold keys while they run.
+export const STALE_AFTER_MS = 10 * 60 * 1000;
+// How long a key is kept after it is first claimed; delete_expired_idempotency_keys removes it after
+export const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredRequest {
+  requestHash: string;
+  status: "processing" | "completed";
+  responseStatus: number | null;
+  responseBody: unknown;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+/** Where keys are kept, scoped to one user and endpoint. */
+export interface IdempotencyStore {
+  /** Records the key as in progress until `expiresAt`, or returns what is already stored under it. */
+  claim(key: string, requestHash: string, expiresAt: string): Promise<StoredRequest | null>;
+  /** Removes the key if it expired by `now`, leaving a key claimed again since alone. */
+  forgetExpired(key: string, now: string): Promise<void>;
+  /** Takes over a key that has been in progress since before `staleBefore`; false if another request got it. */
+  reclaim(key: string, staleBefore: string): Promise<boolean>;
+  complete(key: string, responseStatus: number, responseBody: unknown): Promise<void>;
+  release(key: string): Promise<void>;
+}
+
+export interface IdempotentRequest {
+  /** Stores a successful response for replay, or releases the key when it failed, and returns the response. */
+  finish(response: Response): Promise<Response>;
+  /** Releases the key, for requests that end by throwing. */
+  release(): Promise<void>;
+}
+
+/** JSON with object keys sorted, so the same payload always hashes the same. */
+export const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .map((key) => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const hashRequest = async (body: unknown) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(canonicalJson(body)));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+};
+
+const jsonResponse = (status: number, body: unknown, headers: Record<string, string>) =>
+  new Response(JSON.stringify(body), { status, headers: { ...headers, "Content-Type": "application/json" } });
+
+// Requests without a key run as they always have
+const UNKEYED_REQUEST: IdempotentRequest = {
+  finish: (response) => Promise.resolve(response),
+  release: () => Promise.resolve(),
+};
+
+/**
+ * Claims the request's Idempotency-Key before it runs. Returns the response to send instead when
+ * the key was used before: the stored one for a repeat, or an error for a conflicting reuse or a
+ * repeat that arrives while the first is still running.
+ */
+export const beginIdempotentRequest = async (
+  req: Request,
+  body: unknown,
+  store: IdempotencyStore,
+  corsHeaders: Record<string, string>,
+  now = new Date()
+): Promise<{ response: Response } | { request: IdempotentRequest }> => {
+  const key = req.headers.get(IDEMPOTENCY_HEADER)?.trim();
+  if (!key) return { request: UNKEYED_REQUEST };
+  if (key.length > MAX_KEY_LENGTH) {
+    return {
+      response: jsonResponse(400, { error: `${IDEMPOTENCY_HEADER} must be at most ${MAX_KEY_LENGTH} characters` }, corsHeaders),
+    };
+  }
+
+  const requestHash = await hashRequest(body);
+  const expiresAt = new Date(now.getTime() + KEY_TTL_MS).toISOString();
+  let stored = await store.claim(key, requestHash, expiresAt);
+  // An expired key is as good as unused, whether or not the cleanup has removed it yet
+  if (stored && new Date(stored.expiresAt) <= now) {
+    await store.forgetExpired(key, now.toISOString());
+    stored = await store.claim(key, requestHash, expiresAt);
+  }
+
+  if (stored) {
+    if (stored.requestHash !== requestHash) {
+      return {
+        response: jsonResponse(
+          422,
+          { error: `This ${IDEMPOTENCY_HEADER} was already used for a different request. Use a new key for a new request.` },
+          corsHeaders
+        ),
+      };
+    }
+    if (stored.status === "completed") {
+      return {
+        response: jsonResponse(stored.responseStatus ?? 200, stored.responseBody, { ...corsHeaders, [REPLAYED_HEADER]: "true" }),
+      };
+    }
+
+    const staleBefore = new Date(now.getTime() - STALE_AFTER_MS);
+    const stale = new Date(stored.updatedAt) < staleBefore;
+    if (!stale || !(await store.reclaim(key, staleBefore.toISOString()))) {
+      return {
+        response: jsonResponse(
+          409,
+          {
+            error: `A request with this ${IDEMPOTENCY_HEADER} is still being processed. Retry once it has finished.`,
+            // Tells clients to wait and ask again, rather than treat the request as failed
+            inProgress: true,
+          },
+          corsHeaders
+        ),
+      };
+    }
+  }
+
+  const release = async () => {
+    try {
+      await store.release(key);
+    } catch (error) {
+      console.error("Error releasing idempotency key:", error);
+    }
+  };
+
+  return {
+    request: {
+      release,
+      finish: async (response) => {
+        if (!response.ok) {
+          await release();
+          return response;
+        }
+        try {
+          await store.complete(key, response.status, await response.clone().json());
+        } catch (error) {
+          // Left in progress rather than released, so a repeat is refused instead of run twice
+          console.error("Error storing idempotent response:", error);
+        }
+        return response;
+      },
+    },
+  };
+};
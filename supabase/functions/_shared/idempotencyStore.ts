@@ -0,0 +1,69 @@
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import type { IdempotencyStore } from "./idempotency.ts";
+
+/** Keeps idempotency keys in the idempotency_keys table, scoped to the user the request is for. */
+export const createIdempotencyStore = (
+  supabase: SupabaseClient,
+  userId: string,
+  endpoint: string
+): IdempotencyStore => {
+  const keyRow = (key: string) => ({ user_id: userId, endpoint, key });
+
+  return {
+    claim: async (key, requestHash, expiresAt) => {
+      const { error } = await supabase
+        .from("idempotency_keys")
+        .insert({ ...keyRow(key), request_hash: requestHash, expires_at: expiresAt });
+      if (!error) return null;
+      // Anything but the key already existing is a real failure
+      if (error.code !== "23505") throw error;
+
+      const { data, error: loadError } = await supabase
+        .from("idempotency_keys")
+        .select("request_hash, status, response_status, response_body, updated_at, expires_at")
+        .match(keyRow(key))
+        .single();
+      if (loadError) throw loadError;
+
+      return {
+        requestHash: data.request_hash,
+        status: data.status,
+        responseStatus: data.response_status,
+        responseBody: data.response_body,
+        updatedAt: data.updated_at,
+        expiresAt: data.expires_at,
+      };
+    },
+
+    forgetExpired: async (key, now) => {
+      const { error } = await supabase.from("idempotency_keys").delete().match(keyRow(key)).lte("expires_at", now);
+      if (error) throw error;
+    },
+
+    reclaim: async (key, staleBefore) => {
+      const { data, error } = await supabase
+        .from("idempotency_keys")
+        .update({ status: "processing" })
+        .match(keyRow(key))
+        .eq("status", "processing")
+        .lt("updated_at", staleBefore)
+        .select("key")
+        .maybeSingle();
+      if (error) throw error;
+      return Boolean(data);
+    },
+
+    complete: async (key, responseStatus, responseBody) => {
+      const { error } = await supabase
+        .from("idempotency_keys")
+        .update({ status: "completed", response_status: responseStatus, response_body: responseBody })
+        .match(keyRow(key));
+      if (error) throw error;
+    },
+
+    release: async (key) => {
+      const { error } = await supabase.from("idempotency_keys").delete().match(keyRow(key));
+      if (error) throw error;
+    },
+  };
+};
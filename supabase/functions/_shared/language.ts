@@ -0,0 +1,66 @@
+// Works out which language a transcript is in from its most common short words, the ones every
+// sentence needs ("und", "the", "nous"). Good enough to tell the languages our users meet in
+// apart, and needs no network.
+
+export const LANGUAGE_NAMES: Record<string, string> = {
+  en: "English",
+  de: "German",
+  fr: "French",
+  es: "Spanish",
+  it: "Italian",
+  nl: "Dutch",
+  pt: "Portuguese",
+};
+
+const FUNCTION_WORDS: Record<string, string[]> = {
+  en: ["the", "and", "is", "that", "it", "we", "you", "this", "for", "with", "will", "have", "are", "can", "should", "what", "next", "week", "let's", "i'll", "not", "but", "be", "of", "to"],
+  de: ["der", "die", "das", "und", "ist", "nicht", "ich", "wir", "sie", "es", "ein", "eine", "zu", "mit", "auf", "für", "den", "dem", "bis", "auch", "noch", "dann", "kannst", "machen", "wird", "bitte", "nächste", "woche", "schon", "aber"],
+  fr: ["le", "la", "les", "et", "est", "je", "nous", "vous", "il", "une", "un", "des", "pour", "avec", "que", "qui", "pas", "sur", "dans", "ce", "ça", "on", "faire", "bien", "semaine", "prochaine", "merci", "oui", "mais", "du"],
+  es: ["el", "los", "las", "y", "es", "yo", "nosotros", "usted", "una", "para", "con", "por", "pero", "muy", "también", "semana", "próxima", "hacer", "gracias", "sí", "está", "vamos", "que", "del", "lo"],
+  it: ["il", "gli", "e", "è", "che", "non", "io", "noi", "una", "per", "con", "sono", "anche", "settimana", "prossima", "fare", "grazie", "sì", "questo", "allora", "della", "lo", "ma", "ci", "di"],
+  nl: ["de", "het", "een", "en", "is", "niet", "ik", "wij", "we", "jij", "je", "dat", "voor", "met", "op", "ook", "nog", "volgende", "week", "maken", "bedankt", "ja", "wordt", "maar", "van"],
+  pt: ["o", "os", "as", "e", "é", "não", "eu", "nós", "você", "uma", "para", "com", "por", "mas", "também", "semana", "próxima", "fazer", "obrigado", "sim", "está", "vamos", "que", "do", "da"],
+};
+
+const WORD_SETS = Object.fromEntries(
+  Object.entries(FUNCTION_WORDS).map(([language, words]) => [language, new Set(words)])
+);
+
+// Too few function words to go on, e.g. a transcript of names and numbers
+const MIN_MATCHES = 5;
+// The winner must be this far ahead of the runner-up, relative to its own count
+const MIN_LEAD = 0.2;
+
+export interface DetectedLanguage {
+  /** ISO 639-1 code, or null when the text doesn't settle it. */
+  language: string | null;
+  /** Share of the winner's function-word matches not also matched by the runner-up. */
+  confidence: number;
+}
+
+/** The spoken words of a transcript, without "[00:01:23] Speaker:" labels. */
+const spokenWords = (transcript: string) =>
+  transcript
+    .split(/\r?\n/)
+    .map((line) => line.replace(/^(?:\[[^\]]+\]\s*)?[^:[\]]{1,60}:\s+/, ""))
+    .join(" ")
+    .toLowerCase()
+    .split(/[^\p{L}']+/u)
+    .filter(Boolean);
+
+export const detectLanguage = (transcript: string): DetectedLanguage => {
+  const counts = Object.fromEntries(Object.keys(WORD_SETS).map((language) => [language, 0]));
+  for (const word of spokenWords(transcript)) {
+    for (const [language, words] of Object.entries(WORD_SETS)) {
+      if (words.has(word)) counts[language]++;
+    }
+  }
+
+  const [[best, bestCount], [, secondCount]] = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const confidence = bestCount === 0 ? 0 : (bestCount - secondCount) / bestCount;
+  if (bestCount < MIN_MATCHES || confidence < MIN_LEAD) return { language: null, confidence };
+
+  return { language: best, confidence: Math.round(confidence * 100) / 100 };
+};
+
+export const languageName = (code: string) => LANGUAGE_NAMES[code] ?? code;
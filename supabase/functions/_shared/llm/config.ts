@@ -0,0 +1,68 @@
+// Chooses the language model backend for the edge functions from configuration:
+//
+//   LLM_PROVIDER   lovable | gemini | openai | fake
+//   LLM_MODEL      model name for the provider
+//   LLM_BASE_URL   endpoint for the openai provider (defaults to a local Ollama)
+//   LLM_API_KEY    key for the openai provider, if the endpoint needs one
+//
+// Each setting can be overridden per use with an EXTRACTION_ or TRANSCRIPTION_ prefix, e.g.
+// TRANSCRIPTION_LLM_PROVIDER=gemini with LLM_PROVIDER=openai for a local extraction model.
+
+import type { LlmConfig, LlmProviderId } from "./types.ts";
+
+export type LlmPurpose = "extraction" | "transcription";
+
+const PROVIDER_IDS: LlmProviderId[] = ["lovable", "gemini", "openai", "fake"];
+export const LOVABLE_BASE_URL = "https://ai.gateway.lovable.dev/v1";
+export const DEFAULT_LOVABLE_MODEL = "google/gemini-3-flash-preview";
+export const DEFAULT_GEMINI_MODEL = "gemini-1.5-flash";
+const FALLBACK_GEMINI_MODEL = "gemini-1.5-flash-latest";
+export const DEFAULT_OPENAI_BASE_URL = "http://localhost:11434/v1";
+export const DEFAULT_OPENAI_MODEL = "llama3.1";
+
+// Extraction has always gone through the Lovable gateway and transcription straight to Gemini.
+const DEFAULT_PROVIDERS: Record<LlmPurpose, LlmProviderId> = {
+  extraction: "lovable",
+  transcription: "gemini",
+};
+
+/** Resolves the provider settings for one use from environment variables. */
+export const resolveLlmConfig = (
+  purpose: LlmPurpose,
+  getEnv: (name: string) => string | undefined
+): LlmConfig => {
+  const prefix = purpose.toUpperCase();
+  const setting = (name: string) => getEnv(`${prefix}_LLM_${name}`) || getEnv(`LLM_${name}`);
+
+  const configured = setting("PROVIDER")?.toLowerCase();
+  if (configured && !PROVIDER_IDS.includes(configured as LlmProviderId)) {
+    throw new Error(`Unknown LLM provider "${configured}". Use one of: ${PROVIDER_IDS.join(", ")}`);
+  }
+  const provider = (configured as LlmProviderId | undefined) ?? DEFAULT_PROVIDERS[purpose];
+
+  switch (provider) {
+    case "lovable":
+      return {
+        provider,
+        model: setting("MODEL") || DEFAULT_LOVABLE_MODEL,
+        baseUrl: LOVABLE_BASE_URL,
+        apiKey: getEnv("LOVABLE_API_KEY"),
+      };
+    case "gemini":
+      return {
+        provider,
+        model: setting("MODEL") || getEnv("GEMINI_MODEL") || DEFAULT_GEMINI_MODEL,
+        apiKey: getEnv("GEMINI_API_KEY") || getEnv("GOOGLE_API_KEY"),
+        fallbackModel: FALLBACK_GEMINI_MODEL,
+      };
+    case "openai":
+      return {
+        provider,
+        model: setting("MODEL") || DEFAULT_OPENAI_MODEL,
+        baseUrl: setting("BASE_URL") || DEFAULT_OPENAI_BASE_URL,
+        apiKey: setting("API_KEY"),
+      };
+    case "fake":
+      return { provider };
+  }
+};
@@ -0,0 +1,19 @@
+import type { LlmProvider, LlmRequest } from "./types.ts";
+
+/**
+ * A deterministic provider for tests and offline development. Without a responder it
+ * returns a fixed one-line transcript for audio and empty JSON for everything else.
+ */
+export const createFakeProvider = (respond?: (request: LlmRequest) => string): LlmProvider => ({
+  id: "fake",
+  model: "fake",
+  supportsAudio: true,
+  complete: (request) => {
+    const text = respond
+      ? respond(request)
+      : request.audio
+        ? JSON.stringify({ transcript: `[00:00:00] Speaker 1: Test recording (${request.audio.data.length} bytes).` })
+        : request.json ? "{}" : "[]";
+    return Promise.resolve({ text, model: "fake" });
+  },
+});
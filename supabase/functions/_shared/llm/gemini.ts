@@ -0,0 +1,91 @@
+import { ProviderError, type LlmProvider, type LlmRequest } from "./types.ts";
+
+interface GeminiOptions {
+  apiKey: string;
+  model: string;
+  fallbackModel?: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = "";
+  const chunkSize = 0x8000;
+
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    const chunk = bytes.subarray(i, i + chunkSize);
+    binary += String.fromCharCode(...chunk);
+  }
+
+  return btoa(binary);
+};
+
+const shouldRetryWithFallbackModel = (error: unknown) => {
+  if (!(error instanceof Error)) return false;
+  const message = error.message.toLowerCase();
+
+  return (
+    message.includes("model") &&
+    (message.includes("not found") ||
+      message.includes("unsupported") ||
+      message.includes("is not found") ||
+      message.includes("permission denied"))
+  );
+};
+
+const toProviderError = (error: unknown) => {
+  const message = error instanceof Error ? error.message : "Gemini request failed";
+  return new ProviderError(message, message.includes("429") ? 429 : 502);
+};
+
+/** Calls Gemini directly through Google's SDK; the only provider that accepts audio. */
+export const createGeminiProvider = ({ apiKey, model, fallbackModel }: GeminiOptions): LlmProvider => {
+  const generate = async (modelName: string, request: LlmRequest) => {
+    const { GoogleGenerativeAI } = await import("npm:@google/generative-ai");
+    const system = request.messages.filter((message) => message.role === "system").map((message) => message.content);
+    const generativeModel = new GoogleGenerativeAI(apiKey).getGenerativeModel({
+      model: modelName,
+      ...(system.length > 0 ? { systemInstruction: system.join("\n\n") } : {}),
+      generationConfig: {
+        temperature: request.temperature ?? 0.1,
+        ...(request.json ? { responseMimeType: "application/json" } : {}),
+      },
+    });
+
+    const prompt = request.messages
+      .filter((message) => message.role !== "system")
+      .map((message) => message.content)
+      .join("\n\n");
+
+    const result = await generativeModel.generateContent([
+      { text: prompt },
+      ...(request.audio
+        ? [{ inlineData: { mimeType: request.audio.mimeType, data: toBase64(request.audio.data) } }]
+        : []),
+    ]);
+    return result.response.text();
+  };
+
+  let activeModel = model;
+
+  return {
+    id: "gemini",
+    model,
+    supportsAudio: true,
+    complete: async (request) => {
+      try {
+        return { text: await generate(activeModel, request), model: activeModel };
+      } catch (primaryError) {
+        if (!fallbackModel || activeModel === fallbackModel || !shouldRetryWithFallbackModel(primaryError)) {
+          throw toProviderError(primaryError);
+        }
+
+        // Stick with the fallback for the rest of this request's calls
+        activeModel = fallbackModel;
+        try {
+          return { text: await generate(activeModel, request), model: activeModel };
+        } catch (fallbackError) {
+          throw toProviderError(fallbackError);
+        }
+      }
+    },
+  };
+};
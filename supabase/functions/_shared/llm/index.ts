@@ -0,0 +1,57 @@
+// Shared language model access for the edge functions; see config.ts for the settings.
+
+import { createFakeProvider } from "./fake.ts";
+import { createGeminiProvider } from "./gemini.ts";
+import { createOpenAiCompatibleProvider } from "./openaiCompatible.ts";
+import {
+  DEFAULT_GEMINI_MODEL,
+  DEFAULT_LOVABLE_MODEL,
+  DEFAULT_OPENAI_BASE_URL,
+  DEFAULT_OPENAI_MODEL,
+  LOVABLE_BASE_URL,
+  resolveLlmConfig,
+  type LlmPurpose,
+} from "./config.ts";
+import { ProviderError, type LlmConfig, type LlmProvider } from "./types.ts";
+
+export { resolveLlmConfig } from "./config.ts";
+export type { LlmPurpose } from "./config.ts";
+export { ProviderError } from "./types.ts";
+export type { LlmConfig, LlmMessage, LlmProvider, LlmRequest, LlmResponse } from "./types.ts";
+
+/**
+ * Builds the configured provider. A missing API key is a ProviderError like any other unavailable
+ * provider, so callers can fall back rather than fail.
+ */
+export const createProvider = (config: LlmConfig): LlmProvider => {
+  switch (config.provider) {
+    case "lovable":
+      if (!config.apiKey) throw new ProviderError("LOVABLE_API_KEY is not configured", 500);
+      return createOpenAiCompatibleProvider({
+        id: "lovable",
+        baseUrl: config.baseUrl ?? LOVABLE_BASE_URL,
+        model: config.model ?? DEFAULT_LOVABLE_MODEL,
+        apiKey: config.apiKey,
+      });
+    case "gemini":
+      if (!config.apiKey) throw new ProviderError("GEMINI_API_KEY (or GOOGLE_API_KEY) is not configured", 500);
+      return createGeminiProvider({
+        apiKey: config.apiKey,
+        model: config.model ?? DEFAULT_GEMINI_MODEL,
+        fallbackModel: config.fallbackModel,
+      });
+    case "openai":
+      return createOpenAiCompatibleProvider({
+        id: "openai",
+        baseUrl: config.baseUrl ?? DEFAULT_OPENAI_BASE_URL,
+        model: config.model ?? DEFAULT_OPENAI_MODEL,
+        apiKey: config.apiKey,
+      });
+    case "fake":
+      return createFakeProvider();
+  }
+};
+
+/** The provider configured for the given use in this function's environment. */
+export const getProvider = (purpose: LlmPurpose) =>
+  createProvider(resolveLlmConfig(purpose, (name) => Deno.env.get(name)));
@@ -0,0 +1,52 @@
+// JSON answers from a model: unwrapped from the code fence models like to add, checked by the
+// caller's parser, and sent back to the model with the parser's issues when they don't pass.
+
+import type { LlmMessage, LlmProvider } from "./types.ts";
+
+/** Strips the markdown code fence models like to wrap JSON in. */
+export const stripCodeFence = (content: string) =>
+  content
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "")
+    .trim();
+
+export interface JsonRequest<T> {
+  /** What the answer is, for logs, e.g. "summary". */
+  name: string;
+  temperature: number;
+  /** Repair attempts allowed after the first answer. */
+  maxRepairs: number;
+  /** Reads an answer, or lists what is wrong with it, phrased so the model can fix it. */
+  parse: (content: string) => { value: T } | { issues: string[] };
+  /** The error thrown once the repairs run out. */
+  onInvalid: (issues: string[], attempts: number) => Error;
+}
+
+/** Asks the model for a JSON answer, sending the issues the parser finds back to it for repair. */
+export const requestJson = async <T>(
+  provider: LlmProvider,
+  messages: LlmMessage[],
+  { name, temperature, maxRepairs, parse, onInvalid }: JsonRequest<T>
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    const { text: content } = await provider.complete({ messages, temperature, json: true });
+    const result = parse(content);
+    if ("value" in result) return result.value;
+
+    console.error(`Invalid ${name} response (attempt ${attempt + 1}):`, result.issues, content);
+    if (attempt >= maxRepairs) throw onInvalid(result.issues, attempt + 1);
+
+    messages = [
+      ...messages,
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `Your response did not match the required schema:
+${result.issues.map((issue) => `- ${issue}`).join("\n")}
+
+Reply with ONLY the corrected JSON object.`,
+      },
+    ];
+  }
+};
@@ -0,0 +1,66 @@
+import { ProviderError, type LlmProvider, type LlmRequest } from "./types.ts";
+
+interface OpenAiCompatibleOptions {
+  id: string;
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  /** Whether the endpoint understands `response_format: { type: "json_object" }`. */
+  supportsJsonMode?: boolean;
+}
+
+/**
+ * Talks to any endpoint implementing the OpenAI chat completions API: the Lovable gateway,
+ * OpenAI itself, or a self-hosted server such as Ollama or vLLM.
+ */
+export const createOpenAiCompatibleProvider = ({
+  id,
+  baseUrl,
+  model,
+  apiKey,
+  supportsJsonMode = true,
+}: OpenAiCompatibleOptions): LlmProvider => ({
+  id,
+  model,
+  supportsAudio: false,
+  complete: async (request: LlmRequest) => {
+    if (request.audio) {
+      throw new ProviderError(`The ${id} provider cannot transcribe audio`, 400);
+    }
+
+    const response = await fetch(`${baseUrl.replace(/\/+$/, "")}/chat/completions`, {
+      method: "POST",
+      headers: {
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        model,
+        messages: request.messages,
+        temperature: request.temperature ?? 0.3,
+        ...(request.json && supportsJsonMode ? { response_format: { type: "json_object" } } : {}),
+      }),
+    }).catch((error) => {
+      // A network failure is an unavailable provider like any other, so callers can fall back
+      throw new ProviderError(`AI provider unreachable: ${error instanceof Error ? error.message : error}`, 503);
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw new ProviderError("Rate limit exceeded. Please try again later.", 429);
+      }
+      if (response.status === 402) {
+        throw new ProviderError("AI credits exhausted. Please add funds to continue.", 402);
+      }
+      const errorText = await response.text();
+      console.error(`${id} provider error:`, response.status, errorText);
+      throw new ProviderError(`AI provider error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    return {
+      text: data.choices?.[0]?.message?.content ?? "",
+      model: data.model ?? model,
+    };
+  },
+});
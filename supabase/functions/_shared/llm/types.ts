@@ -0,0 +1,53 @@
+export interface LlmMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/** Audio sent alongside the prompt, for providers that can listen to it. */
+export interface LlmAudio {
+  data: Uint8Array;
+  mimeType: string;
+}
+
+export interface LlmRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  /** Ask the model to answer with a JSON object (not an array). */
+  json?: boolean;
+  audio?: LlmAudio;
+}
+
+export interface LlmResponse {
+  text: string;
+  /** The model that actually answered, which may be a configured fallback. */
+  model: string;
+}
+
+export interface LlmProvider {
+  id: string;
+  model: string;
+  supportsAudio: boolean;
+  complete: (request: LlmRequest) => Promise<LlmResponse>;
+}
+
+export type LlmProviderId = "lovable" | "gemini" | "openai" | "fake";
+
+export interface LlmConfig {
+  provider: LlmProviderId;
+  model?: string;
+  baseUrl?: string;
+  apiKey?: string;
+  /** Model to retry with when the configured one is unavailable (Gemini only). */
+  fallbackModel?: string;
+}
+
+/** A provider failure with the HTTP status the calling function should respond with. */
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status = 502) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
@@ -0,0 +1,81 @@
+export interface TranscriptChunk {
+  index: number;
+  text: string;
+}
+
+export interface ChunkOptions {
+  maxChars: number;
+  overlapChars: number;
+}
+
+// About 6k tokens per chunk, leaving the prompt and answer plenty of room in small context windows
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = { maxChars: 24_000, overlapChars: 2_000 };
+
+// "[00:01:23] Jane: text" or "Jane: text", the layout transcripts are normalized to
+const SPEAKER_LINE = /^(?:\[[^\]]+\]\s*)?([^:[\]]{1,60}):\s/;
+
+/** Groups lines into speaker turns: a labelled line starts a turn, unlabelled lines continue it. */
+const splitTurns = (transcript: string) => {
+  const turns: { speaker: string | null; lines: string[] }[] = [];
+
+  for (const line of transcript.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const speaker = SPEAKER_LINE.exec(line)?.[1].trim() ?? null;
+    const previous = turns[turns.length - 1];
+    if (previous && (speaker === null || speaker === previous.speaker)) {
+      previous.lines.push(line);
+    } else {
+      turns.push({ speaker, lines: [line] });
+    }
+  }
+
+  return turns.map((turn) => turn.lines.join("\n"));
+};
+
+/**
+ * Splits a transcript into chunks of whole speaker turns. Each chunk after the first repeats
+ * the last turns of the one before it, so an action item discussed across a boundary is seen
+ * in full by at least one chunk. Turns longer than a chunk are split between lines.
+ */
+export const chunkTranscript = (
+  transcript: string,
+  { maxChars, overlapChars }: ChunkOptions = DEFAULT_CHUNK_OPTIONS
+): TranscriptChunk[] => {
+  if (transcript.length <= maxChars) return [{ index: 0, text: transcript }];
+
+  const units = splitTurns(transcript).flatMap((turn) => {
+    if (turn.length <= maxChars) return [turn];
+    // A monologue longer than a chunk: fall back to line boundaries
+    return turn.split("\n");
+  });
+
+  const chunks: string[][] = [];
+  let current: string[] = [];
+  let currentLength = 0;
+  let newUnits = 0;
+
+  for (const unit of units) {
+    if (newUnits > 0 && currentLength + unit.length + 1 > maxChars) {
+      chunks.push(current);
+
+      // Carry the trailing turns over as context for the next chunk
+      const overlap: string[] = [];
+      let overlapLength = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (overlapLength + current[i].length + 1 > overlapChars) break;
+        overlap.unshift(current[i]);
+        overlapLength += current[i].length + 1;
+      }
+      current = overlap;
+      currentLength = overlapLength;
+      newUnits = 0;
+    }
+
+    current.push(unit);
+    currentLength += unit.length + 1;
+    newUnits++;
+  }
+  if (newUnits > 0) chunks.push(current);
+
+  return chunks.map((lines, index) => ({ index, text: lines.join("\n") }));
+};
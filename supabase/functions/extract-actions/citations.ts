@@ -0,0 +1,70 @@
+export interface QuoteLocation {
+  /** Character offsets of the quote in the transcript, end exclusive. */
+  start: number;
+  end: number;
+  /** Seconds from the start of the meeting, from the closest "[HH:MM:SS]" line before the quote. */
+  timestamp: number | null;
+}
+
+const LINE_TIMESTAMP = /^\[(\d{1,2}):(\d{2})(?::(\d{2}))?(?:[.,]\d+)?\]/gm;
+
+const normalizeChar = (char: string) => {
+  if (/[‘’]/.test(char)) return "'";
+  if (/[“”]/.test(char)) return '"';
+  if (/[–—]/.test(char)) return "-";
+  return char.toLowerCase();
+};
+
+/**
+ * Lowercases text and collapses whitespace and typographic punctuation, keeping a map from
+ * each normalized character back to its offset in the original.
+ */
+const normalize = (text: string) => {
+  let normalized = "";
+  const offsets: number[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text[i])) {
+      if (normalized.endsWith(" ") || normalized.length === 0) continue;
+      normalized += " ";
+    } else {
+      normalized += normalizeChar(text[i]);
+    }
+    offsets.push(i);
+  }
+
+  return { normalized, offsets };
+};
+
+const timestampBefore = (transcript: string, offset: number) => {
+  let seconds: number | null = null;
+  for (const match of transcript.matchAll(LINE_TIMESTAMP)) {
+    if (match.index! > offset) break;
+    const [, first, second, third] = match;
+    seconds = third === undefined
+      ? Number(first) * 60 + Number(second)
+      : Number(first) * 3600 + Number(second) * 60 + Number(third);
+  }
+  return seconds;
+};
+
+/**
+ * Finds a quote the model cited in the transcript. Models often change whitespace, quote
+ * marks or case when copying, so the match ignores those; anything else is not found.
+ */
+export const locateQuote = (transcript: string, quote: string | null): QuoteLocation | null => {
+  if (!quote) return null;
+
+  // Drop wrapping quotes and the ellipses models add to signal a partial quote
+  const cleaned = quote.trim().replace(/^["'“‘]+|["'”’]+$/g, "").replace(/^(\.{3}|…)|(\.{3}|…)$/g, "");
+  const needle = normalize(cleaned).normalized.trim();
+  if (!needle) return null;
+
+  const haystack = normalize(transcript);
+  const index = haystack.normalized.indexOf(needle);
+  if (index === -1) return null;
+
+  const start = haystack.offsets[index];
+  const end = haystack.offsets[index + needle.length - 1] + 1;
+  return { start, end, timestamp: timestampBefore(transcript, start) };
+};
@@ -0,0 +1,278 @@
+// Turns deadline phrases ("by next Friday", "end of sprint", "in 3 business days") into calendar
+// dates. Phrases are resolved against the meeting's date in the user's timezone, so a meeting on
+// Monday evening in California is still a Monday meeting, and named periods (EOW, EOM, EOQ, sprint
+// end) land on their last business day, skipping weekends and the user's holidays.
+
+export interface SprintSettings {
+  /** The first day of any sprint, YYYY-MM-DD; later sprints follow on back to back. */
+  start: string;
+  lengthDays: number;
+}
+
+export interface DeadlineSettings {
+  /** IANA timezone name, e.g. "Europe/Berlin". */
+  timeZone: string;
+  /** Non-working days besides weekends, YYYY-MM-DD. */
+  holidays: string[];
+  sprint: SprintSettings | null;
+}
+
+export interface DeadlineContext extends Partial<DeadlineSettings> {
+  /** When the meeting took place, as an ISO timestamp. */
+  meetingDate: string;
+}
+
+// Deadlines are due by the end of the working day in the user's timezone
+const DUE_HOUR = 17;
+const DEFAULT_SPRINT_DAYS = 14;
+
+const WEEKDAYS = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const MONTH_NAME = "(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)";
+const COUNT = `(\\d{1,3}|${Object.keys(NUMBER_WORDS).join("|")})`;
+
+// Every phrase the resolver understands, in the order they are tried
+const PHRASES = [
+  "the day after tomorrow",
+  "today",
+  "tonight",
+  "eod",
+  "cob",
+  "close of business",
+  "end of (?:the )?day",
+  "tomorrow",
+  "next (?:business|working) day",
+  // Counts only set a deadline with "in" or "within": "the last two weeks" doesn't
+  `(?:in|within) ${COUNT} (?:business|working) days?`,
+  `(?:in|within) ${COUNT} days?`,
+  `(?:in|within) ${COUNT} weeks?`,
+  "eow",
+  "end of (?:the |this )?week",
+  "end of next week",
+  "next week",
+  "eom",
+  "end of (?:the |this )?month",
+  "end of next month",
+  "eoq",
+  "end of (?:the |this )?quarter",
+  "end of next quarter",
+  "eoy",
+  "end of (?:the |this )?year",
+  "eos",
+  "(?:the )?end of (?:the |this )?sprint",
+  "end of next sprint",
+  "sprint end",
+  `(?:next |this )?(?:${WEEKDAYS.join("|")})`,
+  `${MONTH_NAME}\\.? \\d{1,2}(?:st|nd|rd|th)?`,
+  `\\d{1,2}(?:st|nd|rd|th)? (?:of )?${MONTH_NAME}`,
+  "\\d{4}-\\d{2}-\\d{2}",
+];
+
+const LEAD_WORDS = "(?:by|before|on|until|till|due|for|within|in|no later than)";
+const DEADLINE_PHRASE = new RegExp(`\\b(?:${LEAD_WORDS}\\s+)?(?:the\\s+)?(${PHRASES.join("|")})\\b`, "i");
+
+/** Finds the first deadline phrase in a sentence: `text` as written, `phrase` without its lead word. */
+export const findDeadlinePhrase = (sentence: string): { text: string; phrase: string } | null => {
+  const match = DEADLINE_PHRASE.exec(sentence);
+  return match ? { text: match[0], phrase: match[1] } : null;
+};
+
+// Calendar dates are handled as UTC midnights, which have no daylight saving shifts
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+const fromIsoDate = (value: string) => new Date(`${value}T00:00:00Z`);
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 86_400_000);
+
+export const isValidTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const zonedParts = (instant: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const part = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return {
+    year: part("year"),
+    month: part("month"),
+    day: part("day"),
+    hour: part("hour"),
+    minute: part("minute"),
+    second: part("second"),
+  };
+};
+
+/** The calendar date an instant falls on in a timezone. */
+export const localDate = (instant: Date, timeZone: string) => {
+  const { year, month, day } = zonedParts(instant, timeZone);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+// How far the timezone's wall clock is ahead of UTC at an instant, in milliseconds
+const offsetAt = (instant: number, timeZone: string) => {
+  const { year, month, day, hour, minute, second } = zonedParts(new Date(instant), timeZone);
+  return Date.UTC(year, month - 1, day, hour, minute, second) - Math.floor(instant / 1000) * 1000;
+};
+
+/** The moment a deadline date falls due: the end of that working day in the user's timezone. */
+export const toDeadlineTimestamp = (date: string, timeZone = "UTC") => {
+  const zone = isValidTimeZone(timeZone) ? timeZone : "UTC";
+  const wallClock = fromIsoDate(date).getTime() + DUE_HOUR * 3_600_000;
+  // Correct by the offset twice, in case the first guess lands across a daylight saving change
+  let instant = wallClock - offsetAt(wallClock, zone);
+  instant = wallClock - offsetAt(instant, zone);
+  return new Date(instant).toISOString();
+};
+
+const parseCount = (value: string) => NUMBER_WORDS[value.toLowerCase()] ?? Number(value);
+
+/**
+ * Resolves a deadline phrase to a calendar date (YYYY-MM-DD), or null for a phrase it doesn't
+ * understand or that needs settings the user hasn't given (sprint end without a sprint).
+ */
+export const resolveDeadline = (phrase: string, context: DeadlineContext): string | null => {
+  const meeting = new Date(context.meetingDate);
+  if (Number.isNaN(meeting.getTime())) return null;
+
+  const timeZone = context.timeZone && isValidTimeZone(context.timeZone) ? context.timeZone : "UTC";
+  const holidays = new Set(context.holidays ?? []);
+  const day = localDate(meeting, timeZone);
+  const weekday = day.getUTCDay();
+
+  const isBusinessDay = (date: Date) =>
+    date.getUTCDay() !== 0 && date.getUTCDay() !== 6 && !holidays.has(toIsoDate(date));
+  const addBusinessDays = (date: Date, count: number) => {
+    let next = date;
+    for (let added = 0; added < count; ) {
+      next = addDays(next, 1);
+      if (isBusinessDay(next)) added++;
+    }
+    return next;
+  };
+  // A period ends on its last working day, but never before the meeting
+  const periodEnd = (last: Date) => {
+    let date = last;
+    while (!isBusinessDay(date) && date > day) date = addDays(date, -1);
+    return toIsoDate(date);
+  };
+  const monthEnd = (monthsAhead: number) =>
+    new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + monthsAhead + 1, 0));
+  const quarterEnd = (quartersAhead: number) =>
+    new Date(Date.UTC(day.getUTCFullYear(), (Math.floor(day.getUTCMonth() / 3) + quartersAhead + 1) * 3, 0));
+  const sprintEnd = (sprintsAhead: number) => {
+    if (!context.sprint) return null;
+    const start = fromIsoDate(context.sprint.start);
+    const length = context.sprint.lengthDays > 0 ? context.sprint.lengthDays : DEFAULT_SPRINT_DAYS;
+    if (Number.isNaN(start.getTime())) return null;
+    const current = Math.floor((day.getTime() - start.getTime()) / (length * 86_400_000));
+    return periodEnd(addDays(start, (current + 1 + sprintsAhead) * length - 1));
+  };
+  // A weekend belongs to the week ahead: its EOW is the coming Friday, and "next week" the one after
+  const daysToFriday = (5 - weekday + 7) % 7;
+  const daysToNextMonday = daysToFriday + 3;
+
+  const text = phrase
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim()
+    .replace(new RegExp(`^${LEAD_WORDS} `), "")
+    .replace(/^the /, "");
+
+  if (text === "day after tomorrow") return toIsoDate(addDays(day, 2));
+  if (/^(?:today|tonight|eod|cob|close of business|end of (?:the )?day)$/.test(text)) return toIsoDate(day);
+  if (text === "tomorrow") return toIsoDate(addDays(day, 1));
+  if (/^next (?:business|working) day$/.test(text)) return toIsoDate(addBusinessDays(day, 1));
+
+  const counted = new RegExp(`^${COUNT} (business day|working day|day|week)s?$`).exec(text);
+  if (counted) {
+    const count = parseCount(counted[1]);
+    if (counted[2] === "day") return toIsoDate(addDays(day, count));
+    if (counted[2] === "week") return toIsoDate(addDays(day, count * 7));
+    return toIsoDate(addBusinessDays(day, count));
+  }
+
+  if (/^(?:eow|end of (?:the |this )?week)$/.test(text)) return periodEnd(addDays(day, daysToFriday));
+  if (text === "end of next week") return periodEnd(addDays(day, daysToNextMonday + 4));
+  if (text === "next week") {
+    const monday = addDays(day, daysToNextMonday);
+    return toIsoDate(isBusinessDay(monday) ? monday : addBusinessDays(monday, 1));
+  }
+  if (/^(?:eom|end of (?:the |this )?month)$/.test(text)) return periodEnd(monthEnd(0));
+  if (text === "end of next month") return periodEnd(monthEnd(1));
+  if (/^(?:eoq|end of (?:the |this )?quarter)$/.test(text)) return periodEnd(quarterEnd(0));
+  if (text === "end of next quarter") return periodEnd(quarterEnd(1));
+  if (/^(?:eoy|end of (?:the |this )?year)$/.test(text)) {
+    return periodEnd(new Date(Date.UTC(day.getUTCFullYear(), 11, 31)));
+  }
+  if (/^(?:eos|end of (?:the |this )?sprint|sprint end)$/.test(text)) return sprintEnd(0);
+  if (text === "end of next sprint") return sprintEnd(1);
+
+  const named = /^(next |this )?(\w+)$/.exec(text);
+  if (named && WEEKDAYS.includes(named[2])) {
+    // "Friday" is the coming one; "next Friday" is the one in the following week
+    const ahead = (WEEKDAYS.indexOf(named[2]) - weekday + 7) % 7 || 7;
+    const inFollowingWeek = named[1]?.trim() === "next" && ahead < daysToNextMonday;
+    return toIsoDate(addDays(day, inFollowingWeek ? ahead + 7 : ahead));
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}$/.test(text)) {
+    return Number.isNaN(fromIsoDate(text).getTime()) || toIsoDate(fromIsoDate(text)) !== text ? null : text;
+  }
+
+  const monthFirst = new RegExp(`^${MONTH_NAME}\\.? (\\d{1,2})`).exec(text);
+  const dayFirst = new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)? (?:of )?${MONTH_NAME}`).exec(text);
+  if (monthFirst || dayFirst) {
+    const month = MONTHS.indexOf((monthFirst ? monthFirst[1] : dayFirst![2]).slice(0, 3));
+    const dayOfMonth = Number(monthFirst ? monthFirst[2] : dayFirst![1]);
+    let date = new Date(Date.UTC(day.getUTCFullYear(), month, dayOfMonth));
+    if (date.getUTCMonth() !== month) return null;
+    // A date already past in the meeting's year means the next one
+    if (date < day) date = new Date(Date.UTC(day.getUTCFullYear() + 1, month, dayOfMonth));
+    return toIsoDate(date);
+  }
+
+  return null;
+};
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Reads the deadline settings kept under `deadlines` in a user's profile preferences. */
+export const readDeadlineSettings = (preferences: unknown): Partial<DeadlineSettings> => {
+  const settings = (preferences as { deadlines?: Record<string, unknown> } | null)?.deadlines;
+  if (!settings || typeof settings !== "object") return {};
+
+  const { timeZone, holidays, sprint } = settings as Record<string, unknown>;
+  const sprintSettings = sprint as Partial<SprintSettings> | null | undefined;
+
+  return {
+    ...(typeof timeZone === "string" && isValidTimeZone(timeZone) ? { timeZone } : {}),
+    ...(Array.isArray(holidays)
+      ? { holidays: holidays.filter((date): date is string => typeof date === "string" && ISO_DATE.test(date)) }
+      : {}),
+    ...(typeof sprintSettings?.start === "string" && ISO_DATE.test(sprintSettings.start)
+      ? {
+        sprint: {
+          start: sprintSettings.start,
+          lengthDays: typeof sprintSettings.lengthDays === "number" && sprintSettings.lengthDays > 0
+            ? sprintSettings.lengthDays
+            : DEFAULT_SPRINT_DAYS,
+        },
+      }
+      : {}),
+  };
+};
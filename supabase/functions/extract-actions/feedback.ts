@@ -0,0 +1,113 @@
+// Reviewer corrections as few-shot examples. Each stored correction pairs a transcript excerpt
+// with the item the reviewer ended up with (or nothing, for a false positive), and the ones
+// closest to the meeting at hand are shown to the model so it stops repeating the same mistakes.
+
+export interface FeedbackItem {
+  action_item?: string | null;
+  owner?: string | null;
+  owner_email?: string | null;
+  deadline_phrase?: string | null;
+  priority?: string | null;
+}
+
+export interface FeedbackExample {
+  kind: "edit" | "delete" | "confirm";
+  excerpt: string;
+  original: FeedbackItem;
+  corrected: FeedbackItem | null;
+  updatedAt: string;
+  /** Recorded by the user extracting, rather than a teammate. */
+  own: boolean;
+}
+
+export const MAX_FEW_SHOT_EXAMPLES = 4;
+
+// Corrections lose half their weight every this many days, as conventions drift
+const HALF_LIFE_DAYS = 30;
+const OWN_BONUS = 0.1;
+// Examples sharing less than this share of their words with the transcript aren't relevant
+const MIN_RELEVANCE = 0.2;
+const MAX_EXCERPT_LENGTH = 500;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "the", "to", "of", "for", "on", "in", "with", "by", "at", "from", "up", "out",
+  "about", "will", "should", "need", "is", "be", "it", "this", "that", "we", "you", "i", "so",
+  "can", "just", "do", "have", "our", "are", "was", "ll", "re", "s", "t", "ok", "yeah",
+]);
+
+const keywords = (text: string) =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+  );
+
+/**
+ * Picks the examples that best fit a transcript: those whose excerpt shares the most words with
+ * it, favouring recent corrections and the user's own. Near-identical excerpts are shown once.
+ */
+export const selectFewShotExamples = (
+  examples: FeedbackExample[],
+  transcript: string,
+  { limit = MAX_FEW_SHOT_EXAMPLES, now = new Date() }: { limit?: number; now?: Date } = {}
+): FeedbackExample[] => {
+  const transcriptWords = keywords(transcript);
+
+  const ranked = examples
+    .map((example) => {
+      const words = keywords(example.excerpt);
+      const overlap = words.size === 0 ? 0 : [...words].filter((word) => transcriptWords.has(word)).length / words.size;
+      const ageDays = Math.max(0, (now.getTime() - new Date(example.updatedAt).getTime()) / 86_400_000);
+      const recency = 0.5 ** (ageDays / HALF_LIFE_DAYS);
+      return { example, words, overlap, score: overlap * (0.5 + 0.5 * recency) + (example.own ? OWN_BONUS : 0) };
+    })
+    .filter(({ overlap }) => overlap >= MIN_RELEVANCE)
+    .sort((a, b) => b.score - a.score);
+
+  const picked: typeof ranked = [];
+  for (const candidate of ranked) {
+    if (picked.length >= limit) break;
+    const duplicate = picked.some(({ words }) => {
+      const shared = [...candidate.words].filter((word) => words.has(word)).length;
+      return shared / Math.max(1, Math.min(words.size, candidate.words.size)) > 0.8;
+    });
+    if (!duplicate) picked.push(candidate);
+  }
+
+  return picked.map(({ example }) => example);
+};
+
+// The item in the shape the model answers with
+const asModelItem = (item: FeedbackItem) =>
+  JSON.stringify({
+    actionItem: item.action_item ?? null,
+    owner: item.owner ?? null,
+    ownerEmail: item.owner_email ?? null,
+    deadlinePhrase: item.deadline_phrase ?? null,
+    priority: item.priority ?? null,
+  });
+
+const clip = (excerpt: string) =>
+  excerpt.length > MAX_EXCERPT_LENGTH ? `${excerpt.slice(0, MAX_EXCERPT_LENGTH).trimEnd()}…` : excerpt;
+
+/** Renders the examples as a section of the system prompt; empty when there are none. */
+export const formatFewShotExamples = (examples: FeedbackExample[]) => {
+  if (examples.length === 0) return "";
+
+  const rendered = examples.map((example, index) => {
+    const lines = [`Example ${index + 1}`, `Transcript: "${clip(example.excerpt)}"`, `Extracted: ${asModelItem(example.original)}`];
+    if (example.kind === "delete" || !example.corrected) {
+      lines.push("Reviewer: not an action item; do not extract passages like this.");
+    } else if (example.kind === "confirm") {
+      lines.push("Reviewer: correct as extracted.");
+    } else {
+      lines.push(`Reviewer corrected it to: ${asModelItem(example.corrected)}`);
+    }
+    return lines.join("\n");
+  });
+
+  return `The reviewer corrected earlier extractions as follows. Apply the same judgement and conventions (wording, owner names, priorities):
+
+${rendered.join("\n\n")}`;
+};
@@ -1,17 +1,76 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { beginIdempotentRequest, type IdempotentRequest } from "../_shared/idempotency.ts";
+import { createIdempotencyStore } from "../_shared/idempotencyStore.ts";
+import { getProvider, ProviderError, type LlmMessage, type LlmProvider } from "../_shared/llm/index.ts";
+import { requestJson } from "../_shared/llm/json.ts";
+import { detectLanguage, languageName } from "../_shared/language.ts";
+import { chunkTranscript } from "../_shared/transcriptChunks.ts";
+import { locateQuote } from "./citations.ts";
+import { isValidTimeZone, readDeadlineSettings, resolveDeadline, toDeadlineTimestamp } from "./dates.ts";
+import { formatFewShotExamples, selectFewShotExamples, type FeedbackExample } from "./feedback.ts";
+import { mergeChunkInsights, mergeChunkItems, type ChunkExtraction } from "./merge.ts";
+import { extractOffline } from "./offline.ts";
+import { buildDirectory, matchOwner } from "./owners.ts";
+import { parseExtractionResponse, type ExtractionResult } from "./schema.ts";
+import { extraFieldsSchema, resolveTemplate, templateExtras, templatePrompt } from "./templates.ts";
+import { TranslationError, translateItems } from "./translation.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, idempotency-key, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
+// The first answer plus this many repair attempts when it doesn't match the schema
+const MAX_REPAIR_ATTEMPTS = 2;
+
+// How many of the latest reviewer corrections are considered as few-shot examples
+const FEEDBACK_POOL_SIZE = 200;
+
+class ExtractionError extends Error {
+  status = 422;
+}
+
+/** Asks the model for the meeting's outcomes, sending schema violations back to it for repair. */
+const requestExtraction = (provider: LlmProvider, messages: LlmMessage[]): Promise<ExtractionResult> =>
+  requestJson(provider, messages, {
+    name: "extraction",
+    temperature: 0.3,
+    maxRepairs: MAX_REPAIR_ATTEMPTS,
+    parse: (content) => {
+      const result = parseExtractionResponse(content);
+      return "result" in result ? { value: result.result } : result;
+    },
+    onInvalid: (issues, attempts) =>
+      new ExtractionError(`The AI response did not match the extraction format after ${attempts} attempts: ${issues[0]}`),
+  });
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  // Set once the meeting is known, so any later failure is recorded on it
+  let markFailed: ((reason: string) => Promise<void>) | null = null;
+  let idempotentRequest: IdempotentRequest | null = null;
+
   try {
-    const { transcript, meetingId, meetingDate } = await req.json();
+    const body = await req.json();
+    const {
+      transcript,
+      meetingId,
+      meetingDate,
+      attendees: rawAttendees,
+      dryRun = false,
+      // The browser's timezone, used unless the user has set one in their preferences
+      timeZone: browserTimeZone,
+      // "ai" falls back to the offline rules when the provider fails; "offline" never calls it
+      extractor = "ai",
+      // The meeting-type template the meeting was saved with
+      template: templateId = null,
+      // Language code to translate action items into, keeping the originals; null leaves them as extracted
+      translateTo = null,
+    } = body;
 
     if (!transcript || !meetingId) {
       return new Response(
@@ -20,18 +79,89 @@ serve(async (req) => {
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    // The signed-in user, or the job's user when process-meeting calls
+    const caller = await authenticate(req);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const { supabase, userId } = caller;
+
+    // A retried or double-submitted request gets the first one's response instead of a second set of items
+    const idempotency = await beginIdempotentRequest(
+      req,
+      body,
+      createIdempotencyStore(supabase, userId, "extract-actions"),
+      corsHeaders
+    );
+    if ("response" in idempotency) return idempotency.response;
+    idempotentRequest = idempotency.request;
+
+    // A dry run only previews a re-extraction, so the meeting and its items are left alone
+    if (!dryRun) {
+      markFailed = async (reason: string) => {
+        const { error } = await supabase
+          .from("meetings")
+          .update({ extraction_status: "failed", extraction_error: reason })
+          .eq("id", meetingId)
+          .eq("user_id", userId);
+        if (error) console.error("Error recording extraction failure:", error);
+      };
     }
 
     const currentDate = meetingDate || new Date().toISOString();
 
-    const systemPrompt = `You are an expert at extracting action items from meeting transcripts. Your task is to analyze the transcript and extract ALL action items with the following details:
+    const { data: profile, error: profileError } = await supabase
+      .from("profiles")
+      .select("preferences")
+      .eq("id", userId)
+      .maybeSingle();
+    if (profileError) console.error("Error loading preferences:", profileError);
+
+    const template = resolveTemplate(templateId, profile?.preferences);
+
+    const deadlineSettings = readDeadlineSettings(profile?.preferences);
+    const deadlineContext = {
+      ...deadlineSettings,
+      meetingDate: currentDate,
+      timeZone: deadlineSettings.timeZone ??
+        (typeof browserTimeZone === "string" && isValidTimeZone(browserTimeZone) ? browserTimeZone : "UTC"),
+    };
+
+    // Phrases are resolved here, not by the model, so "next Friday" means the same thing every time
+    const resolveItemDeadline = (item: { deadline: string | null; deadlinePhrase: string | null }) => {
+      const date = (item.deadlinePhrase && resolveDeadline(item.deadlinePhrase, deadlineContext)) || item.deadline;
+      if (!date) return null;
+      // A bare date is due at the end of that day where the user is, not at midnight UTC
+      return /^\d{4}-\d{2}-\d{2}$/.test(date) ? toDeadlineTimestamp(date, deadlineContext.timeZone) : date;
+    };
+
+    // Attendees captured at upload are the candidate owners for extracted items
+    const attendees: { name: string; email: string | null }[] = Array.isArray(rawAttendees)
+      ? rawAttendees
+        .filter((attendee) => attendee && typeof attendee.name === "string" && attendee.name.trim())
+        .map((attendee) => ({
+          name: attendee.name.trim(),
+          email: typeof attendee.email === "string" && attendee.email.trim() ? attendee.email.trim() : null,
+        }))
+      : [];
+    const attendeeList = attendees
+      .map((attendee) => (attendee.email ? `- ${attendee.name} (${attendee.email})` : `- ${attendee.name}`))
+      .join("\n");
+
+    // Extraction runs in the meeting's language; translation, if wanted, comes afterwards
+    const { language } = detectLanguage(transcript);
+    const languagePrompt = language && language !== "en"
+      ? `The meeting is in ${languageName(language)}. Write action items, notes, decisions, risks and questions in ${languageName(language)}, and quote sourceQuote exactly as spoken. Write deadlinePhrase in English (e.g. "by next Friday"), as it is converted to a date for you.`
+      : "";
+
+    const systemPrompt = `You are an expert at extracting outcomes from meeting transcripts. Your task is to analyze the transcript and extract ALL action items with the following details:
 
 1. Action Item: The specific task or action to be done
 2. Owner: The person responsible (extract name and email if mentioned, format as "Name (@email)")
-3. Deadline: Parse any dates mentioned (relative dates like "next Friday" should be converted to ISO format based on the meeting date: ${currentDate})
+3. Deadline: Copy the words that set the deadline into deadlinePhrase exactly as said ("by next Friday", "end of sprint", "in two business days"); they are converted to a date for you. Fill deadline (YYYY-MM-DD) only when a calendar date is named outright. The meeting took place on ${currentDate}
 4. Priority: Infer from context - "High" for urgent/ASAP/critical, "Medium" for normal, "Low" for when possible
 5. Confidence: Score 0.0-1.0 indicating how confident you are this is a real action item
 
@@ -39,120 +169,222 @@ Rules:
 - Extract action items even if implicit ("I'll handle..." means the speaker is the owner)
 - Use speaker names for ownership when mentioned ("John said he'll..." → owner: John)
 - Flag low confidence (< 0.7) for ambiguous items
-- Output ONLY valid JSON array, no other text`;
-
-    const userPrompt = `Analyze this meeting transcript and extract all action items:
-
-${transcript}
-
-Output ONLY a JSON array with this exact schema:
-[
-  {
-    "actionItem": "string - the task description",
-    "owner": "string or null - person responsible",
-    "ownerEmail": "string or null - email if detected",
-    "deadline": "ISO date string or null",
-    "priority": "High" | "Medium" | "Low",
-    "confidence": number between 0 and 1,
-    "notes": "string or null - relevant context"
-  }
-]`;
-
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-        temperature: 0.3,
-      }),
-    });
+- Quote the supporting passage exactly as it appears in the transcript, without timestamps or speaker labels
+- Output ONLY a valid JSON object, no other text
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(
-          JSON.stringify({ error: "Rate limit exceeded. Please try again later." }),
-          { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
-      }
-      if (response.status === 402) {
-        return new Response(
-          JSON.stringify({ error: "AI credits exhausted. Please add funds to continue." }),
-          { status: 402, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-        );
+Also extract, separately from the action items:
+- Decisions: conclusions the group agreed on ("We'll launch on the 3rd", "Go with vendor B")
+- Risks: risks, blockers and concerns raised that could affect the work
+- Open questions: questions raised but not answered in the meeting
+
+Do not repeat an action item as a decision, and do not list a question that was answered.${attendeeList ? `
+
+Meeting attendees (candidate owners):
+${attendeeList}
+
+When an owner refers to one of these attendees (including by first name), use the attendee's full name and email.` : ""}${languagePrompt ? `
+
+${languagePrompt}` : ""}${templatePrompt(template) ? `
+
+${templatePrompt(template)}` : ""}`;
+
+    const extraSchema = extraFieldsSchema(template);
+
+    // Long transcripts are extracted chunk by chunk, then merged back into one list
+    const chunks = chunkTranscript(transcript);
+
+    // The user's own corrections, the ones nearest this meeting shown as examples
+    const loadFewShotExamples = async () => {
+      const { data, error } = await supabase
+        .from("extraction_feedback")
+        .select("user_id, kind, excerpt, original, corrected, updated_at")
+        // Spelled out, as calls made with the service role skip row level security
+        .eq("user_id", userId)
+        .order("updated_at", { ascending: false })
+        .limit(FEEDBACK_POOL_SIZE);
+      if (error) {
+        console.error("Error loading extraction feedback:", error);
+        return [];
       }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
 
-    const aiResponse = await response.json();
-    const content = aiResponse.choices?.[0]?.message?.content || "[]";
-    
-    // Parse JSON from response (handle potential markdown code blocks)
-    let jsonContent = content.trim();
-    if (jsonContent.startsWith("```json")) {
-      jsonContent = jsonContent.slice(7);
-    } else if (jsonContent.startsWith("```")) {
-      jsonContent = jsonContent.slice(3);
-    }
-    if (jsonContent.endsWith("```")) {
-      jsonContent = jsonContent.slice(0, -3);
-    }
-    
-    let actionItems;
-    try {
-      actionItems = JSON.parse(jsonContent.trim());
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", content);
-      actionItems = [];
+      return selectFewShotExamples(
+        (data ?? []).map((row): FeedbackExample => ({
+          kind: row.kind,
+          excerpt: row.excerpt,
+          original: row.original ?? {},
+          corrected: row.corrected,
+          updatedAt: row.updated_at,
+          own: row.user_id === userId,
+        })),
+        transcript
+      );
+    };
+
+    const extractWithModel = async () => {
+      const provider = getProvider("extraction");
+      const extractions: ChunkExtraction[] = [];
+
+      const examples = await loadFewShotExamples();
+      if (examples.length > 0) console.log(`Using ${examples.length} reviewer correction(s) as examples`);
+      const prompt = examples.length > 0 ? `${systemPrompt}\n\n${formatFewShotExamples(examples)}` : systemPrompt;
+
+      for (const chunk of chunks) {
+        const excerpt = chunks.length > 1
+          ? `This is part ${chunk.index + 1} of ${chunks.length} of a long meeting transcript. Its first lines repeat the end of the previous part. Extract the action items, decisions, risks and open questions discussed in this part:`
+          : "Analyze this meeting transcript and extract all action items, decisions, risks and open questions:";
+
+        const userPrompt = `${excerpt}
+
+${chunk.text}
+
+Output ONLY a JSON object with this exact schema:
+{
+  "actionItems": [
+    {
+      "actionItem": "string - the task description",
+      "owner": "string or null - person responsible",
+      "ownerEmail": "string or null - email if detected",
+      "deadline": "ISO date string or null - only for a calendar date named outright",
+      "deadlinePhrase": "string or null - the words that set the deadline, as said",
+      "priority": "High" | "Medium" | "Low",
+      "confidence": number between 0 and 1,
+      "notes": "string or null - relevant context",
+      "sourceQuote": "string or null - the sentence(s) from the transcript that establish this item, copied word for word"${extraSchema ? `,
+      "extra": ${extraSchema}` : ""}
     }
+  ],
+  "decisions": [{ "text": "string", "owner": "string or null - who decided", "sourceQuote": "string or null" }],
+  "risks": [{ "text": "string", "owner": "string or null - who raised it", "sourceQuote": "string or null" }],
+  "openQuestions": [{ "text": "string", "owner": "string or null - who asked", "sourceQuote": "string or null" }]
+}`;
 
-    // Get auth context for user ID
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+        const { actionItems: items, insights } = await requestExtraction(provider, [
+          { role: "system", content: prompt },
+          { role: "user", content: userPrompt },
+        ]);
+        extractions.push({ chunkIndex: chunk.index, items, insights });
+      }
+
+      return extractions;
+    };
+
+    // The offline rules need no context window, so they read the transcript whole
+    const extractWithRules = (): ChunkExtraction[] => {
+      const { actionItems: items, insights } = extractOffline(transcript, { attendees });
+      return [{ chunkIndex: 0, items, insights }];
+    };
+
+    let extractedWith: "ai" | "offline" = extractor === "offline" ? "offline" : "ai";
+    let fallbackReason: string | null = null;
+    let extractions: ChunkExtraction[];
+
+    if (extractedWith === "offline") {
+      extractions = extractWithRules();
+    } else {
+      try {
+        extractions = await extractWithModel();
+      } catch (error) {
+        // An unavailable provider (not configured, no credits, rate limited, down) shouldn't leave the meeting empty
+        if (!(error instanceof ProviderError)) throw error;
+        console.warn(`Extraction provider failed, using the offline extractor: ${error.message}`);
+        extractedWith = "offline";
+        fallbackReason = error.message;
+        extractions = extractWithRules();
+      }
     }
 
-    // Import Supabase client
-    const { createClient } = await import("https://esm.sh/@supabase/supabase-js@2");
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY")!;
-    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-      global: { headers: { Authorization: authHeader } },
-    });
+    const actionItems = mergeChunkItems(extractions);
+    const insights = mergeChunkInsights(extractions);
 
-    // Get current user
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-    if (userError || !user) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    // Translation needs the model, so offline extractions stay in the meeting's language
+    let translations: { actionItem: string; notes: string | null }[] | null = null;
+    let translationError: string | null = null;
+    if (translateTo && translateTo !== language && extractedWith === "ai") {
+      try {
+        translations = await translateItems(getProvider("extraction"), actionItems, { from: language, to: translateTo });
+      } catch (error) {
+        if (!(error instanceof ProviderError || error instanceof TranslationError)) throw error;
+        console.warn(`Translation failed, keeping the original text: ${error.message}`);
+        translationError = error.message;
+      }
     }
 
+    // Owners are matched against the user's people directory and the meeting's attendees
+    const { data: people, error: peopleError } = await supabase
+      .from("people")
+      .select("id, name, email, aliases, team")
+      .eq("user_id", userId);
+    if (peopleError) console.error("Error loading people directory:", peopleError);
+
+    const directory = buildDirectory(people ?? [], attendees);
+
     // Insert action items into database
-    const itemsToInsert = actionItems.map((item: Record<string, unknown>) => ({
-      meeting_id: meetingId,
-      user_id: user.id,
-      action_item: item.actionItem || "Unnamed action",
-      owner: item.owner || null,
-      owner_email: item.ownerEmail || null,
-      deadline: item.deadline || null,
-      priority: item.priority || "Medium",
-      status: "Open",
-      confidence: item.confidence ?? 0.8,
-      notes: item.notes || null,
-    }));
+    const itemsToInsert = actionItems.map((item, index) => {
+      // Cite the passage by offsets into the full transcript, not the chunk it came from
+      const source = locateQuote(transcript, item.sourceQuote);
+      const owner = matchOwner(item.owner, item.ownerEmail, directory);
+
+      return {
+        meeting_id: meetingId,
+        user_id: userId,
+        action_item: translations?.[index].actionItem ?? item.actionItem,
+        original_action_item: translations ? item.actionItem : null,
+        owner: owner.status === "matched" ? owner.person.name : item.owner,
+        owner_email: (owner.status === "matched" ? owner.person.email : null) || item.ownerEmail || null,
+        // Left for the reviewer to pick from when no one matched clearly
+        owner_candidates: owner.status === "ambiguous" ? owner.candidates : [],
+        deadline: resolveItemDeadline(item),
+        deadline_phrase: item.deadlinePhrase,
+        priority: item.priority,
+        status: "Open",
+        confidence: item.confidence,
+        notes: translations ? translations[index].notes : item.notes,
+        original_notes: translations ? item.notes : null,
+        source_chunks: item.sourceChunks,
+        source_quote: item.sourceQuote,
+        source_start: source?.start ?? null,
+        source_end: source?.end ?? null,
+        source_timestamp: source?.timestamp ?? null,
+        extra: templateExtras(item.extra, template),
+      };
+    });
+
+    const insightsToInsert = insights.map((insight, position) => {
+      const source = locateQuote(transcript, insight.sourceQuote);
+
+      return {
+        meeting_id: meetingId,
+        user_id: userId,
+        kind: insight.kind,
+        position,
+        text: insight.text,
+        owner: insight.owner,
+        source_chunks: insight.sourceChunks,
+        source_quote: insight.sourceQuote,
+        source_start: source?.start ?? null,
+        source_end: source?.end ?? null,
+        source_timestamp: source?.timestamp ?? null,
+      };
+    });
+
+    if (dryRun) {
+      console.log(`Previewed ${itemsToInsert.length} action items for meeting ${meetingId}`);
+      return idempotentRequest.finish(new Response(
+        JSON.stringify({
+          success: true,
+          dryRun: true,
+          actionItems: itemsToInsert,
+          insights: insightsToInsert,
+          count: itemsToInsert.length,
+          extractor: extractedWith,
+          fallbackReason,
+          language,
+          translatedTo: translations ? translateTo : null,
+          translationError,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      ));
+    }
 
     if (itemsToInsert.length > 0) {
       const { error: insertError } = await supabase
@@ -165,21 +397,73 @@ Output ONLY a JSON array with this exact schema:
       }
     }
 
-    console.log(`Extracted ${itemsToInsert.length} action items for meeting ${meetingId}`);
+    // Replace earlier insights, except questions already turned into action items
+    const { error: clearError } = await supabase
+      .from("meeting_insights")
+      .delete()
+      .eq("meeting_id", meetingId)
+      .eq("user_id", userId)
+      .is("action_item_id", null);
 
-    return new Response(
+    if (clearError) {
+      console.error("Error clearing meeting insights:", clearError);
+      throw clearError;
+    }
+
+    if (insightsToInsert.length > 0) {
+      const { error: insightsError } = await supabase
+        .from("meeting_insights")
+        .insert(insightsToInsert);
+
+      if (insightsError) {
+        console.error("Error inserting meeting insights:", insightsError);
+        throw insightsError;
+      }
+    }
+
+    const { error: statusError } = await supabase
+      .from("meetings")
+      .update({ extraction_status: "completed", extraction_error: null, extracted_with: extractedWith, language })
+      .eq("id", meetingId)
+      .eq("user_id", userId);
+
+    if (statusError) {
+      console.error("Error updating extraction status:", statusError);
+      throw statusError;
+    }
+
+    console.log(
+      extractedWith === "offline"
+        ? `Extracted ${itemsToInsert.length} action items and ${insightsToInsert.length} insights with the offline rules for meeting ${meetingId}`
+        : `Extracted ${itemsToInsert.length} action items and ${insightsToInsert.length} insights from ${chunks.length} chunk(s) for meeting ${meetingId}`
+    );
+
+    return idempotentRequest.finish(new Response(
       JSON.stringify({ 
         success: true, 
         actionItems: itemsToInsert,
-        count: itemsToInsert.length 
+        insights: insightsToInsert,
+        count: itemsToInsert.length,
+        extractor: extractedWith,
+        fallbackReason,
+        language,
+        translatedTo: translations ? translateTo : null,
+        translationError,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    ));
   } catch (error) {
     console.error("Extract actions error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    await markFailed?.(message);
+    await idempotentRequest?.release();
+
     return new Response(
-      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      JSON.stringify({ error: message }),
+      {
+        status: error instanceof ProviderError || error instanceof ExtractionError ? error.status : 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
     );
   }
 });
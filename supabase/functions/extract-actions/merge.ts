@@ -0,0 +1,143 @@
+import type { ExtractedActionItem, ExtractedInsight } from "./schema.ts";
+
+export interface ChunkExtraction {
+  chunkIndex: number;
+  items: ExtractedActionItem[];
+  insights: ExtractedInsight[];
+}
+
+export interface MergedActionItem extends ExtractedActionItem {
+  /** Indexes of the transcript chunks the item was extracted from. */
+  sourceChunks: number[];
+}
+
+export interface MergedInsight extends ExtractedInsight {
+  sourceChunks: number[];
+}
+
+// Share of the shorter description's words that must appear in the longer one
+const DUPLICATE_THRESHOLD = 0.7;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "the", "to", "of", "for", "on", "in", "with", "by", "at", "from", "up", "out",
+  "about", "will", "should", "need", "needs", "is", "be", "it", "this", "that", "their", "his", "her",
+]);
+
+const keywords = (text: string) =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter((word) => word.length > 1 && !STOP_WORDS.has(word))
+  );
+
+const overlapCoefficient = (a: Set<string>, b: Set<string>) => {
+  const smaller = a.size <= b.size ? a : b;
+  const larger = smaller === a ? b : a;
+  if (smaller.size === 0) return 0;
+  let shared = 0;
+  smaller.forEach((word) => {
+    if (larger.has(word)) shared++;
+  });
+  return shared / smaller.size;
+};
+
+const sameOwner = (a: ExtractedActionItem, b: ExtractedActionItem) => {
+  if (!a.owner || !b.owner) return true;
+  const first = (name: string) => name.trim().toLowerCase().split(/\s+/)[0];
+  return a.owner.trim().toLowerCase() === b.owner.trim().toLowerCase() || first(a.owner) === first(b.owner);
+};
+
+const PRIORITY_RANK: Record<ExtractedActionItem["priority"], number> = { Low: 0, Medium: 1, High: 2 };
+
+/** Combines two sightings of one item, keeping the most specific value of each field. */
+const combine = (kept: MergedActionItem, other: MergedActionItem): MergedActionItem => {
+  const primary = other.confidence > kept.confidence ? other : kept;
+  const secondary = primary === kept ? other : kept;
+  const notes = [primary.notes, secondary.notes].filter((note): note is string => Boolean(note));
+  const dated = other.deadline || other.deadlinePhrase ? other : kept;
+
+  return {
+    // The longer description usually carries the detail added later in the discussion
+    actionItem: primary.actionItem.length >= secondary.actionItem.length ? primary.actionItem : secondary.actionItem,
+    owner: primary.owner ?? secondary.owner,
+    ownerEmail: primary.ownerEmail ?? secondary.ownerEmail,
+    // A continuation tends to firm up the date, so the later chunk's deadline wins
+    deadline: dated.deadline,
+    deadlinePhrase: dated.deadlinePhrase,
+    priority: PRIORITY_RANK[other.priority] > PRIORITY_RANK[kept.priority] ? other.priority : kept.priority,
+    confidence: Math.max(kept.confidence, other.confidence),
+    notes: [...new Set(notes)].join(" ") || null,
+    sourceQuote: primary.sourceQuote ?? secondary.sourceQuote,
+    extra: { ...secondary.extra, ...primary.extra },
+    sourceChunks: [...new Set([...kept.sourceChunks, ...other.sourceChunks])].sort((a, b) => a - b),
+  };
+};
+
+/**
+ * The reduce step of chunked extraction: merges items that several chunks extracted, either
+ * twice from an overlap or as a task that was picked up again later in the meeting.
+ */
+export const mergeChunkItems = (extractions: ChunkExtraction[]): MergedActionItem[] => {
+  const merged: { item: MergedActionItem; words: Set<string> }[] = [];
+
+  const ordered = [...extractions].sort((a, b) => a.chunkIndex - b.chunkIndex);
+  for (const { chunkIndex, items } of ordered) {
+    for (const extracted of items) {
+      const item: MergedActionItem = { ...extracted, sourceChunks: [chunkIndex] };
+      const words = keywords(item.actionItem);
+
+      // Items within one chunk are already distinct, so only match against other chunks
+      const match = merged.find(
+        (entry) =>
+          !entry.item.sourceChunks.includes(chunkIndex) &&
+          sameOwner(entry.item, item) &&
+          overlapCoefficient(entry.words, words) >= DUPLICATE_THRESHOLD
+      );
+
+      if (match) {
+        match.item = combine(match.item, item);
+        match.words = keywords(match.item.actionItem);
+      } else {
+        merged.push({ item, words });
+      }
+    }
+  }
+
+  return merged.map((entry) => entry.item);
+};
+
+/** Merges decisions, risks and questions that several chunks extracted, like action items. */
+export const mergeChunkInsights = (extractions: ChunkExtraction[]): MergedInsight[] => {
+  const merged: { insight: MergedInsight; words: Set<string> }[] = [];
+
+  const ordered = [...extractions].sort((a, b) => a.chunkIndex - b.chunkIndex);
+  for (const { chunkIndex, insights } of ordered) {
+    for (const extracted of insights) {
+      const words = keywords(extracted.text);
+      const match = merged.find(
+        (entry) =>
+          entry.insight.kind === extracted.kind &&
+          !entry.insight.sourceChunks.includes(chunkIndex) &&
+          overlapCoefficient(entry.words, words) >= DUPLICATE_THRESHOLD
+      );
+
+      if (!match) {
+        merged.push({ insight: { ...extracted, sourceChunks: [chunkIndex] }, words });
+        continue;
+      }
+
+      const kept = match.insight;
+      match.insight = {
+        ...kept,
+        text: extracted.text.length > kept.text.length ? extracted.text : kept.text,
+        owner: kept.owner ?? extracted.owner,
+        sourceQuote: kept.sourceQuote ?? extracted.sourceQuote,
+        sourceChunks: [...kept.sourceChunks, chunkIndex],
+      };
+      match.words = keywords(match.insight.text);
+    }
+  }
+
+  return merged.map((entry) => entry.insight);
+};
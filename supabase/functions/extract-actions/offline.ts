@@ -0,0 +1,167 @@
+// A rule-based extractor that needs no network: it looks for commitment phrases ("I'll",
+// "can you", "Action:", "TODO"), works out who they belong to from the speakers, and picks out
+// deadline phrases, which are then resolved to dates like the model's. It finds less than a model
+// and says so through its confidence scores, which stay below the review threshold so every item
+// it finds gets a human look.
+
+import { findDeadlinePhrase } from "./dates.ts";
+import type { ExtractedActionItem, ExtractedInsight, ExtractionResult } from "./schema.ts";
+
+export interface OfflineOptions {
+  /** Known participants, so a request addressed to "Jane" is assigned to Jane Doe. */
+  attendees?: { name: string }[];
+}
+
+// Items below 0.7 are flagged for review in the app
+export const MAX_OFFLINE_CONFIDENCE = 0.65;
+
+// "[00:01:23] Jane: text" or "Jane: text", the layout transcripts are normalized to
+const SPEAKER_LINE = /^(?:\[[^\]]+\]\s*)?([^:[\]]{1,60}):\s+(.*)$/;
+
+const EXPLICIT_MARKER = /^(?:action(?: item)?|todo|to-do|follow[- ]up)\s*[:-]\s*(.+)$/i;
+const SELF_COMMITMENT = /\b(?:I['’]ll|I will|I['’]m going to|I am going to|I can take|let me)\s+(.+)$/i;
+const GROUP_COMMITMENT = /\b(?:we['’]ll|we will|we need to|we should)\s+(.+)$/i;
+const REQUEST = /\b(?:can|could|would) you(?: please)?\s+(.+?)\??$/i;
+// Commitments that are manners of speech rather than tasks
+const NOT_A_TASK = /^(?:be\s|think\b|guess\b|say\b|admit\b|mention\b|just say\b|see\b|repeat\b|hear\b|know\b)/i;
+const AGREEMENT = /^(?:sure|yes|yeah|yep|ok|okay|will do|on it|absolutely|of course|no problem|sounds good|can do)\b/i;
+
+const DECISION = /\b(?:we(?:['’]ve| have)? (?:agreed|decided)|decision\s*:|let['’]s go with|we['’]re going with)/i;
+const RISK = /\b(?:risk\s*:|blocker|blocked (?:on|by)|concern(?:ed)? (?:is|that|about))/i;
+const OPEN_QUESTION = /\b(?:open question\s*:|still need to (?:figure out|decide)|tbd\b|to be decided)/i;
+
+const HIGH_PRIORITY = /\b(?:urgent|asap|critical|immediately|top priority|right away)\b/i;
+const LOW_PRIORITY = /\b(?:no rush|when you get a chance|when you can|eventually|nice to have|low priority)\b/i;
+
+interface Turn {
+  speaker: string | null;
+  text: string;
+}
+
+const splitTurns = (transcript: string) => {
+  const turns: Turn[] = [];
+  for (const line of transcript.split(/\r?\n/)) {
+    if (!line.trim()) continue;
+    const match = SPEAKER_LINE.exec(line);
+    if (match) {
+      turns.push({ speaker: match[1].trim(), text: match[2].trim() });
+    } else if (turns.length > 0) {
+      turns[turns.length - 1].text += ` ${line.trim()}`;
+    } else {
+      turns.push({ speaker: null, text: line.trim() });
+    }
+  }
+  return turns;
+};
+
+const splitSentences = (text: string) =>
+  text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+
+/** Turns the words after a commitment phrase into a task description. */
+const toTask = (words: string) => {
+  const task = words.replace(/[.!?,;\s]+$/, "").replace(/\s+/g, " ").trim();
+  return task.charAt(0).toUpperCase() + task.slice(1);
+};
+
+const priorityOf = (sentence: string): ExtractedActionItem["priority"] => {
+  if (HIGH_PRIORITY.test(sentence)) return "High";
+  if (LOW_PRIORITY.test(sentence)) return "Low";
+  return "Medium";
+};
+
+/**
+ * Extracts action items, decisions, risks and open questions with fixed rules. The result has
+ * the same shape as a model's, so it is merged, cited and stored the same way.
+ */
+export const extractOffline = (transcript: string, { attendees = [] }: OfflineOptions = {}): ExtractionResult => {
+  const turns = splitTurns(transcript);
+
+  // Everyone a request could be addressed to, by full name and by first name
+  const people = new Map<string, string>();
+  const addPerson = (name: string) => {
+    for (const key of [name.toLowerCase(), name.split(/\s+/)[0].toLowerCase()]) {
+      if (!people.has(key)) people.set(key, name);
+    }
+  };
+  // Attendees first, so "Jane" resolves to the full name rather than the speaker label
+  attendees.forEach((attendee) => addPerson(attendee.name));
+  turns.forEach((turn) => {
+    if (turn.speaker) addPerson(turn.speaker);
+  });
+  const person = (name: string | undefined) => (name ? people.get(name.toLowerCase()) ?? null : null);
+
+  const actionItems: ExtractedActionItem[] = [];
+  const insights: ExtractedInsight[] = [];
+  const seen = new Set<string>();
+
+  const addItem = (task: string, owner: string | null, sentence: string, confidence: number, rule: string) => {
+    const deadline = findDeadlinePhrase(task);
+    const actionItem = toTask(deadline ? task.replace(deadline.text, " ") : task);
+    if (actionItem.split(/\s+/).length < 2 || seen.has(actionItem.toLowerCase())) return;
+    seen.add(actionItem.toLowerCase());
+
+    actionItems.push({
+      actionItem,
+      owner,
+      ownerEmail: null,
+      deadline: null,
+      deadlinePhrase: deadline?.text ?? null,
+      priority: priorityOf(sentence),
+      // An owner and a deadline make it likelier this is a real commitment
+      confidence: Math.min(MAX_OFFLINE_CONFIDENCE, confidence + (owner ? 0.05 : 0) + (deadline ? 0.05 : 0)),
+      notes: `Found by the offline extractor (${rule})`,
+      sourceQuote: sentence,
+      extra: {},
+    });
+  };
+
+  turns.forEach((turn, turnIndex) => {
+    // The reply to a request tells whether the person asked took it on
+    const reply = turns.slice(turnIndex + 1).find((next) => next.speaker !== turn.speaker);
+
+    for (const sentence of splitSentences(turn.text)) {
+      const explicit = EXPLICIT_MARKER.exec(sentence);
+      if (explicit) {
+        // "Action: Jane to send the budget"
+        const assigned = /^(\S+(?: \S+)?) (?:to|will|should) (.+)$/.exec(explicit[1]);
+        const owner = person(assigned?.[1]);
+        addItem(owner ? assigned![2] : explicit[1], owner, sentence, 0.55, "explicit action");
+        continue;
+      }
+
+      const request = REQUEST.exec(sentence);
+      if (request) {
+        const addressed = /(?:^|[\s,])([A-Z][\w'-]*)\s*,\s*(?:can|could|would) you/.exec(sentence);
+        const accepted = reply?.speaker && AGREEMENT.test(reply.text) ? reply.speaker : null;
+        const owner = person(addressed?.[1]) ?? accepted;
+        addItem(request[1], owner, sentence, accepted ? 0.5 : 0.4, "request");
+        continue;
+      }
+
+      const commitment = SELF_COMMITMENT.exec(sentence);
+      if (commitment && !NOT_A_TASK.test(commitment[1])) {
+        addItem(commitment[1], turn.speaker, sentence, 0.5, "commitment");
+        continue;
+      }
+
+      const groupCommitment = GROUP_COMMITMENT.exec(sentence);
+      if (groupCommitment && !NOT_A_TASK.test(groupCommitment[1])) {
+        addItem(groupCommitment[1], null, sentence, 0.3, "group commitment");
+        continue;
+      }
+
+      if (DECISION.test(sentence)) {
+        insights.push({ kind: "decision", text: toTask(sentence), owner: turn.speaker, sourceQuote: sentence });
+      } else if (RISK.test(sentence)) {
+        insights.push({ kind: "risk", text: toTask(sentence), owner: turn.speaker, sourceQuote: sentence });
+      } else if (OPEN_QUESTION.test(sentence)) {
+        insights.push({ kind: "question", text: toTask(sentence), owner: turn.speaker, sourceQuote: sentence });
+      }
+    }
+  });
+
+  return { actionItems, insights };
+};
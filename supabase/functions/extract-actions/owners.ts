@@ -0,0 +1,186 @@
+// Resolves the free-text owners a model writes ("John", "JD", "john from infra") against the
+// user's people directory, so one person isn't listed under several spellings. Only a clear
+// winner is filled in; when two people fit about equally well the candidates are kept for a
+// human to choose from.
+
+export interface DirectoryPerson {
+  /** Null for meeting attendees who are not in the directory. */
+  id: string | null;
+  name: string;
+  email: string | null;
+  aliases: string[];
+  team: string | null;
+  /** Listed as an attendee of the meeting being extracted. */
+  attending?: boolean;
+}
+
+export interface OwnerCandidate {
+  personId: string | null;
+  name: string;
+  email: string | null;
+  score: number;
+}
+
+export type OwnerMatch =
+  | { status: "matched"; person: DirectoryPerson; score: number }
+  | { status: "ambiguous"; candidates: OwnerCandidate[] }
+  | { status: "unmatched" };
+
+// A match at least this good, and clearly ahead of the next one, is taken without asking
+export const MATCH_THRESHOLD = 0.75;
+const MATCH_MARGIN = 0.15;
+// Weaker matches are still offered as candidates
+const CANDIDATE_THRESHOLD = 0.5;
+const MAX_CANDIDATES = 4;
+
+const TEAM_BONUS = 0.15;
+const TEAM_PENALTY = 0.2;
+const ATTENDING_BONUS = 0.2;
+
+const normalize = (text: string) =>
+  text
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}@.\s-]/gu, " ")
+    .replace(/[.\s-]+/g, " ")
+    .trim();
+
+const tokens = (text: string) => normalize(text).split(" ").filter(Boolean);
+
+const initials = (name: string) => tokens(name).map((token) => token[0]).join("");
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// A typo or transcription slip: one letter off, or two in a longer name
+const nearlyEqual = (a: string, b: string) =>
+  Math.min(a.length, b.length) >= 3 && editDistance(a, b) <= (Math.max(a.length, b.length) >= 8 ? 2 : 1);
+
+/** Splits "john from infra", "John (infra)" or "John on the infra team" into a name and a team. */
+export const parseOwnerText = (owner: string) => {
+  const trimmed = owner.trim();
+  const bracketed = /^(.+?)\s*\(([^)]+)\)$/.exec(trimmed);
+  const described = /^(.+?)\s+(?:from|on|in|of)\s+(?:the\s+)?(.+?)(?:\s+team)?$/i.exec(trimmed);
+  const match = bracketed ?? described;
+  return match ? { name: match[1].trim(), team: match[2].trim() } : { name: trimmed, team: null };
+};
+
+/** How well a name fits one of the names a person goes by, from 0 to 1. */
+const nameScore = (query: string[], known: string) => {
+  const name = tokens(known);
+  if (name.length === 0 || query.length === 0) return 0;
+
+  const joined = query.join(" ");
+  if (joined === name.join(" ")) return 1;
+  if (query.length === 1) {
+    const [word] = query;
+    if (word === name[0]) return 0.8;
+    // "JD" for John Doe
+    if (name.length > 1 && word.length >= 2 && word === initials(known)) return 0.75;
+    if (name.length > 1 && word === name[name.length - 1]) return 0.7;
+    if (nearlyEqual(word, name[0])) return 0.6;
+    // "Chris" for Christopher
+    if (word.length >= 3 && name[0].startsWith(word)) return 0.6;
+    return 0;
+  }
+
+  // "John D" or "J Doe"
+  const first = query[0] === name[0] || (query[0].length === 1 && name[0].startsWith(query[0]));
+  const last = name.length > 1 && name[name.length - 1].startsWith(query[query.length - 1]);
+  if (first && last) return 0.9;
+  if (nearlyEqual(joined, name.join(" "))) return 0.85;
+  return 0;
+};
+
+const scorePerson = (name: string, team: string | null, person: DirectoryPerson) => {
+  const query = tokens(name);
+  const email = person.email?.toLowerCase() ?? null;
+  if (email && name.trim().toLowerCase() === email) return 1;
+
+  // The part of the email before the @ often is a handle people are called by
+  const handle = email ? email.split("@")[0].replace(/[._-]+/g, " ") : null;
+  const names = [person.name, ...person.aliases, ...(handle ? [handle] : [])];
+  let score = Math.max(...names.map((known) => nameScore(query, known)));
+  // An alias is a name the person was explicitly given, so it counts in full
+  if (person.aliases.some((alias) => normalize(alias) === query.join(" "))) score = 1;
+  if (score === 0) return 0;
+
+  if (team && person.team) {
+    const wanted = normalize(team);
+    const actual = normalize(person.team);
+    score += actual.includes(wanted) || wanted.includes(actual) ? TEAM_BONUS : -TEAM_PENALTY;
+  }
+  if (person.attending) score += ATTENDING_BONUS;
+  return Math.min(1, score);
+};
+
+/**
+ * Matches an extracted owner against the directory. A model-supplied email decides the match
+ * outright when someone has it.
+ */
+export const matchOwner = (owner: string | null, email: string | null, people: DirectoryPerson[]): OwnerMatch => {
+  if (email) {
+    const byEmail = people.find((person) => person.email?.toLowerCase() === email.trim().toLowerCase());
+    if (byEmail) return { status: "matched", person: byEmail, score: 1 };
+  }
+  if (!owner?.trim()) return { status: "unmatched" };
+
+  const { name, team } = parseOwnerText(owner);
+  const ranked = people
+    .map((person) => ({ person, score: scorePerson(name, team, person) }))
+    .filter(({ score }) => score >= CANDIDATE_THRESHOLD)
+    .sort((a, b) => b.score - a.score);
+
+  if (ranked.length === 0) return { status: "unmatched" };
+
+  const [best, runnerUp] = ranked;
+  if (best.score >= MATCH_THRESHOLD && (!runnerUp || best.score - runnerUp.score >= MATCH_MARGIN)) {
+    return { status: "matched", person: best.person, score: best.score };
+  }
+
+  return {
+    status: "ambiguous",
+    candidates: ranked.slice(0, MAX_CANDIDATES).map(({ person, score }) => ({
+      personId: person.id,
+      name: person.name,
+      email: person.email,
+      score: Math.round(score * 100) / 100,
+    })),
+  };
+};
+
+/**
+ * The directory plus the meeting's attendees. Attendees already in the directory are marked as
+ * attending, which settles ties between people with the same first name.
+ */
+export const buildDirectory = (
+  people: DirectoryPerson[],
+  attendees: { name: string; email: string | null }[]
+): DirectoryPerson[] => {
+  const directory = people.map((person) => ({ ...person, attending: false }));
+
+  for (const attendee of attendees) {
+    const listed = directory.find((person) =>
+      attendee.email
+        ? person.email?.toLowerCase() === attendee.email.toLowerCase()
+        : normalize(person.name) === normalize(attendee.name)
+    );
+    if (listed) {
+      listed.attending = true;
+    } else {
+      directory.push({ id: null, name: attendee.name, email: attendee.email, aliases: [], team: null, attending: true });
+    }
+  }
+
+  return directory;
+};
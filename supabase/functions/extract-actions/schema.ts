@@ -0,0 +1,210 @@
+import { stripCodeFence } from "../_shared/llm/json.ts";
+
+export const PRIORITIES = ["High", "Medium", "Low"] as const;
+
+export interface ExtractedActionItem {
+  actionItem: string;
+  owner: string | null;
+  ownerEmail: string | null;
+  deadline: string | null;
+  /** The words that set the deadline ("by next Friday"), resolved to a date after extraction. */
+  deadlinePhrase: string | null;
+  priority: (typeof PRIORITIES)[number];
+  confidence: number;
+  notes: string | null;
+  /** The transcript passage the item is based on, as quoted by the model. */
+  sourceQuote: string | null;
+  /** The meeting template's extra fields, by their key. */
+  extra: Record<string, string>;
+}
+
+export type InsightKind = "decision" | "risk" | "question";
+
+/** A decision made, a risk or blocker raised, or a question left open in the meeting. */
+export interface ExtractedInsight {
+  kind: InsightKind;
+  text: string;
+  /** Who made the decision, raised the risk or asked the question. */
+  owner: string | null;
+  sourceQuote: string | null;
+}
+
+export interface ExtractionResult {
+  actionItems: ExtractedActionItem[];
+  insights: ExtractedInsight[];
+}
+
+export type ExtractionParseResult =
+  | { ok: true; result: ExtractionResult }
+  | { ok: false; issues: string[] };
+
+// Keys of the response object, and the kind of entity each list holds
+const INSIGHT_LISTS: Record<string, InsightKind> = {
+  decisions: "decision",
+  risks: "risk",
+  openQuestions: "question",
+};
+
+// A calendar date, optionally with a time and offset, e.g. 2026-10-23 or 2026-10-23T17:00:00Z
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})(?:T\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const MAX_REPORTED_ISSUES = 10;
+
+const isValidIsoDate = (value: string) => {
+  const match = ISO_DATE.exec(value);
+  if (!match) return false;
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+// Optional text fields may be omitted, null or a string; blank strings count as null
+const optionalText = (value: Record<string, unknown>, key: string, path: string, issues: string[]) => {
+  const field = value[key];
+  if (field === undefined || field === null) return null;
+  if (typeof field !== "string") {
+    issues.push(`${path}.${key}: expected a string or null`);
+    return null;
+  }
+  return field.trim() || null;
+};
+
+const validateItem = (value: unknown, path: string, issues: string[]): ExtractedActionItem | null => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return null;
+  }
+  const item = value;
+  const before = issues.length;
+  const optional = (key: string) => optionalText(item, key, path, issues);
+
+  const actionItem = typeof item.actionItem === "string" ? item.actionItem.trim() : "";
+  if (!actionItem) issues.push(`${path}.actionItem: expected a non-empty string`);
+
+  const owner = optional("owner");
+  const ownerEmail = optional("ownerEmail");
+  if (ownerEmail && !EMAIL.test(ownerEmail)) issues.push(`${path}.ownerEmail: "${ownerEmail}" is not an email address`);
+
+  const deadline = optional("deadline");
+  if (deadline && !isValidIsoDate(deadline)) {
+    issues.push(`${path}.deadline: "${deadline}" is not an ISO 8601 date (YYYY-MM-DD)`);
+  }
+  const deadlinePhrase = optional("deadlinePhrase");
+
+  const priority = item.priority;
+  if (!PRIORITIES.includes(priority as ExtractedActionItem["priority"])) {
+    issues.push(`${path}.priority: expected one of ${PRIORITIES.map((p) => `"${p}"`).join(", ")}`);
+  }
+
+  const confidence = item.confidence;
+  if (typeof confidence !== "number" || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    issues.push(`${path}.confidence: expected a number between 0 and 1`);
+  }
+
+  const notes = optional("notes");
+  const sourceQuote = optional("sourceQuote");
+
+  const extra: Record<string, string> = {};
+  if (item.extra !== undefined && item.extra !== null) {
+    if (!isObject(item.extra)) {
+      issues.push(`${path}.extra: expected an object`);
+    } else {
+      for (const [key, field] of Object.entries(item.extra)) {
+        // Estimates and the like may come back as numbers
+        if (typeof field === "string" || typeof field === "number") {
+          if (String(field).trim()) extra[key] = String(field).trim();
+        } else if (field !== null) {
+          issues.push(`${path}.extra.${key}: expected a string or null`);
+        }
+      }
+    }
+  }
+
+  if (issues.length > before) return null;
+  return {
+    actionItem,
+    owner,
+    ownerEmail,
+    deadline,
+    deadlinePhrase,
+    priority: priority as ExtractedActionItem["priority"],
+    confidence: confidence as number,
+    notes,
+    sourceQuote,
+    extra,
+  };
+};
+
+const validateInsight = (
+  value: unknown,
+  kind: InsightKind,
+  path: string,
+  issues: string[]
+): ExtractedInsight | null => {
+  if (!isObject(value)) {
+    issues.push(`${path}: expected an object`);
+    return null;
+  }
+  const before = issues.length;
+
+  const text = typeof value.text === "string" ? value.text.trim() : "";
+  if (!text) issues.push(`${path}.text: expected a non-empty string`);
+  const owner = optionalText(value, "owner", path, issues);
+  const sourceQuote = optionalText(value, "sourceQuote", path, issues);
+
+  return issues.length > before ? null : { kind, text, owner, sourceQuote };
+};
+
+/** Validates one of the response's lists; a missing list means nothing of that kind was found. */
+const validateList = <T>(
+  response: Record<string, unknown>,
+  key: string,
+  issues: string[],
+  validate: (value: unknown, path: string) => T | null
+): T[] => {
+  const list = response[key];
+  if (list === undefined || list === null) return [];
+  if (!Array.isArray(list)) {
+    issues.push(`${key}: expected an array`);
+    return [];
+  }
+  return list.map((value, index) => validate(value, `${key}[${index}]`)).filter((value): value is T => value !== null);
+};
+
+/**
+ * Parses and validates the model's reply against the extraction schema. Every problem is
+ * reported, so the model can be asked to fix them all in one repair attempt.
+ */
+export const parseExtractionResponse = (content: string): ExtractionParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(content));
+  } catch (error) {
+    return { ok: false, issues: [`Response is not valid JSON: ${error instanceof Error ? error.message : error}`] };
+  }
+
+  if (!isObject(parsed)) {
+    return { ok: false, issues: ["Response must be a JSON object with actionItems, decisions, risks and openQuestions"] };
+  }
+
+  const issues: string[] = [];
+  // A misnamed list would otherwise be read as an empty one
+  Object.keys(parsed)
+    .filter((key) => key !== "actionItems" && !(key in INSIGHT_LISTS))
+    .forEach((key) => issues.push(`${key}: unexpected key`));
+
+  const actionItems = validateList(parsed, "actionItems", issues, (value, path) => validateItem(value, path, issues));
+  const insights = Object.entries(INSIGHT_LISTS).flatMap(([key, kind]) =>
+    validateList(parsed as Record<string, unknown>, key, issues, (value, path) => validateInsight(value, kind, path, issues))
+  );
+
+  if (issues.length > 0) {
+    const shown = issues.slice(0, MAX_REPORTED_ISSUES);
+    if (issues.length > shown.length) shown.push(`...and ${issues.length - shown.length} more problems`);
+    return { ok: false, issues: shown };
+  }
+  return { ok: true, result: { actionItems, insights } };
+};
@@ -0,0 +1,150 @@
+// Meeting-type templates: what to look for in a standup differs from a sales call. A template adds
+// instructions and priority rules to the extraction prompt, and can ask for extra fields on each
+// action item. Users' own templates live under `templates` in their profile preferences.
+
+export interface ExtraField {
+  label: string;
+  /** Tells the model what to fill in. */
+  description: string;
+}
+
+export interface MeetingTemplate {
+  id: string;
+  name: string;
+  instructions: string;
+  priorityRules: string;
+  extraFields: ExtraField[];
+}
+
+export const DEFAULT_TEMPLATE_ID = "general";
+
+export const BUILT_IN_TEMPLATES: MeetingTemplate[] = [
+  {
+    id: DEFAULT_TEMPLATE_ID,
+    name: "General",
+    instructions: "",
+    priorityRules: "",
+    extraFields: [],
+  },
+  {
+    id: "standup",
+    name: "Standup",
+    instructions:
+      "This is a daily standup. Status updates (\"yesterday I worked on...\") are not action items. Extract what people commit to doing next, and every blocker as both a risk and, when someone offers to help clear it, an action item for the helper.",
+    priorityRules: "Anything that unblocks a teammate is High. Work planned for today is Medium unless said otherwise.",
+    extraFields: [{ label: "Unblocks", description: "who or what this unblocks, if anyone" }],
+  },
+  {
+    id: "retro",
+    name: "Retrospective",
+    instructions:
+      "This is a sprint retrospective. Complaints and praise are not action items; extract the concrete improvements the team agrees to try. Record what went well or badly only as decisions when the team explicitly agrees on it.",
+    priorityRules: "Improvements to a problem raised by several people, or raised in earlier retros, are High. Experiments are Medium.",
+    extraFields: [{ label: "Area", description: "the part of the process it improves, e.g. deployments, reviews, communication" }],
+  },
+  {
+    id: "planning",
+    name: "Planning",
+    instructions:
+      "This is a planning meeting. Extract the work items committed to, with the person who took each one. Scope that was explicitly deferred is a decision, not an action item.",
+    priorityRules: "Items named as sprint goals or commitments are High, stretch goals are Low, everything else Medium.",
+    extraFields: [
+      { label: "Estimate", description: "story points or time estimate, if one was given" },
+      { label: "Ticket", description: "the ticket or issue key, if mentioned" },
+    ],
+  },
+  {
+    id: "one_on_one",
+    name: "1:1",
+    instructions:
+      "This is a one-on-one between a manager and a report. Extract follow-ups either person commits to, including career and feedback topics. Keep descriptions neutral and leave out personal details that aren't needed to do the task.",
+    priorityRules: "Commitments with a date are High; development goals without one are Low.",
+    extraFields: [{ label: "Category", description: "one of: career, feedback, project, process, personal" }],
+  },
+  {
+    id: "customer_call",
+    name: "Customer call",
+    instructions:
+      "This is a call with a customer. Extract every promise made to the customer, and every request they make, as an action item owned by the person on our side who took it. Feature requests no one took on are open questions.",
+    priorityRules: "Promises made to the customer are High. Internal follow-ups are Medium.",
+    extraFields: [
+      { label: "Customer", description: "the customer company or contact this concerns" },
+      { label: "Type", description: "one of: follow-up, demo, pricing, bug, feature request" },
+    ],
+  },
+];
+
+// Long enough for a paragraph of instructions, short enough to keep the prompt focused
+const MAX_INSTRUCTIONS_LENGTH = 2000;
+const MAX_EXTRA_FIELDS = 5;
+
+const asRecord = (value: unknown) =>
+  value && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+
+const text = (value: unknown, maxLength = MAX_INSTRUCTIONS_LENGTH) =>
+  typeof value === "string" ? value.trim().slice(0, maxLength) : "";
+
+/** Reads the user's own templates from their profile preferences, skipping malformed ones. */
+export const readCustomTemplates = (preferences: unknown): MeetingTemplate[] => {
+  const templates = asRecord(preferences).templates;
+  if (!Array.isArray(templates)) return [];
+
+  return templates
+    .map(asRecord)
+    .filter((template) => text(template.id) && text(template.name))
+    .map((template) => ({
+      id: text(template.id),
+      name: text(template.name, 100),
+      instructions: text(template.instructions),
+      priorityRules: text(template.priorityRules),
+      extraFields: (Array.isArray(template.extraFields) ? template.extraFields : [])
+        .map(asRecord)
+        .filter((field) => text(field.label, 50))
+        .slice(0, MAX_EXTRA_FIELDS)
+        .map((field) => ({ label: text(field.label, 50), description: text(field.description, 200) })),
+    }));
+};
+
+/** The template a meeting was saved with; one that no longer exists falls back to the general one. */
+export const resolveTemplate = (id: string | null | undefined, preferences: unknown): MeetingTemplate =>
+  [...BUILT_IN_TEMPLATES, ...readCustomTemplates(preferences)].find((template) => template.id === id) ??
+    BUILT_IN_TEMPLATES[0];
+
+/** The key the model fills an extra field under, e.g. "Next step" → "nextStep". */
+export const extraFieldKey = (label: string) =>
+  label
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim()
+    .split(" ")
+    .map((word, index) => (index === 0 ? word.toLowerCase() : word.charAt(0).toUpperCase() + word.slice(1).toLowerCase()))
+    .join("");
+
+/** The template's part of the system prompt; empty for the general template. */
+export const templatePrompt = (template: MeetingTemplate) => {
+  const sections = [
+    template.instructions && `Meeting type: ${template.name}\n${template.instructions}`,
+    template.priorityRules && `Priority rules for this meeting type (these take precedence):\n${template.priorityRules}`,
+    template.extraFields.length > 0 &&
+      `For each action item also fill "extra" with:\n${template.extraFields
+        .map((field) => `- ${extraFieldKey(field.label)}: ${field.description || field.label}`)
+        .join("\n")}\nUse null for a field the transcript doesn't settle.`,
+  ];
+  return sections.filter(Boolean).join("\n\n");
+};
+
+/** The "extra" entry of the action item schema shown to the model, or null when there are no extra fields. */
+export const extraFieldsSchema = (template: MeetingTemplate) =>
+  template.extraFields.length > 0
+    ? `{ ${template.extraFields.map((field) => `"${extraFieldKey(field.label)}": "string or null"`).join(", ")} }`
+    : null;
+
+/**
+ * Keeps the template's extra fields from a model's answer, keyed by their labels as they're
+ * stored and shown.
+ */
+export const templateExtras = (extra: Record<string, string>, template: MeetingTemplate) =>
+  Object.fromEntries(
+    template.extraFields
+      .map((field) => [field.label, extra[extraFieldKey(field.label)]] as const)
+      .filter(([, value]) => typeof value === "string" && value.trim())
+  ) as Record<string, string>;
@@ -0,0 +1,90 @@
+// Translates extracted action items into the user's language after extraction, which runs in the
+// meeting's own language so owners, quotes and wording stay faithful to what was said. Only the
+// descriptions and notes are translated; the original text is kept next to the translation.
+
+import { languageName } from "../_shared/language.ts";
+import { requestJson, stripCodeFence } from "../_shared/llm/json.ts";
+import type { LlmMessage, LlmProvider } from "../_shared/llm/types.ts";
+
+export interface TranslatableItem {
+  actionItem: string;
+  notes: string | null;
+}
+
+// The first answer plus this many repair attempts when it doesn't match the expected shape
+const MAX_REPAIR_ATTEMPTS = 1;
+
+// Never fails the extraction: the items are kept untranslated instead
+export class TranslationError extends Error {}
+
+export type TranslationParseResult =
+  | { ok: true; items: TranslatableItem[] }
+  | { ok: false; issues: string[] };
+
+/** Checks a `{ "translations": [...] }` answer holds one translation per item, in order. */
+export const parseTranslationResponse = (content: string, count: number): TranslationParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(content));
+  } catch {
+    return { ok: false, issues: ["response is not valid JSON"] };
+  }
+
+  const translations = (parsed as { translations?: unknown })?.translations;
+  if (!Array.isArray(translations)) return { ok: false, issues: ['expected an object with a "translations" array'] };
+  if (translations.length !== count) {
+    return { ok: false, issues: [`expected ${count} translations, got ${translations.length}`] };
+  }
+
+  const issues: string[] = [];
+  const items = translations.map((translation, index) => {
+    const { actionItem, notes } = (translation ?? {}) as Record<string, unknown>;
+    if (typeof actionItem !== "string" || !actionItem.trim()) {
+      issues.push(`translations[${index}].actionItem: expected a non-empty string`);
+    }
+    if (notes !== undefined && notes !== null && typeof notes !== "string") {
+      issues.push(`translations[${index}].notes: expected a string or null`);
+    }
+    return {
+      actionItem: typeof actionItem === "string" ? actionItem.trim() : "",
+      notes: typeof notes === "string" && notes.trim() ? notes.trim() : null,
+    };
+  });
+
+  return issues.length > 0 ? { ok: false, issues } : { ok: true, items };
+};
+
+/** Translates the items' descriptions and notes, returning them in the same order. */
+export const translateItems = async (
+  provider: LlmProvider,
+  items: TranslatableItem[],
+  { from, to }: { from: string | null; to: string }
+): Promise<TranslatableItem[]> => {
+  if (items.length === 0) return [];
+
+  const messages: LlmMessage[] = [
+    {
+      role: "system",
+      content: `You translate meeting action items${from ? ` from ${languageName(from)}` : ""} into ${languageName(to)}. Keep names, product names, ticket keys and numbers as they are. Keep each translation as short and direct as the original.`,
+    },
+    {
+      role: "user",
+      content: `Translate these action items:
+
+${JSON.stringify(items)}
+
+Output ONLY a JSON object: { "translations": [{ "actionItem": "string", "notes": "string or null" }] } with one entry per item, in the same order.`,
+    },
+  ];
+
+  return requestJson(provider, messages, {
+    name: "translation",
+    temperature: 0.1,
+    maxRepairs: MAX_REPAIR_ATTEMPTS,
+    parse: (content) => {
+      const result = parseTranslationResponse(content, items.length);
+      return "items" in result ? { value: result.items } : result;
+    },
+    onInvalid: (issues) => new TranslationError(`The model returned invalid translations: ${issues.join("; ")}`),
+  });
+};
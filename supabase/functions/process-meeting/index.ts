@@ -0,0 +1,341 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "npm:@supabase/supabase-js@2";
+import { ACTING_USER_HEADER, authenticate, createServiceClient } from "../_shared/auth.ts";
+import {
+  beginIdempotentRequest,
+  IDEMPOTENCY_HEADER,
+  STALE_AFTER_MS,
+  type IdempotentRequest,
+} from "../_shared/idempotency.ts";
+import { createIdempotencyStore } from "../_shared/idempotencyStore.ts";
+import {
+  isRetryable,
+  MAX_ATTEMPTS,
+  remainingSteps,
+  retryDelayMs,
+  STEP_LABELS,
+  StepError,
+  type StepName,
+  type StepState,
+} from "./steps.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, idempotency-key, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// Keeps the function alive for work that outlasts the response
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+interface JobContext {
+  /** Has the service role, so the job doesn't depend on the user's session; scope queries to `userId`. */
+  supabase: SupabaseClient;
+  userId: string;
+  jobId: string;
+  meetingId: string;
+  timeZone: string | null;
+}
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+/**
+ * Calls another of our functions for the user who started the job. It calls with the service role
+ * rather than the user's session, which may expire before a long job is done. The job id is the
+ * idempotency key, so a retry after a lost response gets the finished result instead of running
+ * it twice.
+ */
+const callFunction = async (name: string, context: JobContext, body: Record<string, unknown>) => {
+  let response: Response;
+  try {
+    response = await fetch(`${supabaseUrl}/functions/v1/${name}`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${serviceRoleKey}`,
+        apikey: serviceRoleKey,
+        [ACTING_USER_HEADER]: context.userId,
+        "Content-Type": "application/json",
+        [IDEMPOTENCY_HEADER]: context.jobId,
+      },
+      body: JSON.stringify(body),
+    });
+  } catch (error) {
+    throw new StepError(`Could not reach ${name}: ${error instanceof Error ? error.message : error}`, 503);
+  }
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new StepError(
+      typeof data?.error === "string" ? data.error : `${name} failed with status ${response.status}`,
+      response.status
+    );
+  }
+  return data;
+};
+
+const loadMeeting = async ({ supabase, meetingId, userId }: JobContext) => {
+  const { data: meeting, error } = await supabase
+    .from("meetings")
+    .select("id, audio_path, transcript, meeting_date, attendees, extractor, template, translate_to")
+    .eq("id", meetingId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw new StepError(`Failed to load the meeting: ${error.message}`);
+  if (!meeting) throw new StepError("The meeting no longer exists", 404);
+  return meeting;
+};
+
+/** Runs one step and returns what it produced, for the step's `result`. */
+const STEP_RUNNERS: Record<StepName, (context: JobContext) => Promise<Record<string, unknown>>> = {
+  // The browser uploads the file, as only it has it. A job reaching here with the file saved only
+  // missed marking the step done; without it, the upload was lost.
+  upload: async (context) => {
+    const meeting = await loadMeeting(context);
+    if (!meeting.audio_path) {
+      throw new StepError("The audio was never uploaded. Upload the recording again as a new meeting.", 400);
+    }
+    return {};
+  },
+
+  transcribe: async (context) => {
+    const meeting = await loadMeeting(context);
+    if (!meeting.audio_path) throw new StepError("The meeting has no audio to transcribe", 400);
+
+    const data = await callFunction("transcribe-audio", context, {
+      filePath: meeting.audio_path,
+      meetingId: meeting.id,
+    });
+    return { segmentCount: Array.isArray(data.segments) ? data.segments.length : 0 };
+  },
+
+  extract: async (context) => {
+    const meeting = await loadMeeting(context);
+    if (!meeting.transcript?.trim()) throw new StepError("The meeting has no transcript to extract from", 400);
+
+    const data = await callFunction("extract-actions", context, {
+      meetingId: meeting.id,
+      transcript: meeting.transcript,
+      meetingDate: meeting.meeting_date,
+      attendees: meeting.attendees,
+      extractor: meeting.extractor,
+      template: meeting.template,
+      translateTo: meeting.translate_to,
+      timeZone: context.timeZone,
+    });
+
+    const { error } = await context.supabase
+      .from("meetings")
+      .update({ processed_at: new Date().toISOString() })
+      .eq("id", meeting.id)
+      .eq("user_id", context.userId);
+    if (error) console.error("Error recording processed_at:", error);
+
+    return {
+      actionItemCount: Array.isArray(data.actionItems) ? data.actionItems.length : 0,
+      fallbackReason: data.fallbackReason ?? null,
+      translationError: data.translationError ?? null,
+      language: data.language ?? null,
+    };
+  },
+
+  summarize: async (context) => {
+    const data = await callFunction("summarize-meeting", context, { meetingId: context.meetingId });
+    return { keyPointCount: Array.isArray(data.keyPoints) ? data.keyPoints.length : 0 };
+  },
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// How often a running step refreshes the job's updated_at; well inside STALE_AFTER_MS, so a long
+// transcription isn't mistaken for an abandoned job and taken over
+const HEARTBEAT_MS = STALE_AFTER_MS / 5;
+
+/**
+ * Runs the job's remaining steps in order, retrying each a few times. A step that still fails
+ * stops the job, which can then be resumed from that step.
+ */
+const runJob = async (context: JobContext, steps: StepState[]) => {
+  const { supabase, jobId, userId } = context;
+
+  const updateStep = async (id: string, update: Record<string, unknown>) => {
+    const { error } = await supabase.from("processing_steps").update(update).eq("id", id).eq("user_id", userId);
+    if (error) console.error("Error updating processing step:", error);
+  };
+  const updateJob = async (update: Record<string, unknown>) => {
+    const { error } = await supabase.from("processing_jobs").update(update).eq("id", jobId).eq("user_id", userId);
+    if (error) console.error("Error updating processing job:", error);
+  };
+  // Only touches a job still running, so a beat landing after the job failed doesn't revive it
+  const heartbeat = async () => {
+    const { error } = await supabase
+      .from("processing_jobs")
+      .update({ status: "running" })
+      .eq("id", jobId)
+      .eq("user_id", userId)
+      .eq("status", "running");
+    if (error) console.error("Error refreshing processing job:", error);
+  };
+
+  for (const step of remainingSteps(steps)) {
+    // Also refreshes updated_at, which shows the job hasn't gone stale
+    await updateJob({ status: "running" });
+    const beating = setInterval(heartbeat, HEARTBEAT_MS);
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        await updateStep(step.id, {
+          status: "running",
+          attempts: step.attempts + attempt,
+          error: null,
+          started_at: new Date().toISOString(),
+          finished_at: null,
+        });
+
+        try {
+          const result = await STEP_RUNNERS[step.step](context);
+          await updateStep(step.id, { status: "completed", result, finished_at: new Date().toISOString() });
+          break;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : "Unknown error";
+          const status = error instanceof StepError ? error.status : 500;
+          console.error(`Step ${step.step} of job ${jobId} failed (attempt ${attempt}):`, message);
+
+          if (attempt >= MAX_ATTEMPTS || !isRetryable(status)) {
+            const finishedAt = new Date().toISOString();
+            await updateStep(step.id, { status: "failed", error: message, finished_at: finishedAt });
+            await updateJob({ status: "failed", error: `${STEP_LABELS[step.step]} failed: ${message}`, finished_at: finishedAt });
+            return;
+          }
+          await sleep(retryDelayMs(attempt));
+        }
+      }
+    } finally {
+      clearInterval(beating);
+    }
+  }
+
+  await updateJob({ status: "completed", error: null, finished_at: new Date().toISOString() });
+  console.log(`Processed meeting ${context.meetingId} (job ${jobId})`);
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let idempotentRequest: IdempotentRequest | null = null;
+
+  try {
+    const body = await req.json();
+    const { jobId } = body;
+
+    if (!jobId) {
+      return new Response(
+        JSON.stringify({ error: "Missing jobId" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const caller = await authenticate(req);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const { supabase, userId } = caller;
+
+    // A repeat of a request that already started the job gets the same answer instead of a conflict
+    const idempotency = await beginIdempotentRequest(
+      req,
+      body,
+      createIdempotencyStore(supabase, userId, "process-meeting"),
+      corsHeaders
+    );
+    if ("response" in idempotency) return idempotency.response;
+    idempotentRequest = idempotency.request;
+
+    const { data: job, error: jobError } = await supabase
+      .from("processing_jobs")
+      .select("id, meeting_id, status, time_zone")
+      .eq("id", jobId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (jobError) throw jobError;
+    if (!job) {
+      return idempotentRequest.finish(new Response(
+        JSON.stringify({ error: "Processing job not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      ));
+    }
+    if (job.status === "completed") {
+      return idempotentRequest.finish(new Response(
+        JSON.stringify({ jobId, status: job.status }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      ));
+    }
+
+    // Claimed in one update, so resuming twice doesn't run the steps twice; a running job whose
+    // worker went quiet can be taken over
+    const staleBefore = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+    const { data: claimed, error: claimError } = await supabase
+      .from("processing_jobs")
+      .update({ status: "running", error: null, started_at: new Date().toISOString(), finished_at: null })
+      .eq("id", jobId)
+      .eq("user_id", userId)
+      .or(`status.neq.running,updated_at.lt.${staleBefore}`)
+      .select("id")
+      .maybeSingle();
+
+    if (claimError) throw claimError;
+    if (!claimed) {
+      return idempotentRequest.finish(new Response(
+        JSON.stringify({ error: "This meeting is already being processed" }),
+        { status: 409, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      ));
+    }
+
+    const { data: steps, error: stepsError } = await supabase
+      .from("processing_steps")
+      .select("id, step, position, status, attempts")
+      .eq("job_id", jobId)
+      .eq("user_id", userId)
+      .order("position", { ascending: true });
+
+    if (stepsError) throw stepsError;
+
+    const context: JobContext = {
+      supabase: createServiceClient(),
+      userId,
+      jobId,
+      meetingId: job.meeting_id,
+      timeZone: job.time_zone,
+    };
+
+    // The steps run after responding, so the job carries on when the browser goes away
+    EdgeRuntime.waitUntil(
+      runJob(context, (steps ?? []) as StepState[]).catch(async (error) => {
+        console.error(`Job ${jobId} stopped:`, error);
+        await context.supabase
+          .from("processing_jobs")
+          .update({ status: "failed", error: error instanceof Error ? error.message : "Processing stopped", finished_at: new Date().toISOString() })
+          .eq("id", jobId)
+          .eq("user_id", userId);
+      })
+    );
+
+    return idempotentRequest.finish(new Response(
+      JSON.stringify({ jobId, status: "running" }),
+      { status: 202, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    ));
+  } catch (error) {
+    console.error("Process meeting error:", error);
+    await idempotentRequest?.release();
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
@@ -0,0 +1,50 @@
+// The pure parts of running a processing job: which steps are left, and whether a failed
+// attempt is worth repeating.
+
+export type StepName = "upload" | "transcribe" | "extract" | "summarize";
+export type StepStatus = "pending" | "running" | "completed" | "failed" | "skipped";
+
+export interface StepState {
+  id: string;
+  step: StepName;
+  position: number;
+  status: StepStatus;
+  attempts: number;
+}
+
+export const STEP_LABELS: Record<StepName, string> = {
+  upload: "Upload",
+  transcribe: "Transcription",
+  extract: "Extraction",
+  summarize: "Summary",
+};
+
+// Attempts per step in one run; after that the job fails and waits to be resumed
+export const MAX_ATTEMPTS = 3;
+// Doubled after each failed attempt
+const BASE_RETRY_DELAY_MS = 2000;
+
+/** A step that failed with an HTTP-like status, so it can be told whether trying again may help. */
+export class StepError extends Error {
+  status: number;
+
+  constructor(message: string, status = 500) {
+    super(message);
+    this.name = "StepError";
+    this.status = status;
+  }
+}
+
+/** Steps still to run, in order; completed and skipped ones are passed over when resuming. */
+export const remainingSteps = <T extends StepState>(steps: T[]): T[] =>
+  steps
+    .filter((step) => step.status !== "completed" && step.status !== "skipped")
+    .sort((a, b) => a.position - b.position);
+
+/**
+ * Timeouts, rate limits, server errors and an earlier attempt still running (409) may pass; bad
+ * input, auth or exhausted credits won't.
+ */
+export const isRetryable = (status: number) => status === 408 || status === 409 || status === 429 || status >= 500;
+
+export const retryDelayMs = (attempt: number) => BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
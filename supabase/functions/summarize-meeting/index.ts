@@ -0,0 +1,171 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { authenticate } from "../_shared/auth.ts";
+import { beginIdempotentRequest, type IdempotentRequest } from "../_shared/idempotency.ts";
+import { createIdempotencyStore } from "../_shared/idempotencyStore.ts";
+import { getProvider, ProviderError, type LlmMessage, type LlmProvider } from "../_shared/llm/index.ts";
+import { requestJson } from "../_shared/llm/json.ts";
+import { chunkTranscript } from "../_shared/transcriptChunks.ts";
+import { MAX_KEY_POINTS, parseSummaryResponse, type MeetingSummary } from "./summary.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, idempotency-key, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+};
+
+// The first answer plus this many repair attempts when it doesn't match the format
+const MAX_REPAIR_ATTEMPTS = 1;
+
+class SummaryError extends Error {
+  status = 422;
+}
+
+const SYSTEM_PROMPT = `You summarize meeting transcripts for stakeholders who were not in the meeting.
+
+Write a summary of two to four sentences covering the purpose of the meeting and its outcome, and up to ${MAX_KEY_POINTS} key points: the topics, decisions and next steps someone would need to know. Keep each key point to one short sentence and use people's names as they appear in the transcript.
+
+Output ONLY a JSON object with this exact schema:
+{ "summary": "string", "keyPoints": ["string"] }`;
+
+const requestSummary = (provider: LlmProvider, messages: LlmMessage[]): Promise<MeetingSummary> =>
+  requestJson(provider, messages, {
+    name: "summary",
+    temperature: 0.3,
+    maxRepairs: MAX_REPAIR_ATTEMPTS,
+    parse: (content) => {
+      const result = parseSummaryResponse(content);
+      return "summary" in result ? { value: result.summary } : result;
+    },
+    onInvalid: (issues) => new SummaryError(`The AI response did not match the summary format: ${issues[0]}`),
+  });
+
+/**
+ * Summarizes a transcript. Long transcripts are summarized part by part, and the partial
+ * summaries then combined into one.
+ */
+const summarizeTranscript = async (provider: LlmProvider, title: string, transcript: string) => {
+  const chunks = chunkTranscript(transcript);
+
+  if (chunks.length === 1) {
+    return requestSummary(provider, [
+      { role: "system", content: SYSTEM_PROMPT },
+      { role: "user", content: `Summarize this transcript of the meeting "${title}":\n\n${chunks[0].text}` },
+    ]);
+  }
+
+  const parts: MeetingSummary[] = [];
+  for (const chunk of chunks) {
+    parts.push(await requestSummary(provider, [
+      { role: "system", content: SYSTEM_PROMPT },
+      {
+        role: "user",
+        content: `This is part ${chunk.index + 1} of ${chunks.length} of the transcript of the meeting "${title}". Its first lines repeat the end of the previous part. Summarize this part:\n\n${chunk.text}`,
+      },
+    ]));
+  }
+
+  const partList = parts
+    .map((part, index) => `Part ${index + 1}: ${part.summary}\n${part.keyPoints.map((point) => `- ${point}`).join("\n")}`)
+    .join("\n\n");
+
+  return requestSummary(provider, [
+    { role: "system", content: SYSTEM_PROMPT },
+    {
+      role: "user",
+      content: `These are summaries of consecutive parts of the meeting "${title}". Combine them into one summary of the whole meeting, merging key points that repeat:\n\n${partList}`,
+    },
+  ]);
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let idempotentRequest: IdempotentRequest | null = null;
+
+  try {
+    const body = await req.json();
+    const { meetingId } = body;
+
+    if (!meetingId) {
+      return new Response(
+        JSON.stringify({ error: "Missing meetingId" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const caller = await authenticate(req);
+    if (!caller) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const { supabase, userId } = caller;
+
+    // A repeat of a request that already ran gets its summary back instead of paying for another
+    const idempotency = await beginIdempotentRequest(
+      req,
+      body,
+      createIdempotencyStore(supabase, userId, "summarize-meeting"),
+      corsHeaders
+    );
+    if ("response" in idempotency) return idempotency.response;
+    idempotentRequest = idempotency.request;
+
+    // Summarize the transcript as stored, so a regenerated summary reflects any later edits to it
+    const { data: meeting, error: meetingError } = await supabase
+      .from("meetings")
+      .select("id, title, transcript")
+      .eq("id", meetingId)
+      .eq("user_id", userId)
+      .maybeSingle();
+
+    if (meetingError) throw meetingError;
+    if (!meeting) {
+      return idempotentRequest.finish(new Response(
+        JSON.stringify({ error: "Meeting not found" }),
+        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      ));
+    }
+    if (!meeting.transcript?.trim()) {
+      throw new SummaryError("The meeting has no transcript to summarize");
+    }
+
+    const { summary, keyPoints } = await summarizeTranscript(
+      getProvider("extraction"),
+      meeting.title,
+      meeting.transcript
+    );
+
+    const generatedAt = new Date().toISOString();
+    const { error: updateError } = await supabase
+      .from("meetings")
+      .update({ summary, summary_key_points: keyPoints, summary_generated_at: generatedAt })
+      .eq("id", meetingId)
+      .eq("user_id", userId);
+
+    if (updateError) {
+      console.error("Error saving meeting summary:", updateError);
+      throw updateError;
+    }
+
+    console.log(`Summarized meeting ${meetingId} with ${keyPoints.length} key points`);
+
+    return idempotentRequest.finish(new Response(
+      JSON.stringify({ summary, keyPoints, generatedAt }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    ));
+  } catch (error) {
+    console.error("Summarize meeting error:", error);
+    await idempotentRequest?.release();
+
+    return new Response(
+      JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }),
+      {
+        status: error instanceof ProviderError || error instanceof SummaryError ? error.status : 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
+    );
+  }
+});
@@ -0,0 +1,59 @@
+import { stripCodeFence } from "../_shared/llm/json.ts";
+
+export interface MeetingSummary {
+  summary: string;
+  keyPoints: string[];
+}
+
+export type SummaryParseResult =
+  | { ok: true; summary: MeetingSummary }
+  | { ok: false; issues: string[] };
+
+// Enough to read at a glance; longer lists are cut rather than rejected
+export const MAX_KEY_POINTS = 8;
+
+/**
+ * Parses a model's `{ summary, keyPoints }` answer. Issues are phrased so they can be sent back
+ * to the model to repair its response.
+ */
+export const parseSummaryResponse = (content: string): SummaryParseResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripCodeFence(content));
+  } catch {
+    return { ok: false, issues: ["The response is not valid JSON."] };
+  }
+
+  if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+    return { ok: false, issues: ["Expected a JSON object with summary and keyPoints."] };
+  }
+
+  const { summary, keyPoints } = parsed as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (typeof summary !== "string" || !summary.trim()) {
+    issues.push("summary: expected a non-empty string");
+  }
+
+  const points = keyPoints === undefined || keyPoints === null ? [] : keyPoints;
+  if (!Array.isArray(points)) {
+    issues.push("keyPoints: expected an array of strings");
+  } else {
+    points.forEach((point, index) => {
+      if (typeof point !== "string") issues.push(`keyPoints[${index}]: expected a string`);
+    });
+  }
+
+  if (issues.length > 0) return { ok: false, issues };
+
+  return {
+    ok: true,
+    summary: {
+      summary: (summary as string).trim(),
+      keyPoints: (points as string[])
+        .map((point) => point.trim().replace(/^[-*•]\s*/, ""))
+        .filter(Boolean)
+        .slice(0, MAX_KEY_POINTS),
+    },
+  };
+};
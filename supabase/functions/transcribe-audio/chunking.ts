@@ -0,0 +1,182 @@
+// Splits audio that is too large to send inline into overlapping segments that can be
+// transcribed one at a time. Only formats that can be cut without re-encoding are supported:
+// PCM WAV (cut on sample frames) and MP3 (cut on MPEG frame boundaries).
+
+export interface AudioSegment {
+  bytes: Uint8Array;
+  mimeType: string;
+  startSeconds: number;
+  endSeconds: number;
+}
+
+export const SEGMENT_SECONDS = 10 * 60;
+export const OVERLAP_SECONDS = 15;
+export const MAX_SEGMENT_BYTES = 20 * 1024 * 1024;
+
+const readAscii = (bytes: Uint8Array, offset: number, length: number) =>
+  String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+const readUint16 = (bytes: Uint8Array, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  (bytes[offset] | (bytes[offset + 1] << 8) | (bytes[offset + 2] << 16) | (bytes[offset + 3] << 24)) >>> 0;
+
+const writeUint32 = (bytes: Uint8Array, offset: number, value: number) => {
+  bytes[offset] = value & 0xff;
+  bytes[offset + 1] = (value >>> 8) & 0xff;
+  bytes[offset + 2] = (value >>> 16) & 0xff;
+  bytes[offset + 3] = (value >>> 24) & 0xff;
+};
+
+/** Yields overlapping [start, end) windows covering the duration. */
+const segmentWindows = (durationSeconds: number, segmentSeconds: number) => {
+  const windows: { start: number; end: number }[] = [];
+  const step = Math.max(segmentSeconds - OVERLAP_SECONDS, 1);
+
+  for (let start = 0; start < durationSeconds; start += step) {
+    const end = Math.min(durationSeconds, start + segmentSeconds);
+    windows.push({ start, end });
+    if (end >= durationSeconds) break;
+  }
+
+  return windows;
+};
+
+const splitWav = (bytes: Uint8Array): AudioSegment[] | null => {
+  if (readAscii(bytes, 0, 4) !== "RIFF" || readAscii(bytes, 8, 4) !== "WAVE") return null;
+
+  let fmtChunk: Uint8Array | null = null;
+  let dataOffset = -1;
+  let dataSize = 0;
+
+  for (let offset = 12; offset + 8 <= bytes.length;) {
+    const id = readAscii(bytes, offset, 4);
+    const size = readUint32(bytes, offset + 4);
+    if (id === "fmt ") {
+      fmtChunk = bytes.subarray(offset, offset + 8 + size);
+    } else if (id === "data") {
+      dataOffset = offset + 8;
+      // Streamed WAVs may leave the size unset, so clamp it to what was actually written.
+      dataSize = Math.min(size, bytes.length - dataOffset);
+      break;
+    }
+    offset += 8 + size + (size & 1);
+  }
+
+  if (!fmtChunk || dataOffset < 0) return null;
+
+  const byteRate = readUint32(fmtChunk, 16);
+  const blockAlign = readUint16(fmtChunk, 20);
+  if (!byteRate || !blockAlign) return null;
+
+  const durationSeconds = dataSize / byteRate;
+  const segmentSeconds = Math.min(SEGMENT_SECONDS, Math.floor((MAX_SEGMENT_BYTES - fmtChunk.length - 20) / byteRate));
+  const alignedOffset = (seconds: number) => Math.floor((seconds * byteRate) / blockAlign) * blockAlign;
+
+  return segmentWindows(durationSeconds, segmentSeconds).map(({ start, end }) => {
+    const data = bytes.subarray(dataOffset + alignedOffset(start), dataOffset + Math.min(alignedOffset(end), dataSize));
+    const segment = new Uint8Array(12 + fmtChunk!.length + 8 + data.length);
+
+    segment.set([0x52, 0x49, 0x46, 0x46], 0); // "RIFF"
+    writeUint32(segment, 4, segment.length - 8);
+    segment.set([0x57, 0x41, 0x56, 0x45], 8); // "WAVE"
+    segment.set(fmtChunk!, 12);
+    const dataHeader = 12 + fmtChunk!.length;
+    segment.set([0x64, 0x61, 0x74, 0x61], dataHeader); // "data"
+    writeUint32(segment, dataHeader + 4, data.length);
+    segment.set(data, dataHeader + 8);
+
+    return { bytes: segment, mimeType: "audio/wav", startSeconds: start, endSeconds: end };
+  });
+};
+
+const MPEG1_LAYER3_KBPS = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+const MPEG2_LAYER3_KBPS = [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160];
+const SAMPLE_RATES: Record<number, number[]> = {
+  3: [44100, 48000, 32000], // MPEG 1
+  2: [22050, 24000, 16000], // MPEG 2
+  0: [11025, 12000, 8000], // MPEG 2.5
+};
+
+/** Reads the Layer III frame header at offset, returning its length and duration. */
+const readMp3Frame = (bytes: Uint8Array, offset: number) => {
+  if (offset + 4 > bytes.length || bytes[offset] !== 0xff || (bytes[offset + 1] & 0xe0) !== 0xe0) return null;
+
+  const version = (bytes[offset + 1] >> 3) & 0x03;
+  const layer = (bytes[offset + 1] >> 1) & 0x03;
+  const bitrateIndex = bytes[offset + 2] >> 4;
+  const sampleRateIndex = (bytes[offset + 2] >> 2) & 0x03;
+  const padding = (bytes[offset + 2] >> 1) & 0x01;
+  if (version === 1 || layer !== 1 || bitrateIndex === 0 || bitrateIndex === 15 || sampleRateIndex === 3) return null;
+
+  const kbps = (version === 3 ? MPEG1_LAYER3_KBPS : MPEG2_LAYER3_KBPS)[bitrateIndex];
+  const sampleRate = SAMPLE_RATES[version][sampleRateIndex];
+  const samplesPerFrame = version === 3 ? 1152 : 576;
+  const length = Math.floor(((samplesPerFrame / 8) * kbps * 1000) / sampleRate) + padding;
+
+  return { length, seconds: samplesPerFrame / sampleRate };
+};
+
+const splitMp3 = (bytes: Uint8Array): AudioSegment[] | null => {
+  let offset = 0;
+  if (readAscii(bytes, 0, 3) === "ID3") {
+    const tagSize = ((bytes[6] & 0x7f) << 21) | ((bytes[7] & 0x7f) << 14) | ((bytes[8] & 0x7f) << 7) | (bytes[9] & 0x7f);
+    offset = 10 + tagSize + (bytes[5] & 0x10 ? 10 : 0);
+  }
+
+  const frameOffsets: number[] = [];
+  const frameTimes: number[] = [];
+  let elapsed = 0;
+
+  while (offset < bytes.length) {
+    const frame = readMp3Frame(bytes, offset);
+    if (!frame || frame.length <= 4) {
+      offset++; // resynchronise past junk or a trailing tag
+      continue;
+    }
+    frameOffsets.push(offset);
+    frameTimes.push(elapsed);
+    elapsed += frame.seconds;
+    offset += frame.length;
+  }
+
+  if (frameOffsets.length === 0) return null;
+  frameOffsets.push(Math.min(offset, bytes.length));
+  frameTimes.push(elapsed);
+
+  const bytesPerSecond = (frameOffsets[frameOffsets.length - 1] - frameOffsets[0]) / elapsed;
+  // Leave headroom for variable bitrate files whose local rate exceeds the average.
+  const segmentSeconds = Math.min(SEGMENT_SECONDS, Math.floor((MAX_SEGMENT_BYTES * 0.8) / bytesPerSecond));
+  const frameAt = (seconds: number) => {
+    let low = 0;
+    let high = frameTimes.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (frameTimes[mid] < seconds) low = mid + 1;
+      else high = mid;
+    }
+    return low;
+  };
+
+  return segmentWindows(elapsed, segmentSeconds).map(({ start, end }) => {
+    const first = frameAt(start);
+    const last = frameAt(end);
+    return {
+      bytes: bytes.subarray(frameOffsets[first], frameOffsets[last]),
+      mimeType: "audio/mpeg",
+      startSeconds: frameTimes[first],
+      endSeconds: frameTimes[last],
+    };
+  });
+};
+
+/**
+ * Splits audio into overlapping segments small enough to transcribe inline, or returns null
+ * when the format cannot be split without re-encoding.
+ */
+export const splitAudio = (bytes: Uint8Array, mimeType: string): AudioSegment[] | null => {
+  const type = mimeType.toLowerCase();
+  if (type.includes("wav")) return splitWav(bytes);
+  if (type.includes("mpeg") || type.includes("mp3")) return splitMp3(bytes);
+  return null;
+};
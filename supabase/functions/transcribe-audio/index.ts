@@ -1,14 +1,16 @@
 
-import { createClient } from "npm:@supabase/supabase-js@2";
-import { GoogleGenerativeAI } from "npm:@google/generative-ai";
+import { authenticate } from "../_shared/auth.ts";
+import { beginIdempotentRequest, type IdempotentRequest } from "../_shared/idempotency.ts";
+import { createIdempotencyStore } from "../_shared/idempotencyStore.ts";
+import { getProvider, ProviderError } from "../_shared/llm/index.ts";
+import { splitAudio } from "./chunking.ts";
+import { listSpeakers, parseTranscriptSegments, stitchTranscripts, type SegmentTranscript } from "./stitching.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, idempotency-key, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version",
 };
 
-const DEFAULT_GEMINI_MODEL = "gemini-1.5-flash"; 
-const FALLBACK_GEMINI_MODEL = "gemini-1.5-flash-latest";
 const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
 
 // --- YOUR ORIGINAL HELPER FUNCTIONS (Restored) ---
@@ -71,19 +73,18 @@ const parseBase64Payload = (rawBase64?: string, fallbackMimeType?: string) => {
   };
 };
 
-const toBase64 = (bytes: Uint8Array) => {
-  let binary = "";
-  const chunkSize = 0x8000;
+const fromBase64 = (encoded: string) => {
+  const binary = atob(encoded);
+  const bytes = new Uint8Array(binary.length);
 
-  for (let i = 0; i < bytes.length; i += chunkSize) {
-    const chunk = bytes.subarray(i, i + chunkSize);
-    binary += String.fromCharCode(...chunk);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
   }
 
-  return btoa(binary);
+  return bytes;
 };
 
-const parseGeminiJson = (raw: string) => {
+const parseModelJson = (raw: string) => {
   const trimmed = raw.trim();
   if (!trimmed) return null;
 
@@ -118,19 +119,6 @@ const normalizeActionItems = (value: unknown) => {
     .filter((item) => item && item.actionItem);
 };
 
-const shouldRetryWithFallbackModel = (error: unknown) => {
-  if (!(error instanceof Error)) return false;
-  const message = error.message.toLowerCase();
-
-  return (
-    message.includes("model") &&
-    (message.includes("not found") ||
-      message.includes("unsupported") ||
-      message.includes("is not found") ||
-      message.includes("permission denied"))
-  );
-};
-
 // --- MAIN HANDLER (Fixed for Deno 2.0) ---
 
 Deno.serve(async (req: Request) => {
@@ -138,7 +126,10 @@ Deno.serve(async (req: Request) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let idempotentRequest: IdempotentRequest | null = null;
+
   try {
+    const body = await req.json();
     const {
       audioUrl,
       filePath,
@@ -146,7 +137,7 @@ Deno.serve(async (req: Request) => {
       audioBase64,
       mimeType: requestedMimeType,
       fileName: requestedFileName,
-    } = await req.json();
+    } = body;
 
     if (!audioUrl && !filePath && !audioBase64) {
       return new Response(
@@ -155,56 +146,52 @@ Deno.serve(async (req: Request) => {
       );
     }
 
-    const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY") || Deno.env.get("GOOGLE_API_KEY");
-    const configuredModel = Deno.env.get("GEMINI_MODEL") || DEFAULT_GEMINI_MODEL;
-    if (!GEMINI_API_KEY) {
-      throw new Error("GEMINI_API_KEY (or GOOGLE_API_KEY) is not configured");
-    }
-
-    const authHeader = req.headers.get("Authorization");
-    if (!authHeader) {
-      return new Response(
-        JSON.stringify({ error: "Unauthorized" }),
-        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
-    const supabaseUrl = Deno.env.get("SUPABASE_URL");
-    const supabaseAnonKey = Deno.env.get("SUPABASE_ANON_KEY");
-
-    if (!supabaseUrl || !supabaseAnonKey) {
-      throw new Error("Supabase environment variables are not configured");
+    const provider = getProvider("transcription");
+    if (!provider.supportsAudio) {
+      throw new Error(`The ${provider.id} LLM provider cannot transcribe audio; set TRANSCRIPTION_LLM_PROVIDER`);
     }
 
-    const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-      global: { headers: { Authorization: authHeader } },
-    });
-
-    const { data: { user }, error: userError } = await supabase.auth.getUser();
-    if (userError || !user) {
+    const caller = await authenticate(req);
+    if (!caller) {
       return new Response(
         JSON.stringify({ error: "Unauthorized" }),
         { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
+    const { supabase, userId } = caller;
+
+    // A repeat of a request that already ran gets its transcript back instead of transcribing again
+    const idempotency = await beginIdempotentRequest(
+      req,
+      body,
+      createIdempotencyStore(supabase, userId, "transcribe-audio"),
+      corsHeaders
+    );
+    if ("response" in idempotency) return idempotency.response;
+    idempotentRequest = idempotency.request;
 
-    const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
     let resolvedFileName = getFileName(filePath, audioUrl, requestedFileName);
     let resolvedMimeType = inferMimeType(resolvedFileName, requestedMimeType);
     const parsedBase64 = parseBase64Payload(audioBase64, resolvedMimeType);
-    let encodedAudio = parsedBase64.data;
+    let audioBytes = parsedBase64.data ? fromBase64(parsedBase64.data) : null;
     resolvedMimeType = parsedBase64.mimeType || resolvedMimeType;
 
-    if (!encodedAudio && filePath) {
+    if (!audioBytes && filePath) {
+      // Recordings are stored under their owner's id, which the service role doesn't check for us
+      if (!filePath.startsWith(`${userId}/`)) {
+        return idempotentRequest.finish(new Response(
+          JSON.stringify({ error: "Audio file not found" }),
+          { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        ));
+      }
       const { data, error } = await supabase.storage.from("meeting-audio").download(filePath);
       if (error || !data) {
         throw new Error(`Failed to download audio file: ${error?.message || "unknown error"}`);
       }
       resolvedFileName = getFileName(filePath, audioUrl, requestedFileName);
       resolvedMimeType = data.type || inferMimeType(resolvedFileName, requestedMimeType);
-      const audioBytes = new Uint8Array(await data.arrayBuffer());
-      encodedAudio = toBase64(audioBytes);
-    } else if (!encodedAudio && audioUrl) {
+      audioBytes = new Uint8Array(await data.arrayBuffer());
+    } else if (!audioBytes && audioUrl) {
       const audioResponse = await fetch(audioUrl);
       if (!audioResponse.ok) {
         throw new Error(`Failed to fetch audio URL: ${audioResponse.status}`);
@@ -212,22 +199,33 @@ Deno.serve(async (req: Request) => {
       const audioBlob = await audioResponse.blob();
       resolvedFileName = getFileName(filePath, audioUrl, requestedFileName);
       resolvedMimeType = audioBlob.type || inferMimeType(resolvedFileName, requestedMimeType);
-      const audioBytes = new Uint8Array(await audioBlob.arrayBuffer());
-      encodedAudio = toBase64(audioBytes);
+      audioBytes = new Uint8Array(await audioBlob.arrayBuffer());
     }
 
-    if (!encodedAudio) {
+    if (!audioBytes?.length) {
       throw new Error("Failed to read audio payload");
     }
 
-    const estimatedAudioBytes = Math.floor((encodedAudio.length * 3) / 4);
-    if (estimatedAudioBytes > MAX_AUDIO_BYTES) {
-      return new Response(
-        JSON.stringify({ error: "Audio file exceeds 25MB processing limit" }),
+    // Anything over the inline limit is transcribed in overlapping segments and stitched back together.
+    const segments = audioBytes.length > MAX_AUDIO_BYTES ? splitAudio(audioBytes, resolvedMimeType) : null;
+    if (audioBytes.length > MAX_AUDIO_BYTES && !segments) {
+      return idempotentRequest.finish(new Response(
+        JSON.stringify({ error: "Audio files over 25MB must be WAV or MP3 so they can be transcribed in segments" }),
         { status: 413, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+      ));
     }
 
+    const segmentTotal = segments?.length ?? 1;
+    const reportProgress = async (segmentsDone: number) => {
+      if (!meetingId) return;
+      const { error } = await supabase
+        .from("meetings")
+        .update({ transcription_segments_done: segmentsDone, transcription_segments_total: segmentTotal })
+        .eq("id", meetingId)
+        .eq("user_id", userId);
+      if (error) console.error("Failed to record transcription progress:", error);
+    };
+
     const prompt = [
       "Transcribe this audio with timestamps and speaker labels, then extract the action items and meeting summary.",
       "Return ONLY valid JSON with this exact schema:",
@@ -246,55 +244,74 @@ Deno.serve(async (req: Request) => {
       "}",
     ].join("\n");
 
-    const generateWithModel = async (modelName: string) => {
-      const model = genAI.getGenerativeModel({
-        model: modelName,
-        generationConfig: {
-          temperature: 0.1,
-          responseMimeType: "application/json",
-        },
-      });
+    let usedModel = provider.model;
 
-      return model.generateContent([
-        { text: prompt },
-        {
-          inlineData: {
-            mimeType: resolvedMimeType,
-            data: encodedAudio,
-          },
-        },
-      ]);
+    const generate = async (promptText: string, data: Uint8Array, mimeType: string) => {
+      const result = await provider.complete({
+        messages: [{ role: "user", content: promptText }],
+        temperature: 0.1,
+        json: true,
+        audio: { data, mimeType },
+      });
+      usedModel = result.model;
+      return result.text;
     };
 
-    let geminiText = "";
-    let usedModel = configuredModel;
-
-    try {
-      const geminiResult = await generateWithModel(configuredModel);
-      geminiText = geminiResult.response.text();
-    } catch (primaryError) {
-      if (!shouldRetryWithFallbackModel(primaryError)) {
-        throw primaryError;
+    let transcript: string;
+    let meetingSummary: string | null = null;
+    let actionItems: ReturnType<typeof normalizeActionItems> = [];
+
+    await reportProgress(0);
+
+    if (!segments) {
+      const modelText = await generate(prompt, audioBytes, resolvedMimeType);
+      const parsed = parseModelJson(modelText);
+
+      transcript =
+        (parsed && typeof parsed.transcript === "string" ? parsed.transcript : modelText).trim();
+      meetingSummary =
+        parsed && typeof parsed.meetingSummary === "string" ? parsed.meetingSummary.trim() : null;
+      actionItems = normalizeActionItems(parsed?.actionItems);
+      await reportProgress(1);
+    } else {
+      // Summary and action items are left to extract-actions, which sees the whole stitched transcript.
+      const segmentTranscripts: SegmentTranscript[] = [];
+
+      for (const [index, segment] of segments.entries()) {
+        const knownSpeakers = listSpeakers(segmentTranscripts.map((done) => done.transcript).join("\n"));
+        const previousTail = segmentTranscripts.at(-1)?.transcript.split("\n").slice(-5).join("\n");
+        const segmentPrompt = [
+          `Transcribe part ${index + 1} of ${segments.length} of a longer meeting recording with speaker labels.`,
+          "Start each turn on a new line as [HH:MM:SS] Speaker: text, with timestamps relative to the start of this audio.",
+          knownSpeakers.length > 0
+            ? `Speakers identified so far: ${knownSpeakers.join(", ")}. Reuse these labels for the same voices.`
+            : "",
+          previousTail ? `The previous part ended with:\n${previousTail}` : "",
+          'Return ONLY valid JSON with this exact schema: { "transcript": "the transcript" }',
+        ].filter(Boolean).join("\n");
+
+        const modelText = await generate(segmentPrompt, segment.bytes, segment.mimeType);
+        const parsed = parseModelJson(modelText);
+        segmentTranscripts.push({
+          startSeconds: segment.startSeconds,
+          endSeconds: segment.endSeconds,
+          transcript: (parsed && typeof parsed.transcript === "string" ? parsed.transcript : modelText).trim(),
+        });
+        await reportProgress(index + 1);
       }
 
-      const fallbackResult = await generateWithModel(FALLBACK_GEMINI_MODEL);
-      usedModel = FALLBACK_GEMINI_MODEL;
-      geminiText = fallbackResult.response.text();
+      transcript = stitchTranscripts(segmentTranscripts);
     }
 
-    const parsed = parseGeminiJson(geminiText);
-
-    const transcript =
-      (parsed && typeof parsed.transcript === "string" ? parsed.transcript : geminiText).trim();
-    const meetingSummary =
-      parsed && typeof parsed.meetingSummary === "string" ? parsed.meetingSummary.trim() : null;
-    const actionItems = normalizeActionItems(parsed?.actionItems);
-
     if (!transcript) {
-      throw new Error("Gemini transcription returned empty transcript");
+      throw new Error("Transcription returned an empty transcript");
     }
 
     let updatedMeetingId: string | null = null;
+    // Kept as the meeting's summary until summarize-meeting replaces it with one that has key points
+    const meetingSummaryUpdate = meetingSummary
+      ? { summary: meetingSummary, summary_generated_at: new Date().toISOString() }
+      : {};
 
     if (meetingId) {
       const { data: updatedMeeting, error: updateError } = await supabase
@@ -302,9 +319,10 @@ Deno.serve(async (req: Request) => {
         .update({
           transcript,
           processed_at: new Date().toISOString(),
+          ...meetingSummaryUpdate,
         })
         .eq("id", meetingId)
-        .eq("user_id", user.id)
+        .eq("user_id", userId)
         .select("id")
         .maybeSingle();
 
@@ -317,7 +335,7 @@ Deno.serve(async (req: Request) => {
       const { data: existingMeeting } = await supabase
         .from("meetings")
         .select("id")
-        .eq("user_id", user.id)
+        .eq("user_id", userId)
         .eq("audio_url", audioUrl)
         .order("created_at", { ascending: false })
         .limit(1)
@@ -329,9 +347,10 @@ Deno.serve(async (req: Request) => {
           .update({
             transcript,
             processed_at: new Date().toISOString(),
+            ...meetingSummaryUpdate,
           })
           .eq("id", existingMeeting.id)
-          .eq("user_id", user.id);
+          .eq("user_id", userId);
 
         if (updateError) {
           throw new Error(`Failed to update meeting: ${updateError.message}`);
@@ -341,9 +360,38 @@ Deno.serve(async (req: Request) => {
       }
     }
 
-    return new Response(
+    const segmentRows = parseTranscriptSegments(transcript);
+
+    if (updatedMeetingId) {
+      // Replace any segments from an earlier transcription of the same meeting
+      const { error: deleteError } = await supabase
+        .from("transcript_segments")
+        .delete()
+        .eq("meeting_id", updatedMeetingId)
+        .eq("user_id", userId);
+
+      if (deleteError) {
+        throw new Error(`Failed to save transcript segments: ${deleteError.message}`);
+      }
+
+      const { error: segmentsError } = await supabase.from("transcript_segments").insert(
+        segmentRows.map((segment, position) => ({
+          ...segment,
+          meeting_id: updatedMeetingId,
+          user_id: userId,
+          position,
+        }))
+      );
+
+      if (segmentsError) {
+        throw new Error(`Failed to save transcript segments: ${segmentsError.message}`);
+      }
+    }
+
+    return idempotentRequest.finish(new Response(
       JSON.stringify({
         transcript,
+        segments: segmentRows,
         meetingSummary,
         actionItems,
         meetingUpdated: Boolean(updatedMeetingId),
@@ -351,13 +399,17 @@ Deno.serve(async (req: Request) => {
         model: usedModel,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
-    );
+    ));
 
   } catch (error) {
     console.error("Transcription error:", error);
+    await idempotentRequest?.release();
     return new Response(
       JSON.stringify({ error: error instanceof Error ? error.message : "Transcription failed" }),
-      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      {
+        status: error instanceof ProviderError ? error.status : 500,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      }
     );
   }
 });
\ No newline at end of file
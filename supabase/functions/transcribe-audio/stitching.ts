@@ -0,0 +1,141 @@
+// Joins per-segment transcripts into one continuous transcript. Segment timestamps are shifted
+// onto the recording's timeline, duplicated speech in the overlaps is dropped at the overlap
+// midpoint, and speaker labels are mapped back to the names used by earlier segments.
+
+export interface SegmentTranscript {
+  startSeconds: number;
+  endSeconds: number;
+  transcript: string;
+}
+
+interface TranscriptLine {
+  seconds: number | null;
+  speaker: string | null;
+  text: string;
+}
+
+const TIMESTAMP_LINE = /^\[(?:(\d{1,2}):)?(\d{1,2}):(\d{2})(?:\.\d+)?\]\s*(.*)$/;
+const SPEAKER_PREFIX = /^([^:[\]]{1,60}?):\s+(.*)$/;
+const MIN_SPEAKER_SIMILARITY = 0.5;
+
+const formatTimestamp = (totalSeconds: number) => {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  return [Math.floor(seconds / 3600), Math.floor((seconds % 3600) / 60), seconds % 60]
+    .map((value) => String(value).padStart(2, "0"))
+    .join(":");
+};
+
+const parseLines = (transcript: string, offsetSeconds: number): TranscriptLine[] =>
+  transcript
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .map((line) => {
+      const timestamp = TIMESTAMP_LINE.exec(line);
+      const seconds = timestamp
+        ? Number(timestamp[1] ?? 0) * 3600 + Number(timestamp[2]) * 60 + Number(timestamp[3]) + offsetSeconds
+        : null;
+      const rest = timestamp ? timestamp[4] : line;
+      const speaker = SPEAKER_PREFIX.exec(rest);
+
+      return {
+        seconds,
+        speaker: speaker ? speaker[1].trim() : null,
+        text: speaker ? speaker[2].trim() : rest,
+      };
+    });
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}']+/gu) ?? []);
+
+const similarity = (a: string, b: string) => {
+  const left = words(a);
+  const right = words(b);
+  if (left.size === 0 || right.size === 0) return 0;
+  const shared = [...left].filter((word) => right.has(word)).length;
+  return shared / (left.size + right.size - shared);
+};
+
+const inWindow = (line: TranscriptLine, start: number, end: number) =>
+  line.seconds !== null && line.seconds >= start - 2 && line.seconds <= end + 2;
+
+/**
+ * Matches lines spoken in the overlap of two segments and returns, for each speaker label in
+ * the later segment, the label the earlier segment used for the same voice.
+ */
+const mapSpeakers = (previous: TranscriptLine[], current: TranscriptLine[], start: number, end: number) => {
+  const votes = new Map<string, Map<string, number>>();
+  const earlier = previous.filter((line) => line.speaker && inWindow(line, start, end));
+
+  current
+    .filter((line) => line.speaker && inWindow(line, start, end))
+    .forEach((line) => {
+      let best: TranscriptLine | null = null;
+      let bestScore = MIN_SPEAKER_SIMILARITY;
+      for (const candidate of earlier) {
+        const score = similarity(line.text, candidate.text);
+        if (score >= bestScore) {
+          best = candidate;
+          bestScore = score;
+        }
+      }
+      if (!best) return;
+
+      const counts = votes.get(line.speaker!) ?? new Map<string, number>();
+      const label = best.speaker!;
+      counts.set(label, (counts.get(label) ?? 0) + 1);
+      votes.set(line.speaker!, counts);
+    });
+
+  const mapping = new Map<string, string>();
+  votes.forEach((counts, label) => {
+    const [winner] = [...counts.entries()].sort((a, b) => b[1] - a[1])[0];
+    mapping.set(label, winner);
+  });
+  return mapping;
+};
+
+/** Splits a transcript into speaker turns, each ending where the next one starts. */
+export const parseTranscriptSegments = (transcript: string) => {
+  const lines = parseLines(transcript, 0);
+  return lines.map((line, index) => ({
+    speaker: line.speaker,
+    start_seconds: line.seconds,
+    end_seconds: lines.slice(index + 1).find((next) => next.seconds !== null)?.seconds ?? null,
+    text: line.text,
+  }));
+};
+
+/** Collects the speaker labels used so far, to prompt later segments with. */
+export const listSpeakers = (transcript: string) => [
+  ...new Set(parseLines(transcript, 0).flatMap((line) => (line.speaker ? [line.speaker] : []))),
+];
+
+export const stitchTranscripts = (segments: SegmentTranscript[]) => {
+  const parsed = segments.map((segment) => parseLines(segment.transcript, segment.startSeconds));
+
+  for (let i = 1; i < segments.length; i++) {
+    const mapping = mapSpeakers(parsed[i - 1], parsed[i], segments[i].startSeconds, segments[i - 1].endSeconds);
+    parsed[i].forEach((line) => {
+      if (line.speaker && mapping.has(line.speaker)) line.speaker = mapping.get(line.speaker)!;
+    });
+  }
+
+  const output: string[] = [];
+  parsed.forEach((lines, i) => {
+    // Each overlap is owned half by the segment before it and half by the segment after it.
+    const from = i === 0 ? -Infinity : (segments[i].startSeconds + segments[i - 1].endSeconds) / 2;
+    const to = i === segments.length - 1 ? Infinity : (segments[i + 1].startSeconds + segments[i].endSeconds) / 2;
+    let keep = i === 0;
+
+    lines.forEach((line) => {
+      if (line.seconds !== null) keep = line.seconds >= from && line.seconds < to;
+      if (!keep) return;
+
+      const timestamp = line.seconds !== null ? `[${formatTimestamp(line.seconds)}] ` : "";
+      const speaker = line.speaker ? `${line.speaker}: ` : "";
+      output.push(`${timestamp}${speaker}${line.text}`);
+    });
+  });
+
+  return output.join("\n");
+};
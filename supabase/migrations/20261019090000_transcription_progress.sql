@@ -0,0 +1,7 @@
+-- Track how many audio segments have been transcribed for long recordings
+ALTER TABLE public.meetings
+    ADD COLUMN transcription_segments_done INTEGER,
+    ADD COLUMN transcription_segments_total INTEGER;
+
+-- Enable realtime for meetings so the upload page can follow transcription progress
+ALTER PUBLICATION supabase_realtime ADD TABLE public.meetings;
@@ -0,0 +1,4 @@
+-- Capture meeting length and who attended, as [{ "name": ..., "email": ... }]
+ALTER TABLE public.meetings
+    ADD COLUMN duration_minutes INTEGER CHECK (duration_minutes > 0),
+    ADD COLUMN attendees JSONB NOT NULL DEFAULT '[]';
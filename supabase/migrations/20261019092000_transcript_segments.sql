@@ -0,0 +1,30 @@
+-- Create transcript_segments table (one row per speaker turn, in transcript order)
+CREATE TABLE public.transcript_segments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    speaker TEXT,
+    start_seconds REAL,
+    end_seconds REAL,
+    text TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (meeting_id, position)
+);
+
+CREATE INDEX idx_transcript_segments_meeting_id ON public.transcript_segments(meeting_id, position);
+
+ALTER TABLE public.transcript_segments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for transcript_segments
+CREATE POLICY "Users can view own transcript segments" ON public.transcript_segments
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own transcript segments" ON public.transcript_segments
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own transcript segments" ON public.transcript_segments
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own transcript segments" ON public.transcript_segments
+    FOR DELETE USING (auth.uid() = user_id);
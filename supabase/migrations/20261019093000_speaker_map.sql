@@ -0,0 +1,3 @@
+-- Map transcript speaker labels ("Speaker 1") to people: { "Speaker 1": { "name": ..., "email": ... } }
+ALTER TABLE public.meetings
+    ADD COLUMN speaker_map JSONB NOT NULL DEFAULT '{}';
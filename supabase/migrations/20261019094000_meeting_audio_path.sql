@@ -0,0 +1,9 @@
+-- Store the object path of a meeting's recording in the private meeting-audio bucket.
+-- Playback uses short-lived signed URLs for this path; audio_url is kept for older meetings.
+ALTER TABLE public.meetings
+    ADD COLUMN audio_path TEXT;
+
+-- Backfill from public URLs stored by earlier uploads (.../object/public/meeting-audio/<path>)
+UPDATE public.meetings
+SET audio_path = substring(audio_url FROM '/meeting-audio/(.+)$')
+WHERE audio_url IS NOT NULL AND audio_path IS NULL;
@@ -0,0 +1,8 @@
+-- Record whether action item extraction succeeded, so a failed run isn't mistaken for an empty meeting
+ALTER TABLE public.meetings
+    ADD COLUMN extraction_status TEXT NOT NULL DEFAULT 'completed'
+        CHECK (extraction_status IN ('pending', 'completed', 'failed')),
+    ADD COLUMN extraction_error TEXT;
+
+-- Existing meetings keep 'completed'; new ones start out pending until extract-actions finishes
+ALTER TABLE public.meetings ALTER COLUMN extraction_status SET DEFAULT 'pending';
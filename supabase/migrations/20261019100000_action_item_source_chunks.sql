@@ -0,0 +1,3 @@
+-- Which transcript chunks an action item was extracted from (0-based; a single chunk for short meetings)
+ALTER TABLE public.action_items
+    ADD COLUMN source_chunks INTEGER[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,7 @@
+-- The transcript passage each action item was extracted from: the quoted text, its character
+-- offsets in meetings.transcript (end exclusive) and the timestamp of the line it starts on
+ALTER TABLE public.action_items
+    ADD COLUMN source_quote TEXT,
+    ADD COLUMN source_start INTEGER CHECK (source_start >= 0),
+    ADD COLUMN source_end INTEGER CHECK (source_end >= source_start),
+    ADD COLUMN source_timestamp REAL;
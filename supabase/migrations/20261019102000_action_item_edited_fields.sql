@@ -0,0 +1,3 @@
+-- Action item fields the user changed by hand, which re-extracting the meeting must not overwrite
+ALTER TABLE public.action_items
+    ADD COLUMN edited_fields TEXT[] NOT NULL DEFAULT '{}';
@@ -0,0 +1,35 @@
+-- Create meeting_insights table (decisions, risks/blockers and open questions extracted with the action items)
+CREATE TABLE public.meeting_insights (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('decision', 'risk', 'question')),
+    position INTEGER NOT NULL DEFAULT 0,
+    text TEXT NOT NULL,
+    owner TEXT,
+    source_chunks INTEGER[] NOT NULL DEFAULT '{}',
+    source_quote TEXT,
+    source_start INTEGER CHECK (source_start >= 0),
+    source_end INTEGER CHECK (source_end >= source_start),
+    source_timestamp REAL,
+    -- Set when an open question is turned into an action item
+    action_item_id UUID REFERENCES public.action_items(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_meeting_insights_meeting_id ON public.meeting_insights(meeting_id, kind, position);
+
+ALTER TABLE public.meeting_insights ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for meeting_insights
+CREATE POLICY "Users can view own meeting insights" ON public.meeting_insights
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own meeting insights" ON public.meeting_insights
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own meeting insights" ON public.meeting_insights
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own meeting insights" ON public.meeting_insights
+    FOR DELETE USING (auth.uid() = user_id);
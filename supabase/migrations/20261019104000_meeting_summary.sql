@@ -0,0 +1,5 @@
+-- A short overview of the meeting with its key points, generated after upload and editable by hand
+ALTER TABLE public.meetings
+    ADD COLUMN summary TEXT,
+    ADD COLUMN summary_key_points TEXT[] NOT NULL DEFAULT '{}',
+    ADD COLUMN summary_generated_at TIMESTAMPTZ;
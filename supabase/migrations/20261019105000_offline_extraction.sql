@@ -0,0 +1,10 @@
+-- Which extractor a meeting asks for: the AI provider (falling back to the offline rules when it
+-- is unavailable) or the offline rules only, for meetings that must not leave the backend
+ALTER TABLE public.meetings
+    ADD COLUMN extractor TEXT NOT NULL DEFAULT 'ai'
+        CHECK (extractor IN ('ai', 'offline'));
+
+-- Which extractor produced the meeting's current action items
+ALTER TABLE public.meetings
+    ADD COLUMN extracted_with TEXT
+        CHECK (extracted_with IN ('ai', 'offline'));
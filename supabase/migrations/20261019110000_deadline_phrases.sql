@@ -0,0 +1,3 @@
+-- The words a deadline was resolved from ("by next Friday"), so reviewers can check the date
+ALTER TABLE public.action_items
+    ADD COLUMN deadline_phrase TEXT;
@@ -0,0 +1,37 @@
+-- Create people table (the directory extracted owners are matched against)
+CREATE TABLE public.people (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    email TEXT,
+    -- Other names the person goes by: nicknames, initials, handles
+    aliases TEXT[] NOT NULL DEFAULT '{}',
+    team TEXT,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_people_user_id ON public.people(user_id);
+
+ALTER TABLE public.people ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for people
+CREATE POLICY "Users can view own people" ON public.people
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own people" ON public.people
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own people" ON public.people
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own people" ON public.people
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_people_updated_at
+    BEFORE UPDATE ON public.people
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Directory entries an extracted owner could be, when no single one matched confidently
+ALTER TABLE public.action_items
+    ADD COLUMN owner_candidates JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,42 @@
+-- Create extraction_feedback table (reviewer corrections, used as examples in later extractions)
+CREATE TABLE public.extraction_feedback (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    meeting_id UUID REFERENCES public.meetings(id) ON DELETE SET NULL,
+    -- One entry per action item, updated as the item is edited further
+    action_item_id UUID UNIQUE REFERENCES public.action_items(id) ON DELETE SET NULL,
+    kind TEXT NOT NULL CHECK (kind IN ('edit', 'delete', 'confirm')),
+    excerpt TEXT NOT NULL,
+    -- The item as extracted, and as the reviewer left it (null when it was deleted)
+    original JSONB NOT NULL,
+    corrected JSONB,
+    -- The author's teams when recorded, so teammates' extractions learn from it too
+    teams TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_extraction_feedback_user_id ON public.extraction_feedback(user_id, updated_at DESC);
+CREATE INDEX idx_extraction_feedback_teams ON public.extraction_feedback USING GIN (teams);
+
+ALTER TABLE public.extraction_feedback ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for extraction_feedback
+CREATE POLICY "Users can view own extraction feedback" ON public.extraction_feedback
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view team extraction feedback" ON public.extraction_feedback
+    FOR SELECT USING (teams && (SELECT teams FROM public.profiles WHERE id = auth.uid()));
+
+CREATE POLICY "Users can create own extraction feedback" ON public.extraction_feedback
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own extraction feedback" ON public.extraction_feedback
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own extraction feedback" ON public.extraction_feedback
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_extraction_feedback_updated_at
+    BEFORE UPDATE ON public.extraction_feedback
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,8 @@
+-- The meeting-type template extraction used: a built-in id (standup, retro, ...) or the id of
+-- one of the user's own templates in profiles.preferences
+ALTER TABLE public.meetings
+    ADD COLUMN template TEXT NOT NULL DEFAULT 'general';
+
+-- Extra fields the template asked for, by label
+ALTER TABLE public.action_items
+    ADD COLUMN extra JSONB NOT NULL DEFAULT '{}';
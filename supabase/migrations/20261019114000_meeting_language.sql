@@ -0,0 +1,10 @@
+-- The language the meeting was held in (ISO 639-1, detected at extraction), and the language
+-- its action items are translated into, if any
+ALTER TABLE public.meetings
+    ADD COLUMN language TEXT,
+    ADD COLUMN translate_to TEXT;
+
+-- The text as extracted in the meeting's language, kept when the item was translated
+ALTER TABLE public.action_items
+    ADD COLUMN original_action_item TEXT,
+    ADD COLUMN original_notes TEXT;
@@ -0,0 +1,79 @@
+-- Create processing_jobs table (one run of a meeting through upload, transcription, extraction and summary)
+CREATE TABLE public.processing_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    meeting_id UUID NOT NULL REFERENCES public.meetings(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+    -- The uploader's timezone, for resolving deadline phrases when the steps run server-side
+    time_zone TEXT,
+    error TEXT,
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_processing_jobs_meeting_id ON public.processing_jobs(meeting_id, created_at);
+
+ALTER TABLE public.processing_jobs ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for processing_jobs
+CREATE POLICY "Users can view own processing jobs" ON public.processing_jobs
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own processing jobs" ON public.processing_jobs
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own processing jobs" ON public.processing_jobs
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own processing jobs" ON public.processing_jobs
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_processing_jobs_updated_at
+    BEFORE UPDATE ON public.processing_jobs
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create processing_steps table (the stages of a job, run in position order)
+CREATE TABLE public.processing_steps (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    job_id UUID NOT NULL REFERENCES public.processing_jobs(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    step TEXT NOT NULL CHECK (step IN ('upload', 'transcribe', 'extract', 'summarize')),
+    position INTEGER NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'completed', 'failed', 'skipped')),
+    attempts INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    -- What the step produced, e.g. the number of action items extracted
+    result JSONB NOT NULL DEFAULT '{}',
+    started_at TIMESTAMP WITH TIME ZONE,
+    finished_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (job_id, step)
+);
+
+CREATE INDEX idx_processing_steps_job_id ON public.processing_steps(job_id, position);
+
+ALTER TABLE public.processing_steps ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for processing_steps
+CREATE POLICY "Users can view own processing steps" ON public.processing_steps
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own processing steps" ON public.processing_steps
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own processing steps" ON public.processing_steps
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own processing steps" ON public.processing_steps
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_processing_steps_updated_at
+    BEFORE UPDATE ON public.processing_steps
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enable realtime so the upload and meeting pages can follow a job's timeline
+ALTER PUBLICATION supabase_realtime ADD TABLE public.processing_jobs;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.processing_steps;
@@ -0,0 +1,37 @@
+-- Create idempotency_keys table (the first response to each Idempotency-Key, replayed to repeats of the request)
+CREATE TABLE public.idempotency_keys (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    -- The function the key was sent to; keys are only unique per user and endpoint
+    endpoint TEXT NOT NULL,
+    key TEXT NOT NULL CHECK (char_length(key) <= 255),
+    -- SHA-256 of the request body, so reusing a key for a different request can be refused
+    request_hash TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'completed')),
+    response_status INTEGER,
+    response_body JSONB,
+    created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+    UNIQUE (user_id, endpoint, key)
+);
+
+CREATE INDEX idx_idempotency_keys_created_at ON public.idempotency_keys(created_at);
+
+ALTER TABLE public.idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies for idempotency_keys
+CREATE POLICY "Users can view own idempotency keys" ON public.idempotency_keys
+    FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own idempotency keys" ON public.idempotency_keys
+    FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own idempotency keys" ON public.idempotency_keys
+    FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own idempotency keys" ON public.idempotency_keys
+    FOR DELETE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_idempotency_keys_updated_at
+    BEFORE UPDATE ON public.idempotency_keys
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
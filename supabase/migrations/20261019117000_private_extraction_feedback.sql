@@ -0,0 +1,6 @@
+-- Keep reviewer corrections private to their author. Sharing them by profiles.teams let anyone
+-- read another team's transcript excerpts by adding its name to their own profile, which they can
+-- edit freely. Team sharing can return once membership is something users can't grant themselves.
+DROP POLICY "Users can view team extraction feedback" ON public.extraction_feedback;
+DROP INDEX public.idx_extraction_feedback_teams;
+ALTER TABLE public.extraction_feedback DROP COLUMN teams;
@@ -0,0 +1,31 @@
+-- Idempotency keys are only kept for a day; a repeat after that runs as a new request
+ALTER TABLE public.idempotency_keys
+    ADD COLUMN expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now() + INTERVAL '1 day';
+
+UPDATE public.idempotency_keys SET expires_at = created_at + INTERVAL '1 day';
+
+DROP INDEX IF EXISTS public.idx_idempotency_keys_created_at;
+CREATE INDEX idx_idempotency_keys_expires_at ON public.idempotency_keys(expires_at);
+
+-- Deletes the keys that have expired; lookups already ignore them, this keeps the table small
+CREATE OR REPLACE FUNCTION public.delete_expired_idempotency_keys()
+RETURNS INTEGER AS $$
+DECLARE
+    deleted INTEGER;
+BEGIN
+    DELETE FROM public.idempotency_keys WHERE expires_at <= now();
+    GET DIAGNOSTICS deleted = ROW_COUNT;
+    RETURN deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.delete_expired_idempotency_keys() FROM PUBLIC, anon, authenticated;
+
+-- Run the cleanup every hour
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+    'delete-expired-idempotency-keys',
+    '0 * * * *',
+    $$SELECT public.delete_expired_idempotency_keys()$$
+);